@@ -0,0 +1,48 @@
+import cors from 'cors'
+import express from 'express'
+import { clientOrigin, trustProxy } from './config'
+import { authenticate, enforceAdminTwoFactor, requireRole, resolveActor } from './middleware/auth'
+import { handleErrors } from './middleware/errors'
+import { assignRequestId, requestIdHeader } from './middleware/request-id'
+import { adminRouter } from './routes/admin'
+import { authRouter } from './routes/auth'
+import { companiesRouter } from './routes/companies'
+import { dashboardRouter } from './routes/dashboard'
+import { forumRouter } from './routes/forum'
+import { messagesRouter } from './routes/messages'
+import { notificationsRouter } from './routes/notifications'
+import { settingsRouter } from './routes/settings'
+
+export const app = express()
+
+app.use(assignRequestId)
+app.use(
+  cors({
+    origin: clientOrigin,
+    credentials: true,
+    exposedHeaders: [requestIdHeader],
+  })
+)
+app.use(express.json())
+if (trustProxy !== null) {
+  app.set('trust proxy', trustProxy)
+}
+app.use('/api', authenticate)
+app.use('/api', resolveActor)
+app.use('/api/admin', requireRole('admin'))
+app.use('/api/admin', enforceAdminTwoFactor)
+
+app.get('/api/health', (_req, res) => {
+  res.json({ ok: true })
+})
+
+app.use('/api/auth', authRouter)
+app.use('/api/admin', adminRouter)
+app.use('/api/dashboard', dashboardRouter)
+app.use('/api', companiesRouter)
+app.use('/api/forum', forumRouter)
+app.use('/api/messages', messagesRouter)
+app.use('/api/notifications', notificationsRouter)
+app.use('/api', settingsRouter)
+
+app.use(handleErrors)
@@ -0,0 +1,52 @@
+import 'dotenv/config'
+import crypto from 'node:crypto'
+
+export const port = Number(process.env.PORT || 8080)
+export const clientOrigin = process.env.CLIENT_ORIGIN || 'http://localhost:5173'
+// Deployments that manage their schema separately can set MIGRATE_ON_START=false.
+export const migrateOnStart = process.env.MIGRATE_ON_START !== 'false'
+
+export const authTokenTtl = process.env.AUTH_TOKEN_TTL || '12h'
+export const passwordResetTtlMs = 60 * 60 * 1000
+export const activationTtlMs = 7 * 24 * 60 * 60 * 1000
+export const twoFactorChallengeTtl = '5m'
+export const twoFactorIssuer = process.env.TWO_FACTOR_ISSUER || 'Cyber Parc Intranet'
+export const recoveryCodeCount = 10
+
+// Failed logins are counted per account and per IP within the window; an account's count restarts
+// at its last successful login.
+// Past freeAttempts each failure doubles the wait before the next try; at the lockout threshold
+// the account (or IP) is locked for lockoutMs.
+export const loginThrottle = {
+  windowMs: 15 * 60 * 1000,
+  freeAttempts: 3,
+  baseDelayMs: 2000,
+  accountLockoutThreshold: 10,
+  ipLockoutThreshold: 50,
+  lockoutMs: 15 * 60 * 1000,
+}
+
+// Password reset requests are counted per email and per IP within the window, for known and unknown
+// emails alike. Past the limit no link is sent until the oldest request leaves the window.
+export const passwordResetThrottle = {
+  windowMs: 15 * 60 * 1000,
+  emailLimit: 3,
+  ipLimit: 20,
+}
+
+export const authTokenSecret = (() => {
+  if (process.env.AUTH_TOKEN_SECRET) return process.env.AUTH_TOKEN_SECRET
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('AUTH_TOKEN_SECRET must be set in production.')
+  }
+  console.warn('AUTH_TOKEN_SECRET is not set, using a random secret. Sessions will not survive a restart.')
+  return crypto.randomBytes(32).toString('hex')
+})()
+
+// Per-IP login throttling needs the client address, not the proxy's, when deployed behind one.
+// TRUST_PROXY accepts what Express does: a hop count, "true", or a list of proxy addresses.
+export const trustProxy = (() => {
+  const value = process.env.TRUST_PROXY
+  if (!value) return null
+  return /^\d+$/.test(value) ? Number(value) : value === 'true' || value
+})()
@@ -0,0 +1,35 @@
+import pg from 'pg'
+import { createSchemaRegistry } from './schema-registry'
+
+export const pool = new pg.Pool({
+  connectionString: process.env.DATABASE_URL,
+})
+
+export const schema = createSchemaRegistry(pool)
+
+// Repositories take the pool or a checked-out client, so callers decide what runs in a transaction.
+export type Queryable = pg.Pool | pg.PoolClient
+
+export const withTransaction = async <T>(callback: (client: pg.PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect()
+
+  try {
+    await client.query('BEGIN')
+    const result = await callback(client)
+    await client.query('COMMIT')
+    return result
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  } finally {
+    client.release()
+  }
+}
+
+export const logDatabaseInfo = async () => {
+  const result = await pool.query<{ db: string; schema: string }>(
+    'SELECT current_database() AS db, current_schema() AS schema'
+  )
+  const info = result.rows[0]
+  console.log(`Connected to database: ${info?.db || 'unknown'} (schema: ${info?.schema || 'unknown'})`)
+}
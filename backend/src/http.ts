@@ -0,0 +1,10 @@
+// Thrown from inside a transaction to roll it back and answer with a client error instead of a 500.
+export class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message)
+    this.name = 'HttpError'
+  }
+}
@@ -0,0 +1,18 @@
+import { app } from './app'
+import { migrateOnStart, port } from './config'
+import { logDatabaseInfo, pool, schema } from './db'
+import { migrateUp } from './migrate'
+
+const pendingMigrations = migrateOnStart ? migrateUp(pool) : Promise.resolve()
+
+pendingMigrations
+  .then(() => schema.refresh())
+  .then(logDatabaseInfo)
+  .then(() => {
+    app.listen(port, () => {
+      console.log(`API running on http://localhost:${port}`)
+    })
+  })
+  .catch((error) => {
+    console.error('Failed to start server', error)
+  })
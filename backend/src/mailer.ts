@@ -0,0 +1,62 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+export interface MailMessage {
+  from: string
+  to: string
+  subject: string
+  text: string
+}
+
+export type MailTransport = (message: MailMessage) => Promise<void>
+
+// Transports receive a normalized message ({ from, to, subject, text }) and deliver it.
+// Register additional ones (SMTP, an HTTP provider...) with registerMailTransport.
+const transports = new Map<string, () => MailTransport>()
+
+export const registerMailTransport = (name: string, factory: () => MailTransport) => {
+  transports.set(name, factory)
+}
+
+registerMailTransport('console', () => async (message) => {
+  console.log(
+    ['--- outgoing mail ---', `From: ${message.from}`, `To: ${message.to}`, `Subject: ${message.subject}`, '', message.text, '---------------------'].join('\n')
+  )
+})
+
+registerMailTransport('file', () => {
+  const outboxDir = path.resolve(process.env.MAIL_OUTBOX_DIR || 'mail-outbox')
+
+  return async (message) => {
+    await fs.mkdir(outboxDir, { recursive: true })
+    const safeRecipient = message.to.replace(/[^a-z0-9@._-]/gi, '_')
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeRecipient}.json`
+    await fs.writeFile(path.join(outboxDir, fileName), JSON.stringify(message, null, 2))
+  }
+})
+
+let activeTransport: MailTransport | null = null
+
+const getTransport = () => {
+  if (activeTransport) return activeTransport
+
+  const name = process.env.MAIL_TRANSPORT || 'console'
+  const factory = transports.get(name)
+
+  if (!factory) {
+    throw new Error(`Unknown mail transport "${name}".`)
+  }
+
+  activeTransport = factory()
+  return activeTransport
+}
+
+export const sendMail = async ({ to, subject, text }: Omit<MailMessage, 'from'>) => {
+  const transport = getTransport()
+  await transport({
+    from: process.env.MAIL_FROM || 'Cyber Parc Intranet <no-reply@cyberparc.local>',
+    to,
+    subject,
+    text,
+  })
+}
@@ -0,0 +1,192 @@
+import type { RequestHandler, Response } from 'express'
+import type { ParamsDictionary } from 'express-serve-static-core'
+import jwt from 'jsonwebtoken'
+import type { CompanyRole, UserRole } from '@cyberparc/shared'
+import { pool } from '../db'
+import { findCompanyName } from '../repositories/companies'
+import { touchSession } from '../repositories/sessions'
+import { findTwoFactor } from '../repositories/two-factor'
+import { findCompanyRole } from '../repositories/users'
+import { getSecurityPolicy, isTwoFactorRequired } from '../services/security-policy'
+import { verifyAuthToken, type AuthTokenPayload } from '../services/sessions'
+import type { Actor } from '../types'
+
+const publicApiRoutes = new Set([
+  'GET /api/health',
+  'POST /api/auth/login',
+  'POST /api/auth/login/2fa',
+  'POST /api/auth/forgot-password',
+  'POST /api/auth/verify-token',
+  'POST /api/auth/reset-password',
+  'POST /api/auth/activate',
+])
+
+// Verifies the bearer token and its session on every /api route and exposes the caller as req.auth.
+export const authenticate: RequestHandler = async (req, res, next) => {
+  if (publicApiRoutes.has(`${req.method} ${req.baseUrl}${req.path}`)) {
+    return next()
+  }
+
+  const header = req.get('authorization') || ''
+  const [scheme, token] = header.split(' ')
+
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ message: 'Authentication required.' })
+  }
+
+  let payload: AuthTokenPayload
+
+  try {
+    payload = verifyAuthToken(token)
+  } catch (error) {
+    const message = error instanceof jwt.TokenExpiredError ? 'Session expired.' : 'Invalid session token.'
+    return res.status(401).json({ message })
+  }
+
+  try {
+    const userId = Number(payload.sub)
+    const sessionId = payload.jti || ''
+
+    if (!(await touchSession(pool, sessionId, userId))) {
+      return res.status(401).json({ message: 'Session revoked.' })
+    }
+
+    req.auth = {
+      userId,
+      role: payload.role,
+      companyId: payload.companyId ?? null,
+      sessionId,
+    }
+    return next()
+  } catch (error) {
+    console.error('Authenticate error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+}
+
+// With the "require 2FA for admins" policy on, admins who have not enrolled get neither the admin
+// routes nor the right to act as another company.
+const isMissingRequiredTwoFactor = async (userId: number, role: UserRole) => {
+  const policy = await getSecurityPolicy()
+  if (!isTwoFactorRequired(policy, role)) return false
+
+  const twoFactor = await findTwoFactor(pool, userId)
+  return !twoFactor?.enabledAt
+}
+
+const sendTwoFactorRequired = (res: Response) =>
+  res.status(403).json({
+    message: 'Two-factor authentication is required for admin accounts.',
+    code: 'TWO_FACTOR_REQUIRED',
+  })
+
+// Resolves who the request acts as. Admins may act on behalf of another company by sending
+// the X-Act-As-Company header; every other caller always acts as the company in its token.
+export const resolveActor: RequestHandler = async (req, res, next) => {
+  if (!req.auth) return next()
+
+  const actAsHeader = req.get('x-act-as-company')
+
+  if (!actAsHeader) {
+    req.actor = { ...req.auth, impersonating: false }
+    return next()
+  }
+
+  if (req.auth.role !== 'admin') {
+    return res.status(403).json({ message: 'Only admins can act on behalf of another company.' })
+  }
+
+  const companyId = Number(actAsHeader)
+
+  if (!Number.isInteger(companyId) || companyId <= 0) {
+    return res.status(400).json({ message: 'Invalid impersonated company id.' })
+  }
+
+  try {
+    if (await isMissingRequiredTwoFactor(req.auth.userId, req.auth.role)) {
+      return sendTwoFactorRequired(res)
+    }
+
+    if ((await findCompanyName(pool, companyId)) === null) {
+      return res.status(404).json({ message: 'Impersonated company not found.' })
+    }
+
+    req.actor = { ...req.auth, companyId, impersonating: true }
+    return next()
+  } catch (error) {
+    console.error('Impersonation error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+}
+
+const isProvided = (value: unknown) => value !== undefined && value !== null && value !== ''
+
+// Identity now comes from the session; ids sent by the client are only accepted when they agree with it.
+export const findIdentityMismatch = (actor: Actor, { userId, companyId }: { userId?: unknown; companyId?: unknown } = {}) => {
+  if (isProvided(userId) && Number(userId) !== actor.userId) {
+    return 'userId does not match the authenticated user.'
+  }
+
+  if (isProvided(companyId) && Number(companyId) !== Number(actor.companyId)) {
+    return 'companyId does not match the acting company.'
+  }
+
+  return null
+}
+
+// Admins get owner rights on whichever company they act as; everyone else has the role stored on
+// their account, looked up per request so role changes apply without signing in again.
+export const getCompanyRole = async (actor: Actor): Promise<CompanyRole | null> => {
+  if (actor.role === 'admin') return 'owner'
+  if (!actor.companyId) return null
+  return findCompanyRole(pool, actor.userId, actor.companyId)
+}
+
+// Typed by the route's validated params when it runs ahead of validate().
+export const requireCompanyRole =
+  <P = ParamsDictionary>(...roles: CompanyRole[]): RequestHandler<P> =>
+  async (req, res, next) => {
+    try {
+      const companyRole = req.actor?.companyId ? await getCompanyRole(req.actor) : null
+
+      if (!companyRole || !roles.includes(companyRole)) {
+        return res.status(403).json({ message: 'Your company role does not allow this action.' })
+      }
+
+      req.companyRole = companyRole
+      return next()
+    } catch (error) {
+      console.error('Company role error', error)
+      return res.status(500).json({ message: 'Server error.' })
+    }
+  }
+
+// Typed like requireCompanyRole when it runs ahead of validate().
+export const requireRole =
+  <P = ParamsDictionary>(...roles: UserRole[]): RequestHandler<P> =>
+  (req, res, next) => {
+    if (!req.auth) {
+      return res.status(401).json({ message: 'Authentication required.' })
+    }
+
+    if (!roles.includes(req.auth.role)) {
+      return res.status(403).json({ message: 'You do not have access to this resource.' })
+    }
+
+    return next()
+  }
+
+// Admin routes stay closed until the caller enrolls when the policy requires it; impersonation is
+// checked the same way in resolveActor.
+export const enforceAdminTwoFactor: RequestHandler = async (req, res, next) => {
+  try {
+    if (await isMissingRequiredTwoFactor(req.auth.userId, req.auth.role)) {
+      return sendTwoFactorRequired(res)
+    }
+
+    return next()
+  } catch (error) {
+    console.error('Two-factor policy error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+}
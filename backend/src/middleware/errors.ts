@@ -0,0 +1,20 @@
+import type { ErrorRequestHandler } from 'express'
+
+// Last-resort handler for errors raised outside the route handlers (body parsing, thrown
+// middleware). Clients get a stable message; the details only go to the server log.
+export const handleErrors: ErrorRequestHandler = (error, req, res, next) => {
+  if (res.headersSent) {
+    return next(error)
+  }
+
+  if (error?.type === 'entity.parse.failed') {
+    return res.status(400).json({ message: 'Malformed JSON body.', code: 'MALFORMED_BODY' })
+  }
+
+  if (error?.type === 'entity.too.large') {
+    return res.status(413).json({ message: 'Request body is too large.', code: 'BODY_TOO_LARGE' })
+  }
+
+  console.error(`Unhandled request error (${req.requestId})`, error)
+  return res.status(500).json({ message: 'Server error.', requestId: req.requestId })
+}
@@ -0,0 +1,16 @@
+import crypto from 'node:crypto'
+import type { RequestHandler } from 'express'
+
+export const requestIdHeader = 'X-Request-Id'
+
+// Proxies may already have tagged the request; anything else gets a fresh id.
+const acceptedRequestId = /^[\w.:-]{8,128}$/
+
+// Tags each request with an id echoed in the response, so a client-side error report can be
+// matched with the server log.
+export const assignRequestId: RequestHandler = (req, res, next) => {
+  const incoming = req.get(requestIdHeader)
+  req.requestId = incoming && acceptedRequestId.test(incoming) ? incoming : crypto.randomUUID()
+  res.set(requestIdHeader, req.requestId)
+  next()
+}
@@ -0,0 +1,49 @@
+import type { RequestHandler } from 'express'
+import type { ParamsDictionary } from 'express-serve-static-core'
+import type { ParsedQs } from 'qs'
+import type { z } from 'zod'
+import { toFieldErrors } from '@cyberparc/shared'
+
+interface RequestSchemas {
+  params?: z.ZodTypeAny
+  query?: z.ZodTypeAny
+  body?: z.ZodTypeAny
+}
+
+type Parsed<S, Fallback> = S extends z.ZodTypeAny ? z.output<S> : Fallback
+
+// Parses each part of the request against its shared contract schema; handlers then read the
+// normalized values. Every problem is reported at once as a 422 with one message per field.
+export const validate =
+  <S extends RequestSchemas>(
+    schemas: S
+  ): RequestHandler<Parsed<S['params'], ParamsDictionary>, unknown, Parsed<S['body'], unknown>, Parsed<S['query'], ParsedQs>> =>
+  (req, res, next) => {
+    const fieldErrors: Record<string, string> = {}
+    const parsed: Record<string, unknown> = {}
+
+    for (const part of ['params', 'query', 'body'] as const) {
+      const schema = schemas[part]
+      if (!schema) continue
+
+      const result = schema.safeParse(req[part] ?? {})
+      if (result.success) {
+        parsed[part] = result.data
+      } else {
+        Object.assign(fieldErrors, { ...toFieldErrors(result.error), ...fieldErrors })
+      }
+    }
+
+    const fields = Object.keys(fieldErrors)
+
+    if (fields.length) {
+      return res.status(422).json({
+        message: fieldErrors[fields[0]],
+        code: 'VALIDATION_FAILED',
+        fieldErrors,
+      })
+    }
+
+    Object.assign(req, parsed)
+    return next()
+  }
@@ -0,0 +1,166 @@
+import 'dotenv/config'
+import { readdir } from 'node:fs/promises'
+import path from 'node:path'
+import { fileURLToPath, pathToFileURL } from 'node:url'
+import pg from 'pg'
+
+// Migrations live in ./migrations as NNN_description.ts modules exporting up(db) and down(db).
+// Each one runs in its own transaction and is recorded in "SchemaVersion" once committed.
+
+const migrationsDir = path.join(path.dirname(fileURLToPath(import.meta.url)), 'migrations')
+const migrationFilePattern = /^(\d+)_([\w-]+)\.ts$/
+// Arbitrary key for pg_advisory_lock so two processes never migrate at the same time.
+const migrationLockKey = 724190311
+
+type MigrationStep = (db: pg.PoolClient) => Promise<void>
+
+interface Migration {
+  version: number
+  name: string
+  up: MigrationStep
+  down: MigrationStep
+}
+
+interface AppliedMigration {
+  version: number
+  name: string
+  appliedAt: Date
+}
+
+const loadMigrations = async (): Promise<Migration[]> => {
+  const files = (await readdir(migrationsDir)).filter((file) => migrationFilePattern.test(file))
+  const migrations = await Promise.all(
+    files.map(async (file) => {
+      const [, version, name] = file.match(migrationFilePattern) as RegExpMatchArray
+      const module = await import(pathToFileURL(path.join(migrationsDir, file)).href)
+      return { version: Number(version), name, up: module.up, down: module.down }
+    })
+  )
+  return migrations.sort((a, b) => a.version - b.version)
+}
+
+const ensureSchemaVersionTable = async (db: pg.PoolClient) => {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "SchemaVersion" (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      "appliedAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+}
+
+const getAppliedVersions = async (db: pg.PoolClient) => {
+  const result = await db.query<AppliedMigration>('SELECT version, name, "appliedAt" FROM "SchemaVersion" ORDER BY version ASC')
+  return result.rows
+}
+
+const withMigrationLock = async <T>(pool: pg.Pool, callback: (client: pg.PoolClient) => Promise<T>) => {
+  const client = await pool.connect()
+
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [migrationLockKey])
+    await ensureSchemaVersionTable(client)
+    return await callback(client)
+  } finally {
+    await client.query('SELECT pg_advisory_unlock($1)', [migrationLockKey]).catch(() => {})
+    client.release()
+  }
+}
+
+const runInTransaction = async (client: pg.PoolClient, callback: () => Promise<void>) => {
+  await client.query('BEGIN')
+  try {
+    await callback()
+    await client.query('COMMIT')
+  } catch (error) {
+    await client.query('ROLLBACK')
+    throw error
+  }
+}
+
+// Applies every pending migration in version order and returns the ones that ran.
+export const migrateUp = async (pool: pg.Pool) =>
+  withMigrationLock(pool, async (client) => {
+    const applied = new Set((await getAppliedVersions(client)).map((row) => row.version))
+    const pending = (await loadMigrations()).filter((migration) => !applied.has(migration.version))
+
+    for (const migration of pending) {
+      await runInTransaction(client, async () => {
+        await migration.up(client)
+        await client.query('INSERT INTO "SchemaVersion" (version, name) VALUES ($1, $2)', [
+          migration.version,
+          migration.name,
+        ])
+      })
+      console.log(`Applied migration ${migration.version} ${migration.name}`)
+    }
+
+    return pending
+  })
+
+// Reverts the latest `steps` applied migrations, newest first, and returns the ones that ran.
+export const migrateDown = async (pool: pg.Pool, steps = 1) =>
+  withMigrationLock(pool, async (client) => {
+    const migrations = new Map((await loadMigrations()).map((migration) => [migration.version, migration]))
+    const toRevert = (await getAppliedVersions(client)).reverse().slice(0, steps)
+
+    for (const row of toRevert) {
+      const migration = migrations.get(row.version)
+      if (!migration) {
+        throw new Error(`Migration ${row.version} ${row.name} is applied but its file is missing.`)
+      }
+
+      await runInTransaction(client, async () => {
+        await migration.down(client)
+        await client.query('DELETE FROM "SchemaVersion" WHERE version = $1', [migration.version])
+      })
+      console.log(`Reverted migration ${migration.version} ${migration.name}`)
+    }
+
+    return toRevert
+  })
+
+export const getMigrationStatus = async (pool: pg.Pool) =>
+  withMigrationLock(pool, async (client) => {
+    const applied = new Map((await getAppliedVersions(client)).map((row) => [row.version, row]))
+    return (await loadMigrations()).map((migration) => ({
+      version: migration.version,
+      name: migration.name,
+      appliedAt: applied.get(migration.version)?.appliedAt ?? null,
+    }))
+  })
+
+const runCli = async () => {
+  const [command = 'up', stepsArg] = process.argv.slice(2)
+  const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL })
+
+  try {
+    if (command === 'up') {
+      const applied = await migrateUp(pool)
+      if (!applied.length) console.log('Database schema is up to date.')
+    } else if (command === 'down') {
+      const steps = stepsArg === undefined ? 1 : Number(stepsArg)
+      if (!Number.isInteger(steps) || steps < 1) {
+        throw new Error('down expects a positive number of steps.')
+      }
+      const reverted = await migrateDown(pool, steps)
+      if (!reverted.length) console.log('No migration to revert.')
+    } else if (command === 'status') {
+      for (const migration of await getMigrationStatus(pool)) {
+        const state = migration.appliedAt ? `applied ${new Date(migration.appliedAt).toISOString()}` : 'pending'
+        console.log(`${String(migration.version).padStart(3, '0')} ${migration.name} - ${state}`)
+      }
+    } else {
+      throw new Error(`Unknown command "${command}". Use up, down [steps] or status.`)
+    }
+  } finally {
+    await pool.end()
+  }
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  runCli().catch((error) => {
+    console.error('Migration failed', error)
+    process.exitCode = 1
+  })
+}
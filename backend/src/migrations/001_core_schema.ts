@@ -0,0 +1,148 @@
+import type { Queryable } from '../db'
+import { createSchemaRegistry, quoteIdentifier } from '../schema-registry'
+
+// Canonical schema for the intranet's core tables. Databases created before migrations existed
+// (by Prisma or by hand) are brought in line: missing columns are added, snake_case timestamps are
+// renamed and the Role enum becomes plain text, so handlers never have to probe the schema.
+
+const hasColumn = async (db: Queryable, table: string, column: string) => {
+  const result = await db.query(
+    'SELECT 1 FROM information_schema.columns WHERE table_schema = current_schema() AND table_name = $1 AND column_name = $2',
+    [table, column]
+  )
+  return result.rows.length > 0
+}
+
+const renameLegacyColumn = async (db: Queryable, table: string, legacy: string, column: string) => {
+  if ((await hasColumn(db, table, legacy)) && !(await hasColumn(db, table, column))) {
+    await db.query(`ALTER TABLE "${table}" RENAME COLUMN "${legacy}" TO "${column}"`)
+  }
+}
+
+const dropForeignKeys = async (db: Queryable, table: string, column: string) => {
+  const result = await db.query<{ name: string }>(
+    `SELECT con.conname AS name
+     FROM pg_constraint con
+     JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = ANY(con.conkey)
+     WHERE con.contype = 'f' AND con.conrelid = to_regclass(quote_ident($1)) AND att.attname = $2`,
+    [table, column]
+  )
+  for (const { name } of result.rows) {
+    await db.query(`ALTER TABLE ${quoteIdentifier(table)} DROP CONSTRAINT ${quoteIdentifier(name)}`)
+  }
+}
+
+const addTimestamps = async (db: Queryable, table: string) => {
+  await renameLegacyColumn(db, table, 'created_at', 'createdAt')
+  await renameLegacyColumn(db, table, 'updated_at', 'updatedAt')
+  await db.query(`ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()`)
+  await db.query(`ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "updatedAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()`)
+  await db.query(`ALTER TABLE "${table}" ALTER COLUMN "createdAt" SET DEFAULT NOW()`)
+  await db.query(`ALTER TABLE "${table}" ALTER COLUMN "updatedAt" SET DEFAULT NOW()`)
+}
+
+export const up = async (db: Queryable) => {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "Company" (
+      id SERIAL PRIMARY KEY,
+      name TEXT NOT NULL
+    )`
+  )
+  for (const column of ['industry', 'location', 'website', 'email', 'phone', 'status', 'description']) {
+    await db.query(`ALTER TABLE "Company" ADD COLUMN IF NOT EXISTS ${column} TEXT`)
+  }
+  await addTimestamps(db, 'Company')
+
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "User" (
+      id SERIAL PRIMARY KEY,
+      email TEXT NOT NULL UNIQUE,
+      password TEXT NOT NULL,
+      role TEXT NOT NULL DEFAULT 'company',
+      "companyId" INTEGER REFERENCES "Company"(id)
+    )`
+  )
+  // Roles used to be a Postgres enum whose labels varied in case; store them as lowercase text.
+  await db.query('ALTER TABLE "User" ALTER COLUMN role DROP DEFAULT')
+  await db.query('ALTER TABLE "User" ALTER COLUMN role TYPE TEXT USING LOWER(role::text)')
+  await db.query(`ALTER TABLE "User" ALTER COLUMN role SET DEFAULT 'company'`)
+  await renameLegacyColumn(db, 'User', 'company_id', 'companyId')
+  await renameLegacyColumn(db, 'User', 'last_active', 'lastActive')
+  for (const column of ['name', 'phone', 'avatar', 'status']) {
+    await db.query(`ALTER TABLE "User" ADD COLUMN IF NOT EXISTS ${column} TEXT`)
+  }
+  await db.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "lastActive" TIMESTAMP WITHOUT TIME ZONE')
+  await addTimestamps(db, 'User')
+
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "Post" (
+      id SERIAL PRIMARY KEY,
+      title TEXT NOT NULL,
+      "authorId" INTEGER NOT NULL REFERENCES "Company"(id)
+    )`
+  )
+  await renameLegacyColumn(db, 'Post', 'author_id', 'authorId')
+  await db.query(`ALTER TABLE "Post" ADD COLUMN IF NOT EXISTS content TEXT NOT NULL DEFAULT ''`)
+  await db.query('ALTER TABLE "Post" ADD COLUMN IF NOT EXISTS category TEXT')
+  await db.query('ALTER TABLE "Post" ADD COLUMN IF NOT EXISTS status TEXT')
+  await db.query('ALTER TABLE "Post" ADD COLUMN IF NOT EXISTS views INTEGER NOT NULL DEFAULT 0')
+  await addTimestamps(db, 'Post')
+
+  // Comments are authored by a company. Older schemas referenced it as companyId, or went through
+  // the user: userId, user_id, or an authorId pointing at "User". Comments of users without a
+  // company are left without an author.
+  await renameLegacyColumn(db, 'Comment', 'post_id', 'postId')
+  await renameLegacyColumn(db, 'Comment', 'author_id', 'authorId')
+  await renameLegacyColumn(db, 'Comment', 'company_id', 'authorId')
+  await renameLegacyColumn(db, 'Comment', 'companyId', 'authorId')
+  await renameLegacyColumn(db, 'Comment', 'user_id', 'userId')
+  if ((await hasColumn(db, 'Comment', 'userId')) && !(await hasColumn(db, 'Comment', 'authorId'))) {
+    await db.query('ALTER TABLE "Comment" ADD COLUMN "authorId" INTEGER REFERENCES "Company"(id)')
+    await db.query('UPDATE "Comment" cm SET "authorId" = u."companyId" FROM "User" u WHERE u.id = cm."userId"')
+  }
+  const registry = createSchemaRegistry(db)
+  await registry.refresh()
+  if (registry.getForeignKeyTarget('Comment', 'authorId')?.toLowerCase() === 'user') {
+    await dropForeignKeys(db, 'Comment', 'authorId')
+    await db.query('ALTER TABLE "Comment" ALTER COLUMN "authorId" DROP NOT NULL')
+    await db.query('UPDATE "Comment" cm SET "authorId" = (SELECT u."companyId" FROM "User" u WHERE u.id = cm."authorId")')
+    await db.query('ALTER TABLE "Comment" ADD FOREIGN KEY ("authorId") REFERENCES "Company"(id)')
+  }
+  // The user stays on record where it was, but new comments only name the company.
+  if (await hasColumn(db, 'Comment', 'userId')) {
+    await db.query('ALTER TABLE "Comment" ALTER COLUMN "userId" DROP NOT NULL')
+  }
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "Comment" (
+      id SERIAL PRIMARY KEY,
+      content TEXT NOT NULL,
+      "postId" INTEGER NOT NULL REFERENCES "Post"(id) ON DELETE CASCADE,
+      "authorId" INTEGER NOT NULL REFERENCES "Company"(id)
+    )`
+  )
+  await addTimestamps(db, 'Comment')
+
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "Message" (
+      id SERIAL PRIMARY KEY,
+      "senderCompanyId" INTEGER NOT NULL REFERENCES "Company"(id) ON DELETE CASCADE,
+      "receiverCompanyId" INTEGER NOT NULL REFERENCES "Company"(id) ON DELETE CASCADE,
+      content TEXT NOT NULL,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "UserSettings" (
+      "userId" INTEGER PRIMARY KEY REFERENCES "User"(id) ON DELETE CASCADE,
+      notifications JSONB NOT NULL DEFAULT '{}'::jsonb,
+      "updatedAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+}
+
+// up() adopts core tables that predate the migrations, along with their data, so reverting it could
+// only drop data this migration never created. It is applied once and never reverted.
+export const down = async () => {
+  throw new Error('Migration 001 adopts the core tables and cannot be reverted. Drop them by hand if that is intended.')
+}
@@ -0,0 +1,76 @@
+import type { Queryable } from '../db'
+
+// Tables behind sign-in: one-time tokens, revocable sessions, two-factor secrets and recovery
+// codes, application settings and the login attempts used for throttling.
+
+export const up = async (db: Queryable) => {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "AuthToken" (
+      id SERIAL PRIMARY KEY,
+      "userId" INTEGER NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+      purpose TEXT NOT NULL,
+      "tokenHash" TEXT NOT NULL UNIQUE,
+      "expiresAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL,
+      "usedAt" TIMESTAMP WITHOUT TIME ZONE,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "Session" (
+      id TEXT PRIMARY KEY,
+      "userId" INTEGER NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+      "userAgent" TEXT,
+      "ipAddress" TEXT,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW(),
+      "lastSeenAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW(),
+      "expiresAt" TIMESTAMP WITHOUT TIME ZONE NOT NULL,
+      "revokedAt" TIMESTAMP WITHOUT TIME ZONE
+    )`
+  )
+
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "TwoFactor" (
+      "userId" INTEGER PRIMARY KEY REFERENCES "User"(id) ON DELETE CASCADE,
+      secret TEXT NOT NULL,
+      "enabledAt" TIMESTAMP WITHOUT TIME ZONE,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "RecoveryCode" (
+      id SERIAL PRIMARY KEY,
+      "userId" INTEGER NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+      "codeHash" TEXT NOT NULL,
+      "usedAt" TIMESTAMP WITHOUT TIME ZONE,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "AppSetting" (
+      key TEXT PRIMARY KEY,
+      value JSONB NOT NULL,
+      "updatedAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "LoginAttempt" (
+      id SERIAL PRIMARY KEY,
+      email TEXT NOT NULL,
+      "ipAddress" TEXT,
+      success BOOLEAN NOT NULL,
+      reason TEXT,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+  await db.query('CREATE INDEX IF NOT EXISTS "LoginAttempt_email_createdAt_idx" ON "LoginAttempt" (email, "createdAt")')
+  await db.query(
+    'CREATE INDEX IF NOT EXISTS "LoginAttempt_ipAddress_createdAt_idx" ON "LoginAttempt" ("ipAddress", "createdAt")'
+  )
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('DROP TABLE IF EXISTS "LoginAttempt", "AppSetting", "RecoveryCode", "TwoFactor", "Session", "AuthToken"')
+}
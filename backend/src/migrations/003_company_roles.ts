@@ -0,0 +1,20 @@
+import type { Queryable } from '../db'
+
+// Company users carry an owner/manager/member role; the first account of each existing company
+// becomes its owner so every company keeps someone able to manage the team.
+
+export const up = async (db: Queryable) => {
+  await db.query('ALTER TABLE "User" ADD COLUMN IF NOT EXISTS "companyRole" TEXT')
+  await db.query(
+    `UPDATE "User" u
+     SET "companyRole" = CASE
+       WHEN u.id = (SELECT MIN(other.id) FROM "User" other WHERE other."companyId" = u."companyId") THEN 'owner'
+       ELSE 'member'
+     END
+     WHERE u."companyRole" IS NULL AND u."companyId" IS NOT NULL`
+  )
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('ALTER TABLE "User" DROP COLUMN IF EXISTS "companyRole"')
+}
@@ -0,0 +1,17 @@
+import type { Queryable } from '../db'
+
+// Seed the company that hosts the platform's admin accounts.
+
+export const up = async (db: Queryable) => {
+  await db.query(
+    `INSERT INTO "Company" (name)
+     SELECT 'Admin' WHERE NOT EXISTS (SELECT 1 FROM "Company" WHERE LOWER(name) = 'admin')`
+  )
+}
+
+export const down = async (db: Queryable) => {
+  await db.query(
+    `DELETE FROM "Company" c
+     WHERE LOWER(c.name) = 'admin' AND NOT EXISTS (SELECT 1 FROM "User" u WHERE u."companyId" = c.id)`
+  )
+}
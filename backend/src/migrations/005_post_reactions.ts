@@ -0,0 +1,21 @@
+import type { Queryable } from '../db'
+
+// Reactions left on forum posts, one row per user and reaction type; a like is the 'like' type.
+// The company the user acted for is kept alongside so reactions can be attributed to it.
+
+export const up = async (db: Queryable) => {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "PostReaction" (
+      "postId" INTEGER NOT NULL REFERENCES "Post"(id) ON DELETE CASCADE,
+      "userId" INTEGER NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+      "companyId" INTEGER REFERENCES "Company"(id) ON DELETE SET NULL,
+      type TEXT NOT NULL DEFAULT 'like',
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW(),
+      PRIMARY KEY ("postId", "userId", type)
+    )`
+  )
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('DROP TABLE IF EXISTS "PostReaction"')
+}
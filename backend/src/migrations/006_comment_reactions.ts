@@ -0,0 +1,20 @@
+import type { Queryable } from '../db'
+
+// Comments take the same reactions as posts, stored the same way as "PostReaction".
+
+export const up = async (db: Queryable) => {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "CommentReaction" (
+      "commentId" INTEGER NOT NULL REFERENCES "Comment"(id) ON DELETE CASCADE,
+      "userId" INTEGER NOT NULL REFERENCES "User"(id) ON DELETE CASCADE,
+      "companyId" INTEGER REFERENCES "Company"(id) ON DELETE SET NULL,
+      type TEXT NOT NULL DEFAULT 'like',
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW(),
+      PRIMARY KEY ("commentId", "userId", type)
+    )`
+  )
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('DROP TABLE IF EXISTS "CommentReaction"')
+}
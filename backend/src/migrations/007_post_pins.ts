@@ -0,0 +1,16 @@
+import type { Queryable } from '../db'
+
+// Admins pin posts to the top of the forum, optionally until a given instant, and flag official
+// announcements. The expiry is compared with NOW(), so it keeps its time zone.
+
+export const up = async (db: Queryable) => {
+  await db.query('ALTER TABLE "Post" ADD COLUMN IF NOT EXISTS "isPinned" BOOLEAN NOT NULL DEFAULT false')
+  await db.query('ALTER TABLE "Post" ADD COLUMN IF NOT EXISTS "pinnedUntil" TIMESTAMP WITH TIME ZONE')
+  await db.query('ALTER TABLE "Post" ADD COLUMN IF NOT EXISTS "isAnnouncement" BOOLEAN NOT NULL DEFAULT false')
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('ALTER TABLE "Post" DROP COLUMN IF EXISTS "isAnnouncement"')
+  await db.query('ALTER TABLE "Post" DROP COLUMN IF EXISTS "pinnedUntil"')
+  await db.query('ALTER TABLE "Post" DROP COLUMN IF EXISTS "isPinned"')
+}
@@ -0,0 +1,36 @@
+import type { Queryable } from '../db'
+
+// Editing a post or comment keeps the version it replaces, so admins can review the history, and
+// stamps "editedAt" so readers see the edit. Pinning is not an edit and leaves both untouched.
+
+export const up = async (db: Queryable) => {
+  await db.query('ALTER TABLE "Post" ADD COLUMN IF NOT EXISTS "editedAt" TIMESTAMP WITHOUT TIME ZONE')
+  await db.query('ALTER TABLE "Comment" ADD COLUMN IF NOT EXISTS "editedAt" TIMESTAMP WITHOUT TIME ZONE')
+
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "PostRevision" (
+      id SERIAL PRIMARY KEY,
+      "postId" INTEGER NOT NULL REFERENCES "Post"(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      content TEXT NOT NULL,
+      category TEXT,
+      "editedById" INTEGER REFERENCES "Company"(id) ON DELETE SET NULL,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "CommentRevision" (
+      id SERIAL PRIMARY KEY,
+      "commentId" INTEGER NOT NULL REFERENCES "Comment"(id) ON DELETE CASCADE,
+      content TEXT NOT NULL,
+      "editedById" INTEGER REFERENCES "Company"(id) ON DELETE SET NULL,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('DROP TABLE IF EXISTS "CommentRevision", "PostRevision"')
+  await db.query('ALTER TABLE "Comment" DROP COLUMN IF EXISTS "editedAt"')
+  await db.query('ALTER TABLE "Post" DROP COLUMN IF EXISTS "editedAt"')
+}
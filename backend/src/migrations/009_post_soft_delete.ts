@@ -0,0 +1,16 @@
+import type { Queryable } from '../db'
+
+// Deleting a post only stamps "deletedAt", so admins can restore it from the trash or purge it for
+// good. "deletedById" records the company that deleted it.
+
+export const up = async (db: Queryable) => {
+  await db.query('ALTER TABLE "Post" ADD COLUMN IF NOT EXISTS "deletedAt" TIMESTAMP WITHOUT TIME ZONE')
+  await db.query(
+    'ALTER TABLE "Post" ADD COLUMN IF NOT EXISTS "deletedById" INTEGER REFERENCES "Company"(id) ON DELETE SET NULL'
+  )
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('ALTER TABLE "Post" DROP COLUMN IF EXISTS "deletedById"')
+  await db.query('ALTER TABLE "Post" DROP COLUMN IF EXISTS "deletedAt"')
+}
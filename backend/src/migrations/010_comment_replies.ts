@@ -0,0 +1,14 @@
+import type { Queryable } from '../db'
+
+// A comment may answer another comment of the same post. Deleting a comment keeps its replies,
+// which move up to the top level of the thread.
+
+export const up = async (db: Queryable) => {
+  await db.query(
+    'ALTER TABLE "Comment" ADD COLUMN IF NOT EXISTS "parentId" INTEGER REFERENCES "Comment"(id) ON DELETE SET NULL'
+  )
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('ALTER TABLE "Comment" DROP COLUMN IF EXISTS "parentId"')
+}
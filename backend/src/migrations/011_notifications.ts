@@ -0,0 +1,26 @@
+import type { Queryable } from '../db'
+
+// In-app notifications, addressed to a company and shared by its users. "actorCompanyId" is the
+// company whose action triggered it; the post and comment it points to take it along when deleted.
+
+export const up = async (db: Queryable) => {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "Notification" (
+      id SERIAL PRIMARY KEY,
+      "companyId" INTEGER NOT NULL REFERENCES "Company"(id) ON DELETE CASCADE,
+      type TEXT NOT NULL,
+      "actorCompanyId" INTEGER REFERENCES "Company"(id) ON DELETE SET NULL,
+      "postId" INTEGER REFERENCES "Post"(id) ON DELETE CASCADE,
+      "commentId" INTEGER REFERENCES "Comment"(id) ON DELETE CASCADE,
+      "readAt" TIMESTAMP WITHOUT TIME ZONE,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+  await db.query(
+    'CREATE INDEX IF NOT EXISTS "Notification_companyId_createdAt_idx" ON "Notification" ("companyId", "createdAt" DESC)'
+  )
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('DROP TABLE IF EXISTS "Notification"')
+}
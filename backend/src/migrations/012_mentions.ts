@@ -0,0 +1,25 @@
+import type { Queryable } from '../db'
+
+// Companies mentioned as "@Name" in a post, comment or message, resolved when the text is written.
+// Each row points at exactly one of them and goes away with it.
+
+export const up = async (db: Queryable) => {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "Mention" (
+      id SERIAL PRIMARY KEY,
+      "companyId" INTEGER NOT NULL REFERENCES "Company"(id) ON DELETE CASCADE,
+      "postId" INTEGER REFERENCES "Post"(id) ON DELETE CASCADE,
+      "commentId" INTEGER REFERENCES "Comment"(id) ON DELETE CASCADE,
+      "messageId" INTEGER REFERENCES "Message"(id) ON DELETE CASCADE,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW(),
+      CHECK (num_nonnulls("postId", "commentId", "messageId") = 1)
+    )`
+  )
+  await db.query('CREATE INDEX IF NOT EXISTS "Mention_postId_idx" ON "Mention" ("postId")')
+  await db.query('CREATE INDEX IF NOT EXISTS "Mention_commentId_idx" ON "Mention" ("commentId")')
+  await db.query('CREATE INDEX IF NOT EXISTS "Mention_messageId_idx" ON "Mention" ("messageId")')
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('DROP TABLE IF EXISTS "Mention"')
+}
@@ -0,0 +1,25 @@
+import type { Queryable } from '../db'
+
+// Password reset requests, kept to throttle them per email and per IP. Requests for unknown emails
+// are recorded too, so the throttle behaves the same whether or not an account exists.
+
+export const up = async (db: Queryable) => {
+  await db.query(
+    `CREATE TABLE IF NOT EXISTS "PasswordResetRequest" (
+      id SERIAL PRIMARY KEY,
+      email TEXT NOT NULL,
+      "ipAddress" TEXT,
+      "createdAt" TIMESTAMP WITHOUT TIME ZONE DEFAULT NOW()
+    )`
+  )
+  await db.query(
+    'CREATE INDEX IF NOT EXISTS "PasswordResetRequest_email_createdAt_idx" ON "PasswordResetRequest" (email, "createdAt")'
+  )
+  await db.query(
+    'CREATE INDEX IF NOT EXISTS "PasswordResetRequest_ipAddress_createdAt_idx" ON "PasswordResetRequest" ("ipAddress", "createdAt")'
+  )
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('DROP TABLE IF EXISTS "PasswordResetRequest"')
+}
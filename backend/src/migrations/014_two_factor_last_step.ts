@@ -0,0 +1,12 @@
+import type { Queryable } from '../db'
+
+// The time step of the last TOTP code each user got accepted. Codes from that step or an earlier
+// one are refused, so a code seen over someone's shoulder cannot be used again within its window.
+
+export const up = async (db: Queryable) => {
+  await db.query('ALTER TABLE "TwoFactor" ADD COLUMN IF NOT EXISTS "lastUsedStep" BIGINT')
+}
+
+export const down = async (db: Queryable) => {
+  await db.query('ALTER TABLE "TwoFactor" DROP COLUMN IF EXISTS "lastUsedStep"')
+}
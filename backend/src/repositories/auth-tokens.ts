@@ -0,0 +1,40 @@
+import type { Queryable } from '../db'
+
+export interface AuthTokenRecord {
+  id: number
+  userId: number
+  purpose: string
+  email: string
+}
+
+export const insertAuthToken = async (
+  db: Queryable,
+  token: { userId: number; purpose: string; tokenHash: string; ttlMs: number }
+) => {
+  // A new link supersedes the previous ones for the same purpose.
+  await db.query(
+    'UPDATE "AuthToken" SET "usedAt" = NOW() WHERE "userId" = $1 AND purpose = $2 AND "usedAt" IS NULL',
+    [token.userId, token.purpose]
+  )
+  // "expiresAt" has no time zone, so it is computed from NOW() like the value it is compared with.
+  await db.query(
+    `INSERT INTO "AuthToken" ("userId", purpose, "tokenHash", "expiresAt")
+     VALUES ($1, $2, $3, NOW() + $4 * INTERVAL '1 millisecond')`,
+    [token.userId, token.purpose, token.tokenHash, token.ttlMs]
+  )
+}
+
+export const findValidAuthToken = async (db: Queryable, tokenHash: string, purpose: string) => {
+  const result = await db.query<AuthTokenRecord>(
+    `SELECT t.id, t."userId", t.purpose, u.email
+     FROM "AuthToken" t
+     JOIN "User" u ON u.id = t."userId"
+     WHERE t."tokenHash" = $1 AND t.purpose = $2 AND t."usedAt" IS NULL AND t."expiresAt" > NOW()
+     LIMIT 1`,
+    [tokenHash, purpose]
+  )
+  return result.rows[0] ?? null
+}
+
+export const markUserAuthTokensUsed = (db: Queryable, userId: number) =>
+  db.query('UPDATE "AuthToken" SET "usedAt" = NOW() WHERE "userId" = $1 AND "usedAt" IS NULL', [userId])
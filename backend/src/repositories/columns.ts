@@ -0,0 +1,49 @@
+import { quoteIdentifier } from '../schema-registry'
+import { schema, type Queryable } from '../db'
+
+type Table = 'User' | 'Company' | 'Post'
+
+// The fields that exist on this database's table, as [column, value] pairs.
+export const presentColumns = (table: Table, fields: Record<string, unknown>) =>
+  Object.entries(fields).filter(([column]) => schema.hasColumn(table, column))
+
+// Only submitted fields that exist on this database's table are written; empty strings are stored as NULL.
+export const pickColumns = (table: Table, fields: Record<string, unknown>) =>
+  presentColumns(table, fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([column, value]) => [column, value === '' ? null : value] as const)
+
+// Inserts a row with the given columns and returns it; `returning` refers to the new row as `alias`.
+export const insertColumns = async <T extends object>(
+  db: Queryable,
+  table: Table,
+  alias: string,
+  columns: ReadonlyArray<readonly [string, unknown]>,
+  returning: string
+) => {
+  const result = await db.query<T>(
+    `INSERT INTO ${quoteIdentifier(table)} AS ${alias} (${columns.map(([column]) => quoteIdentifier(column)).join(', ')})
+     VALUES (${columns.map((_column, index) => `$${index + 1}`).join(', ')})
+     RETURNING ${returning}`,
+    columns.map(([, value]) => value)
+  )
+  return result.rows[0]
+}
+
+// Updates the picked columns (and updatedAt when present) and returns the row, or null when `id` is unknown.
+export const updateColumns = async <T extends object>(
+  db: Queryable,
+  table: Table,
+  id: number,
+  columns: ReadonlyArray<readonly [string, unknown]>,
+  returning: string
+) => {
+  const setFragments = columns.map(([column], index) => `${quoteIdentifier(column)} = $${index + 1}`)
+  if (schema.hasColumn(table, 'updatedAt')) setFragments.push('"updatedAt" = NOW()')
+
+  const result = await db.query<T>(
+    `UPDATE ${quoteIdentifier(table)} SET ${setFragments.join(', ')} WHERE id = $${columns.length + 1} RETURNING ${returning}`,
+    [...columns.map(([, value]) => value), id]
+  )
+  return result.rows[0] ?? null
+}
@@ -0,0 +1,89 @@
+import type { ForumComment } from '@cyberparc/shared'
+import type { Queryable } from '../db'
+import type { Row } from '../types'
+import { mentionsColumn } from './mentions'
+import { reactionsColumn } from './reactions'
+
+export interface RecentComment {
+  id: number
+  content: string
+  createdAt: Date
+  company: string
+  postTitle: string
+}
+
+// Comments as the forum shows them, for the user bound to $1.
+const selectComments = (where: string) =>
+  `SELECT cm.id, cm.content, cm."createdAt", cm."editedAt", cm."parentId", c.name AS company, c.id AS "companyId",
+      ${mentionsColumn('comment', 'cm.id')}, ${reactionsColumn('comment', 'cm.id', '$1')}
+    FROM "Comment" cm
+    LEFT JOIN "Company" c ON c.id = cm."authorId"
+    ${where}`
+
+export const listComments = async (db: Queryable, postId: number, userId: number) => {
+  const result = await db.query<Row<ForumComment>>(
+    `${selectComments('WHERE cm."postId" = $2')}
+    ORDER BY cm."createdAt" ASC`,
+    [userId, postId]
+  )
+  return result.rows
+}
+
+export const findForumComment = async (db: Queryable, commentId: number, userId: number) => {
+  const result = await db.query<Row<ForumComment>>(selectComments('WHERE cm.id = $2'), [userId, commentId])
+  return result.rows[0] ?? null
+}
+
+// Locks the comment for the rest of the transaction, so concurrent edits are recorded one after the other.
+export const findCommentForUpdate = async (db: Queryable, commentId: number) => {
+  const result = await db.query<{ authorId: number; postId: number; content: string }>(
+    `SELECT "authorId", "postId", content FROM "Comment"
+    WHERE id = $1 AND "postId" IN (SELECT id FROM "Post" WHERE "deletedAt" IS NULL)
+    FOR UPDATE`,
+    [commentId]
+  )
+  return result.rows[0] ?? null
+}
+
+export const updateCommentContent = async (db: Queryable, commentId: number, content: string) => {
+  await db.query('UPDATE "Comment" SET content = $2, "editedAt" = NOW() WHERE id = $1', [commentId, content])
+}
+
+export const deleteComment = async (db: Queryable, commentId: number) => {
+  await db.query('DELETE FROM "Comment" WHERE id = $1', [commentId])
+}
+
+export const listRecentComments = async (db: Queryable, limit: number) => {
+  const result = await db.query<RecentComment>(
+    `SELECT cm.id, cm.content, cm."createdAt", co.name AS company, p.title AS "postTitle"
+    FROM "Comment" cm
+    JOIN "Company" co ON co.id = cm."authorId"
+    JOIN "Post" p ON p.id = cm."postId"
+    WHERE p."deletedAt" IS NULL
+    ORDER BY cm."createdAt" DESC
+    LIMIT $1`,
+    [limit]
+  )
+  return result.rows
+}
+
+export const insertComment = async (
+  db: Queryable,
+  comment: { content: string; companyId: number; postId: number; parentId: number | null }
+) => {
+  const result = await db.query<Row<Pick<ForumComment, 'id' | 'content' | 'createdAt' | 'parentId'>>>(
+    `INSERT INTO "Comment" (content, "authorId", "postId", "parentId") VALUES ($1, $2, $3, $4)
+    RETURNING id, content, "createdAt", "parentId"`,
+    [comment.content, comment.companyId, comment.postId, comment.parentId]
+  )
+  return result.rows[0]
+}
+
+// Post and author of the comment being replied to, or null when it does not exist.
+export const findReplyTarget = async (db: Queryable, commentId: number) => {
+  const result = await db.query<{ postId: number; authorId: number }>(
+    'SELECT "postId", "authorId" FROM "Comment" WHERE id = $1',
+    [commentId]
+  )
+  return result.rows[0] ?? null
+}
@@ -0,0 +1,72 @@
+import type { AdminCompany, Company, CompanyFields, DirectoryCompany } from '@cyberparc/shared'
+import { schema, type Queryable } from '../db'
+import { insertColumns, pickColumns } from './columns'
+
+const companyProfileColumns = ['industry', 'location', 'website', 'email', 'phone', 'status', 'description']
+
+// Optional Company columns, read as NULL on databases that predate them.
+const companySelectColumns = () =>
+  companyProfileColumns.map((column) => schema.selectColumn('c', 'Company', column)).join(', ')
+
+export const listDirectoryCompanies = async (db: Queryable) => {
+  const result = await db.query<DirectoryCompany>(
+    `SELECT c.id, c.name, ${companySelectColumns()},
+      COUNT(u.id)::int AS employees
+    FROM "Company" c
+    LEFT JOIN "User" u ON u."companyId" = c.id
+    GROUP BY c.id
+    ORDER BY c.name ASC`
+  )
+  return result.rows
+}
+
+export const listAdminCompanies = async (db: Queryable) => {
+  const result = await db.query<AdminCompany>(
+    `SELECT c.id, c.name, ${companySelectColumns()},
+      COUNT(u.id)::int AS employees,
+      MIN(u.email) AS admin
+    FROM "Company" c
+    LEFT JOIN "User" u ON u."companyId" = c.id
+    GROUP BY c.id
+    ORDER BY c.name ASC`
+  )
+  return result.rows
+}
+
+export const findCompanyName = async (db: Queryable, companyId: number) => {
+  const result = await db.query<{ id: number; name: string }>('SELECT id, name FROM "Company" WHERE id = $1 LIMIT 1', [
+    companyId,
+  ])
+  return result.rows[0]?.name ?? null
+}
+
+export const findCompany = async (db: Queryable, companyId: number) => {
+  const result = await db.query<Company>(
+    `SELECT c.id, c.name, ${companySelectColumns()}
+     FROM "Company" c
+     WHERE c.id = $1
+     LIMIT 1`,
+    [companyId]
+  )
+  return result.rows[0] ?? null
+}
+
+export const insertCompany = (db: Queryable, fields: CompanyFields) => {
+  const { name, industry, location, website, email, phone, status, description } = fields
+  const columns = pickColumns('Company', { name, industry, location, website, email, phone, status, description })
+  return insertColumns<Company>(db, 'Company', 'c', columns, `c.id, c.name, ${companySelectColumns()}`)
+}
+
+// Removes the company with its accounts, posts, comments and messages; run it inside a transaction.
+export const deleteCompanyCascade = async (db: Queryable, companyId: number) => {
+  await db.query('DELETE FROM "Message" WHERE "senderCompanyId" = $1 OR "receiverCompanyId" = $1', [companyId])
+  await db.query(
+    'DELETE FROM "Comment" WHERE "authorId" = $1 OR "postId" IN (SELECT id FROM "Post" WHERE "authorId" = $1)',
+    [companyId]
+  )
+  await db.query('DELETE FROM "Post" WHERE "authorId" = $1', [companyId])
+  await db.query('DELETE FROM "User" WHERE "companyId" = $1', [companyId])
+
+  const result = await db.query('DELETE FROM "Company" WHERE id = $1 RETURNING id', [companyId])
+  return result.rows.length > 0
+}
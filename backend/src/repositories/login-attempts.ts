@@ -0,0 +1,64 @@
+import type { LoginAttempt } from '@cyberparc/shared'
+import { quoteIdentifier } from '../schema-registry'
+import type { Queryable } from '../db'
+import type { Row } from '../types'
+
+export interface FailureStats {
+  failures: number
+  secondsSinceLast: number | null
+}
+
+export const insertLoginAttempt = (
+  db: Queryable,
+  attempt: { email: string; ipAddress: string | null; success: boolean; reason: string | null }
+) =>
+  db.query('INSERT INTO "LoginAttempt" (email, "ipAddress", success, reason) VALUES ($1, $2, $3, $4)', [
+    attempt.email,
+    attempt.ipAddress,
+    attempt.success,
+    attempt.reason,
+  ])
+
+// Failures for this email or IP within the window. An account's count also restarts at its last
+// successful login; an IP's does not, or one valid account would reset the count for every email
+// tried from the same address.
+export const countRecentFailures = async (
+  db: Queryable,
+  column: 'email' | 'ipAddress',
+  value: string,
+  windowMs: number
+) => {
+  const sinceLastSuccess =
+    column === 'email'
+      ? `AND "createdAt" > COALESCE(
+           (SELECT MAX("createdAt") FROM "LoginAttempt" WHERE email = $1 AND success = true),
+           'epoch'::timestamp
+         )`
+      : ''
+
+  // Attempts rejected because of a lockout are recorded for review but never extend the lockout.
+  const result = await db.query<FailureStats>(
+    `SELECT COUNT(*)::int AS failures,
+            EXTRACT(EPOCH FROM NOW() - MAX("createdAt"))::float AS "secondsSinceLast"
+     FROM "LoginAttempt"
+     WHERE ${quoteIdentifier(column)} = $1
+       AND success = false
+       AND reason IS DISTINCT FROM 'locked'
+       AND "createdAt" > NOW() - ($2::int * INTERVAL '1 millisecond')
+       ${sinceLastSuccess}`,
+    [value, windowMs]
+  )
+  return result.rows[0]
+}
+
+export const listLoginAttempts = async (db: Queryable, { limit, failedOnly }: { limit: number; failedOnly: boolean }) => {
+  const result = await db.query<Row<LoginAttempt>>(
+    `SELECT id, email, "ipAddress", success, reason, "createdAt"
+     FROM "LoginAttempt"
+     ${failedOnly ? 'WHERE success = false' : ''}
+     ORDER BY "createdAt" DESC
+     LIMIT $1`,
+    [limit]
+  )
+  return result.rows
+}
@@ -0,0 +1,47 @@
+import { findMentions, type Mention } from '@cyberparc/shared'
+import type { Queryable } from '../db'
+
+const mentionKeys = {
+  post: '"postId"',
+  comment: '"commentId"',
+  message: '"messageId"',
+}
+
+export type MentionTarget = keyof typeof mentionKeys
+
+// Select expression listing the companies mentioned in `idExpression`, as a JSON array named "mentions".
+export const mentionsColumn = (target: MentionTarget, idExpression: string) =>
+  `COALESCE((
+      SELECT json_agg(json_build_object('id', mc.id, 'name', mc.name) ORDER BY mc.name)
+      FROM "Mention" mn
+      JOIN "Company" mc ON mc.id = mn."companyId"
+      WHERE mn.${mentionKeys[target]} = ${idExpression}
+    ), '[]'::json) AS mentions`
+
+// Every company an author may mention.
+export const listMentionableCompanies = async (db: Queryable) => {
+  const result = await db.query<Mention>('SELECT id, name FROM "Company"')
+  return result.rows
+}
+
+// Makes `companyIds` the mentions of the target and returns those that were not mentioned before.
+export const replaceMentions = async (db: Queryable, target: MentionTarget, id: number, companyIds: number[]) => {
+  const key = mentionKeys[target]
+  await db.query(`DELETE FROM "Mention" WHERE ${key} = $1 AND NOT ("companyId" = ANY($2::int[]))`, [id, companyIds])
+  const result = await db.query<{ companyId: number }>(
+    `INSERT INTO "Mention" ("companyId", ${key})
+    SELECT mentioned, $1 FROM unnest($2::int[]) AS mentioned
+    WHERE NOT EXISTS (SELECT 1 FROM "Mention" WHERE ${key} = $1 AND "companyId" = mentioned)
+    RETURNING "companyId"`,
+    [id, companyIds]
+  )
+  return result.rows.map((row) => row.companyId)
+}
+
+// Resolves the mentions of `content` and stores them on the target. Returns the mentioned companies
+// and the ids of those mentioned for the first time.
+export const saveMentions = async (db: Queryable, target: MentionTarget, id: number, content: string) => {
+  const mentions = findMentions(content, await listMentionableCompanies(db))
+  const added = await replaceMentions(db, target, id, mentions.map((company) => company.id))
+  return { mentions, added }
+}
@@ -0,0 +1,33 @@
+import type { ConversationMessage, Message } from '@cyberparc/shared'
+import type { Queryable } from '../db'
+import type { Row } from '../types'
+import { mentionsColumn } from './mentions'
+
+// Every message the company sent or received, oldest first.
+export const listCompanyMessages = async (db: Queryable, companyId: number) => {
+  const result = await db.query<Row<ConversationMessage>>(
+    `SELECT m.id, m.content, ${mentionsColumn('message', 'm.id')}, m."createdAt",
+      m."senderCompanyId", m."receiverCompanyId",
+      cs.name AS "senderName", cr.name AS "receiverName"
+    FROM "Message" m
+    JOIN "Company" cs ON cs.id = m."senderCompanyId"
+    JOIN "Company" cr ON cr.id = m."receiverCompanyId"
+    WHERE m."senderCompanyId" = $1 OR m."receiverCompanyId" = $1
+    ORDER BY m."createdAt" ASC`,
+    [companyId]
+  )
+  return result.rows
+}
+
+export const insertMessage = async (
+  db: Queryable,
+  message: { senderCompanyId: number; receiverCompanyId: number; content: string }
+) => {
+  const result = await db.query<Row<Omit<Message, 'mentions'>>>(
+    `INSERT INTO "Message" ("senderCompanyId", "receiverCompanyId", content)
+    VALUES ($1, $2, $3)
+    RETURNING id, content, "createdAt", "senderCompanyId", "receiverCompanyId"`,
+    [message.senderCompanyId, message.receiverCompanyId, message.content]
+  )
+  return result.rows[0]
+}
@@ -0,0 +1,39 @@
+import type { InboxNotification, NotificationType } from '@cyberparc/shared'
+import type { Queryable } from '../db'
+import type { Row } from '../types'
+
+export const insertNotification = async (
+  db: Queryable,
+  notification: {
+    companyId: number
+    type: NotificationType
+    actorCompanyId: number | null
+    postId: number | null
+    commentId: number | null
+  }
+) => {
+  await db.query(
+    `INSERT INTO "Notification" ("companyId", type, "actorCompanyId", "postId", "commentId")
+     VALUES ($1, $2, $3, $4, $5)`,
+    [notification.companyId, notification.type, notification.actorCompanyId, notification.postId, notification.commentId]
+  )
+}
+
+// Newest first; notifications about posts in the trash are left out.
+export const listNotifications = async (db: Queryable, companyId: number, limit: number) => {
+  const result = await db.query<Row<InboxNotification>>(
+    `SELECT n.id, n.type, a.name AS actor, n."actorCompanyId" AS "actorId", n."postId", p.title AS "postTitle", n."commentId", n."createdAt", n."readAt"
+    FROM "Notification" n
+    LEFT JOIN "Company" a ON a.id = n."actorCompanyId"
+    LEFT JOIN "Post" p ON p.id = n."postId"
+    WHERE n."companyId" = $1 AND p."deletedAt" IS NULL
+    ORDER BY n."createdAt" DESC, n.id DESC
+    LIMIT $2`,
+    [companyId, limit]
+  )
+  return result.rows
+}
+
+export const markNotificationsRead = async (db: Queryable, companyId: number) => {
+  await db.query('UPDATE "Notification" SET "readAt" = NOW() WHERE "companyId" = $1 AND "readAt" IS NULL', [companyId])
+}
@@ -0,0 +1,25 @@
+import { quoteIdentifier } from '../schema-registry'
+import type { Queryable } from '../db'
+
+export const insertPasswordResetRequest = (db: Queryable, request: { email: string; ipAddress: string | null }) =>
+  db.query('INSERT INTO "PasswordResetRequest" (email, "ipAddress") VALUES ($1, $2)', [
+    request.email,
+    request.ipAddress,
+  ])
+
+// Requests for this email or IP within the window.
+export const countRecentPasswordResetRequests = async (
+  db: Queryable,
+  column: 'email' | 'ipAddress',
+  value: string,
+  windowMs: number
+) => {
+  const result = await db.query<{ requests: number }>(
+    `SELECT COUNT(*)::int AS requests
+     FROM "PasswordResetRequest"
+     WHERE ${quoteIdentifier(column)} = $1
+       AND "createdAt" > NOW() - ($2::int * INTERVAL '1 millisecond')`,
+    [value, windowMs]
+  )
+  return result.rows[0].requests
+}
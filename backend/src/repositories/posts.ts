@@ -0,0 +1,154 @@
+import type { AdminPost, DeletedPost, ForumPost, RecentPost } from '@cyberparc/shared'
+import { schema, type Queryable } from '../db'
+import type { Row } from '../types'
+import { insertColumns, presentColumns } from './columns'
+import { mentionsColumn } from './mentions'
+import { likeReaction, reactionsColumn } from './reactions'
+
+// Like count of post p and whether the user bound to $1 is among them.
+const likeColumns = `(SELECT COUNT(*)::int FROM "PostReaction" r WHERE r."postId" = p.id AND r.type = '${likeReaction}') AS likes,
+      EXISTS (SELECT 1 FROM "PostReaction" r WHERE r."postId" = p.id AND r.type = '${likeReaction}' AND r."userId" = $1) AS liked`
+
+// A pin stops counting once pinnedUntil has passed.
+const isPinned = `(p."isPinned" AND (p."pinnedUntil" IS NULL OR p."pinnedUntil" > NOW()))`
+
+const pinColumns = `${isPinned} AS "isPinned", p."isAnnouncement"`
+
+// Posts written before content had its own column read their title as content.
+const contentColumn = () => schema.selectColumn('p', 'Post', 'content', { fallback: 'p.title' })
+
+// Soft-deleted posts only show up in the admin trash.
+const notDeleted = 'p."deletedAt" IS NULL'
+
+// Forum posts as the feed shows them, for the user bound to $1; `filter` may use $2 onwards.
+const selectForumPosts = (filter = '') =>
+  `SELECT p.id, p.title, ${contentColumn()},
+      ${mentionsColumn('post', 'p.id')}, ${schema.selectColumn('p', 'Post', 'category')}, p."createdAt",
+      c.name AS company, c.id AS "companyId",
+      COUNT(cm.id)::int AS comments, ${likeColumns},
+      ${reactionsColumn('post', 'p.id', '$1')},
+      ${pinColumns}, CASE WHEN ${isPinned} THEN p."pinnedUntil" END AS "pinnedUntil", p."editedAt"
+    FROM "Post" p
+    JOIN "Company" c ON c.id = p."authorId"
+    LEFT JOIN "Comment" cm ON cm."postId" = p.id
+    WHERE ${notDeleted} ${filter}
+    GROUP BY p.id, c.id`
+
+export const listForumPosts = async (db: Queryable, userId: number) => {
+  const result = await db.query<Row<ForumPost>>(
+    `${selectForumPosts()}
+    ORDER BY ${isPinned} DESC, p."createdAt" DESC
+    LIMIT 100`,
+    [userId]
+  )
+  return result.rows
+}
+
+export const findForumPost = async (db: Queryable, postId: number, userId: number) => {
+  const result = await db.query<Row<ForumPost>>(selectForumPosts('AND p.id = $2'), [userId, postId])
+  return result.rows[0] ?? null
+}
+
+export const listAdminPosts = async (db: Queryable) => {
+  const result = await db.query<Row<AdminPost>>(
+    `SELECT p.id, p.title, p."createdAt", ${schema.selectColumn('p', 'Post', 'category')},
+      ${schema.selectColumn('p', 'Post', 'status')}, ${schema.selectColumn('p', 'Post', 'views', { fallback: '0' })},
+      c.name AS company, COUNT(cm.id)::int AS comments
+    FROM "Post" p
+    JOIN "Company" c ON c.id = p."authorId"
+    LEFT JOIN "Comment" cm ON cm."postId" = p.id
+    WHERE ${notDeleted}
+    GROUP BY p.id, c.id
+    ORDER BY p."createdAt" DESC
+    LIMIT 12`
+  )
+  return result.rows
+}
+
+export const listRecentPosts = async (db: Queryable, userId: number, limit: number) => {
+  const result = await db.query<Row<RecentPost>>(
+    `SELECT p.id, p.title, ${contentColumn()},
+       ${mentionsColumn('post', 'p.id')}, p."createdAt", c.name AS company,
+       (SELECT COUNT(*)::int FROM "Comment" cm WHERE cm."postId" = p.id) AS comments, ${likeColumns}, ${pinColumns}
+     FROM "Post" p
+     JOIN "Company" c ON c.id = p."authorId"
+     WHERE ${notDeleted}
+     ORDER BY ${isPinned} DESC, p."createdAt" DESC
+     LIMIT $2`,
+    [userId, limit]
+  )
+  return result.rows
+}
+
+export const insertPost = async (
+  db: Queryable,
+  post: { title: string; content: string; category: string | null; companyId: number }
+) => {
+  const columns = presentColumns('Post', {
+    title: post.title,
+    content: post.content,
+    category: post.category,
+    authorId: post.companyId,
+  })
+  return insertColumns<Row<Pick<ForumPost, 'id' | 'title' | 'content' | 'category' | 'createdAt'>>>(
+    db,
+    'Post',
+    'p',
+    columns,
+    `p.id, p.title, ${contentColumn()}, ${schema.selectColumn('p', 'Post', 'category')}, p."createdAt"`
+  )
+}
+
+// Locks the post for the rest of the transaction, so concurrent edits are recorded one after the other.
+export const findPostForUpdate = async (db: Queryable, postId: number) => {
+  const result = await db.query<{ authorId: number; title: string; content: string; category: string | null }>(
+    `SELECT p."authorId", p.title, ${contentColumn()}, ${schema.selectColumn('p', 'Post', 'category')}
+     FROM "Post" p
+     WHERE p.id = $1 AND ${notDeleted}
+     FOR UPDATE`,
+    [postId]
+  )
+  return result.rows[0] ?? null
+}
+
+export const postExists = async (db: Queryable, postId: number) => {
+  const result = await db.query('SELECT 1 FROM "Post" WHERE id = $1 AND "deletedAt" IS NULL', [postId])
+  return result.rows.length > 0
+}
+
+export const softDeletePost = async (db: Queryable, postId: number, deletedById: number | null) => {
+  await db.query('UPDATE "Post" SET "deletedAt" = NOW(), "deletedById" = $2 WHERE id = $1', [postId, deletedById])
+}
+
+export const listDeletedPosts = async (db: Queryable) => {
+  const result = await db.query<Row<DeletedPost>>(
+    `SELECT p.id, p.title, ${schema.selectColumn('p', 'Post', 'category')}, p."createdAt", p."deletedAt",
+      c.name AS company, d.name AS "deletedBy",
+      (SELECT COUNT(*)::int FROM "Comment" cm WHERE cm."postId" = p.id) AS comments
+    FROM "Post" p
+    JOIN "Company" c ON c.id = p."authorId"
+    LEFT JOIN "Company" d ON d.id = p."deletedById"
+    WHERE p."deletedAt" IS NOT NULL
+    ORDER BY p."deletedAt" DESC`
+  )
+  return result.rows
+}
+
+// Brings a post back from the trash; false when no deleted post has this id.
+export const restorePost = async (db: Queryable, postId: number) => {
+  const result = await db.query(
+    'UPDATE "Post" SET "deletedAt" = NULL, "deletedById" = NULL WHERE id = $1 AND "deletedAt" IS NOT NULL RETURNING id',
+    [postId]
+  )
+  return result.rows.length > 0
+}
+
+// Permanently deletes a post from the trash and its comments; false when no deleted post has this id.
+export const purgePost = async (db: Queryable, postId: number) => {
+  await db.query(
+    'DELETE FROM "Comment" WHERE "postId" IN (SELECT id FROM "Post" WHERE id = $1 AND "deletedAt" IS NOT NULL)',
+    [postId]
+  )
+  const result = await db.query('DELETE FROM "Post" WHERE id = $1 AND "deletedAt" IS NOT NULL RETURNING id', [postId])
+  return result.rows.length > 0
+}
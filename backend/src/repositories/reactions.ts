@@ -0,0 +1,87 @@
+import type { PostLike, ReactionSummary, ReactionType } from '@cyberparc/shared'
+import type { Queryable } from '../db'
+
+export const likeReaction: ReactionType = 'like'
+
+// Posts and comments keep their reactions in tables of the same shape. `visible` excludes posts in
+// the trash and the comments under them.
+const reactionTargets = {
+  post: { table: '"PostReaction"', key: '"postId"', parent: '"Post"', visible: '"deletedAt" IS NULL' },
+  comment: {
+    table: '"CommentReaction"',
+    key: '"commentId"',
+    parent: '"Comment"',
+    visible: '"postId" IN (SELECT id FROM "Post" WHERE "deletedAt" IS NULL)',
+  },
+}
+
+export type ReactionTarget = keyof typeof reactionTargets
+
+// Select expression summarising the reactions on `idExpression` per type, as a JSON array named
+// "reactions"; `userParam` is the placeholder of the user whose own reactions are flagged.
+export const reactionsColumn = (target: ReactionTarget, idExpression: string, userParam: string) => {
+  const { table, key } = reactionTargets[target]
+  return `COALESCE((
+      SELECT json_agg(json_build_object('type', g.type, 'count', g.count, 'reacted', g.reacted, 'companies', g.companies) ORDER BY g.type)
+      FROM (
+        SELECT r.type, COUNT(*)::int AS count, BOOL_OR(r."userId" = ${userParam}) AS reacted,
+          COALESCE(ARRAY_AGG(DISTINCT co.name) FILTER (WHERE co.name IS NOT NULL), '{}') AS companies
+        FROM ${table} r
+        LEFT JOIN "Company" co ON co.id = r."companyId"
+        WHERE r.${key} = ${idExpression}
+        GROUP BY r.type
+      ) g
+    ), '[]'::json) AS reactions`
+}
+
+export const reactionTargetExists = async (db: Queryable, target: ReactionTarget, id: number) => {
+  const { parent, visible } = reactionTargets[target]
+  const result = await db.query(`SELECT 1 FROM ${parent} WHERE id = $1 AND ${visible}`, [id])
+  return result.rows.length > 0
+}
+
+// Adding a reaction the user already left is a no-op.
+export const addReaction = async (
+  db: Queryable,
+  target: ReactionTarget,
+  reaction: { id: number; userId: number; companyId: number | null; type: ReactionType }
+) => {
+  const { table, key } = reactionTargets[target]
+  await db.query(
+    `INSERT INTO ${table} (${key}, "userId", "companyId", type)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (${key}, "userId", type) DO NOTHING`,
+    [reaction.id, reaction.userId, reaction.companyId, reaction.type]
+  )
+}
+
+export const removeReaction = async (
+  db: Queryable,
+  target: ReactionTarget,
+  reaction: { id: number; userId: number; type: ReactionType }
+) => {
+  const { table, key } = reactionTargets[target]
+  await db.query(`DELETE FROM ${table} WHERE ${key} = $1 AND "userId" = $2 AND type = $3`, [
+    reaction.id,
+    reaction.userId,
+    reaction.type,
+  ])
+}
+
+export const findReactions = async (db: Queryable, target: ReactionTarget, id: number, userId: number) => {
+  const result = await db.query<{ reactions: ReactionSummary[] }>(
+    `SELECT ${reactionsColumn(target, '$1::int', '$2::int')}`,
+    [id, userId]
+  )
+  return result.rows[0].reactions
+}
+
+export const findPostLikes = async (db: Queryable, postId: number, userId: number) => {
+  const result = await db.query<PostLike>(
+    `SELECT $1::int AS id, COUNT(*)::int AS likes, COALESCE(BOOL_OR("userId" = $2), false) AS liked
+     FROM "PostReaction"
+     WHERE "postId" = $1 AND type = $3`,
+    [postId, userId, likeReaction]
+  )
+  return result.rows[0]
+}
@@ -0,0 +1,48 @@
+import type { CommentRevision, PostRevision } from '@cyberparc/shared'
+import type { Queryable } from '../db'
+import type { Row } from '../types'
+
+export const insertPostRevision = async (
+  db: Queryable,
+  revision: { postId: number; title: string; content: string; category: string | null; editedById: number | null }
+) => {
+  await db.query(
+    `INSERT INTO "PostRevision" ("postId", title, content, category, "editedById") VALUES ($1, $2, $3, $4, $5)`,
+    [revision.postId, revision.title, revision.content, revision.category, revision.editedById]
+  )
+}
+
+export const listPostRevisions = async (db: Queryable, postId: number) => {
+  const result = await db.query<Row<PostRevision>>(
+    `SELECT r.id, r.title, r.content, r.category, r."createdAt" AS "replacedAt", c.name AS "editedBy"
+     FROM "PostRevision" r
+     LEFT JOIN "Company" c ON c.id = r."editedById"
+     WHERE r."postId" = $1
+     ORDER BY r."createdAt" DESC, r.id DESC`,
+    [postId]
+  )
+  return result.rows
+}
+
+export const insertCommentRevision = async (
+  db: Queryable,
+  revision: { commentId: number; content: string; editedById: number | null }
+) => {
+  await db.query(`INSERT INTO "CommentRevision" ("commentId", content, "editedById") VALUES ($1, $2, $3)`, [
+    revision.commentId,
+    revision.content,
+    revision.editedById,
+  ])
+}
+
+export const listCommentRevisions = async (db: Queryable, commentId: number) => {
+  const result = await db.query<Row<CommentRevision>>(
+    `SELECT r.id, r.content, r."createdAt" AS "replacedAt", c.name AS "editedBy"
+     FROM "CommentRevision" r
+     LEFT JOIN "Company" c ON c.id = r."editedById"
+     WHERE r."commentId" = $1
+     ORDER BY r."createdAt" DESC, r.id DESC`,
+    [commentId]
+  )
+  return result.rows
+}
@@ -0,0 +1,62 @@
+import type { ActiveSession } from '@cyberparc/shared'
+import type { Queryable } from '../db'
+import type { Row } from '../types'
+
+// `expiresAt` is the token's exp claim, in seconds. It is converted in SQL because the column has no time
+// zone and is compared with NOW(), so both must be read in the database's time zone.
+export const insertSession = (
+  db: Queryable,
+  session: { id: string; userId: number; userAgent: string | null; ipAddress: string | null; expiresAt: number }
+) =>
+  db.query(
+    `INSERT INTO "Session" (id, "userId", "userAgent", "ipAddress", "expiresAt")
+     VALUES ($1, $2, $3, $4, to_timestamp($5))`,
+    [session.id, session.userId, session.userAgent, session.ipAddress, session.expiresAt]
+  )
+
+// Marks the session as seen; false when it was revoked, expired or belongs to someone else.
+export const touchSession = async (db: Queryable, sessionId: string, userId: number) => {
+  const result = await db.query(
+    `UPDATE "Session" SET "lastSeenAt" = NOW()
+     WHERE id = $1 AND "userId" = $2 AND "revokedAt" IS NULL AND "expiresAt" > NOW()
+     RETURNING id`,
+    [sessionId, userId]
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+export const listActiveSessions = async (db: Queryable, userId: number) => {
+  const result = await db.query<Row<Omit<ActiveSession, 'current'>>>(
+    `SELECT id, "userAgent", "ipAddress", "createdAt", "lastSeenAt", "expiresAt"
+     FROM "Session"
+     WHERE "userId" = $1 AND "revokedAt" IS NULL AND "expiresAt" > NOW()
+     ORDER BY "lastSeenAt" DESC`,
+    [userId]
+  )
+  return result.rows
+}
+
+export const revokeSession = (db: Queryable, sessionId: string) =>
+  db.query('UPDATE "Session" SET "revokedAt" = NOW() WHERE id = $1', [sessionId])
+
+export const revokeUserSession = async (db: Queryable, sessionId: string, userId: number) => {
+  const result = await db.query(
+    'UPDATE "Session" SET "revokedAt" = NOW() WHERE id = $1 AND "userId" = $2 AND "revokedAt" IS NULL RETURNING id',
+    [sessionId, userId]
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+// Returns how many sessions were revoked.
+export const revokeSessions = async (
+  db: Queryable,
+  userId: number,
+  { except = null }: { except?: string | null } = {}
+) => {
+  const result = await db.query(
+    `UPDATE "Session" SET "revokedAt" = NOW()
+     WHERE "userId" = $1 AND "revokedAt" IS NULL AND ($2::text IS NULL OR id <> $2)`,
+    [userId, except]
+  )
+  return result.rowCount ?? 0
+}
@@ -0,0 +1,33 @@
+import type { Notifications } from '@cyberparc/shared'
+import type { Queryable } from '../db'
+
+export const findAppSetting = async <T>(db: Queryable, key: string) => {
+  const result = await db.query<{ value: T }>('SELECT value FROM "AppSetting" WHERE key = $1', [key])
+  return result.rows[0]?.value ?? null
+}
+
+export const saveAppSetting = (db: Queryable, key: string, value: unknown) =>
+  db.query(
+    `INSERT INTO "AppSetting" (key, value, "updatedAt") VALUES ($1, $2, NOW())
+     ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, "updatedAt" = NOW()`,
+    [key, JSON.stringify(value)]
+  )
+
+export const findNotifications = async (db: Queryable, userId: number) => {
+  const result = await db.query<{ notifications: Notifications | null }>(
+    'SELECT notifications FROM "UserSettings" WHERE "userId" = $1 LIMIT 1',
+    [userId]
+  )
+  return result.rows[0]?.notifications || {}
+}
+
+export const saveNotifications = async (db: Queryable, userId: number, notifications: Notifications) => {
+  const result = await db.query<{ notifications: Notifications | null }>(
+    `INSERT INTO "UserSettings" ("userId", notifications, "updatedAt")
+     VALUES ($1, $2, NOW())
+     ON CONFLICT ("userId") DO UPDATE SET notifications = EXCLUDED.notifications, "updatedAt" = NOW()
+     RETURNING notifications`,
+    [userId, notifications]
+  )
+  return result.rows[0]?.notifications || {}
+}
@@ -0,0 +1,9 @@
+import type { Summary } from '@cyberparc/shared'
+import type { Queryable } from '../db'
+
+export const countTotals = async (db: Queryable) => {
+  const result = await db.query<Summary['stats']>(
+    'SELECT (SELECT COUNT(*) FROM "User")::int AS users, (SELECT COUNT(*) FROM "Company")::int AS companies, (SELECT COUNT(*) FROM "Post" WHERE "deletedAt" IS NULL)::int AS posts, (SELECT COUNT(*) FROM "Comment" cm JOIN "Post" p ON p.id = cm."postId" WHERE p."deletedAt" IS NULL)::int AS comments'
+  )
+  return result.rows[0]
+}
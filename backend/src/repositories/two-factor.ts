@@ -0,0 +1,69 @@
+import type { Queryable } from '../db'
+
+export interface TwoFactorRecord {
+  userId: number
+  secret: string
+  enabledAt: Date | null
+}
+
+export const findTwoFactor = async (db: Queryable, userId: number) => {
+  const result = await db.query<TwoFactorRecord>(
+    'SELECT "userId", secret, "enabledAt" FROM "TwoFactor" WHERE "userId" = $1',
+    [userId]
+  )
+  return result.rows[0] ?? null
+}
+
+// The secret stays pending (enabledAt NULL) until the user proves their app generates valid codes.
+export const savePendingTwoFactor = (db: Queryable, userId: number, secret: string) =>
+  db.query(
+    `INSERT INTO "TwoFactor" ("userId", secret) VALUES ($1, $2)
+     ON CONFLICT ("userId") DO UPDATE
+       SET secret = EXCLUDED.secret, "enabledAt" = NULL, "lastUsedStep" = NULL, "createdAt" = NOW()`,
+    [userId, secret]
+  )
+
+export const enableTwoFactor = (db: Queryable, userId: number) =>
+  db.query('UPDATE "TwoFactor" SET "enabledAt" = NOW() WHERE "userId" = $1', [userId])
+
+// Records the step of an accepted TOTP code; false when that step or a later one was already used.
+export const claimTotpStep = async (db: Queryable, userId: number, step: number) => {
+  const result = await db.query(
+    `UPDATE "TwoFactor" SET "lastUsedStep" = $2
+     WHERE "userId" = $1 AND ("lastUsedStep" IS NULL OR "lastUsedStep" < $2)
+     RETURNING "userId"`,
+    [userId, step]
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+export const deleteTwoFactor = async (db: Queryable, userId: number) => {
+  await db.query('DELETE FROM "TwoFactor" WHERE "userId" = $1', [userId])
+  await db.query('DELETE FROM "RecoveryCode" WHERE "userId" = $1', [userId])
+}
+
+export const replaceRecoveryCodeHashes = async (db: Queryable, userId: number, codeHashes: string[]) => {
+  await db.query('DELETE FROM "RecoveryCode" WHERE "userId" = $1', [userId])
+  for (const codeHash of codeHashes) {
+    await db.query('INSERT INTO "RecoveryCode" ("userId", "codeHash") VALUES ($1, $2)', [userId, codeHash])
+  }
+}
+
+// Burns the matching unused code; false when there is none.
+export const useRecoveryCode = async (db: Queryable, userId: number, codeHash: string) => {
+  const result = await db.query(
+    `UPDATE "RecoveryCode" SET "usedAt" = NOW()
+     WHERE "userId" = $1 AND "codeHash" = $2 AND "usedAt" IS NULL
+     RETURNING id`,
+    [userId, codeHash]
+  )
+  return (result.rowCount ?? 0) > 0
+}
+
+export const countUnusedRecoveryCodes = async (db: Queryable, userId: number) => {
+  const result = await db.query<{ count: number }>(
+    'SELECT COUNT(*)::int AS count FROM "RecoveryCode" WHERE "userId" = $1 AND "usedAt" IS NULL',
+    [userId]
+  )
+  return result.rows[0].count
+}
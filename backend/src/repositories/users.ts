@@ -0,0 +1,153 @@
+import type { AdminUser, CompanyRole, Profile, TeamMember } from '@cyberparc/shared'
+import { schema, type Queryable } from '../db'
+import type { Row } from '../types'
+
+export interface UserRecord {
+  id: number
+  email: string
+  role: string
+  companyId: number | null
+  companyRole: CompanyRole | null
+}
+
+export type ProfileUser = Profile['user']
+
+const teamMemberColumns = 'id, email, name, "companyRole"'
+
+export const findUserByEmail = async (db: Queryable, email: string) => {
+  const result = await db.query<UserRecord & { password: string }>(
+    'SELECT id, email, password, role, "companyId", "companyRole" FROM "User" WHERE LOWER(email) = $1 LIMIT 1',
+    [email]
+  )
+  return result.rows[0] ?? null
+}
+
+export const findUserById = async (db: Queryable, userId: number) => {
+  const result = await db.query<UserRecord>(
+    'SELECT id, email, role, "companyId", "companyRole" FROM "User" WHERE id = $1 LIMIT 1',
+    [userId]
+  )
+  return result.rows[0] ?? null
+}
+
+export const findUserWithCompanyName = async (db: Queryable, userId: number) => {
+  const result = await db.query<UserRecord & { companyName: string | null }>(
+    `SELECT u.id, u.email, u.role, u."companyId", u."companyRole", c.name AS "companyName"
+     FROM "User" u
+     LEFT JOIN "Company" c ON c.id = u."companyId"
+     WHERE u.id = $1
+     LIMIT 1`,
+    [userId]
+  )
+  return result.rows[0] ?? null
+}
+
+export const findPasswordHash = async (db: Queryable, userId: number) => {
+  const result = await db.query<{ password: string }>('SELECT password FROM "User" WHERE id = $1 LIMIT 1', [userId])
+  return result.rows[0]?.password ?? null
+}
+
+export const updatePassword = (db: Queryable, userId: number, passwordHash: string) =>
+  db.query('UPDATE "User" SET password = $1 WHERE id = $2', [passwordHash, userId])
+
+export const emailExists = async (db: Queryable, email: string) => {
+  const result = await db.query('SELECT id FROM "User" WHERE LOWER(email) = LOWER($1) LIMIT 1', [email])
+  return result.rows.length > 0
+}
+
+export const insertCompanyUser = async (
+  db: Queryable,
+  user: { email: string; passwordHash: string; companyId: number; companyRole: CompanyRole }
+) => {
+  const result = await db.query<Omit<TeamMember, 'invitationPending'>>(
+    `INSERT INTO "User" (email, password, role, "companyId", "companyRole")
+     VALUES ($1, $2, 'company', $3, $4)
+     RETURNING ${teamMemberColumns}`,
+    [user.email, user.passwordHash, user.companyId, user.companyRole]
+  )
+  return result.rows[0]
+}
+
+export const findCompanyRole = async (db: Queryable, userId: number, companyId: number) => {
+  const result = await db.query<{ companyRole: CompanyRole | null }>(
+    'SELECT "companyRole" FROM "User" WHERE id = $1 AND "companyId" = $2',
+    [userId, companyId]
+  )
+  return result.rows[0]?.companyRole ?? null
+}
+
+// The account an admin invitation goes to: the company's first owner, else its oldest account.
+export const findCompanyInvitee = async (db: Queryable, companyId: number) => {
+  const result = await db.query<{ id: number; email: string }>(
+    `SELECT id, email FROM "User" WHERE "companyId" = $1 ORDER BY ("companyRole" = 'owner') DESC, id ASC LIMIT 1`,
+    [companyId]
+  )
+  return result.rows[0] ?? null
+}
+
+export const listTeamMembers = async (db: Queryable, companyId: number, activationPurpose: string) => {
+  const result = await db.query<TeamMember>(
+    `SELECT u.id, u.email, u.name, u."companyRole",
+            EXISTS (
+              SELECT 1 FROM "AuthToken" t
+              WHERE t."userId" = u.id AND t.purpose = $2 AND t."usedAt" IS NULL AND t."expiresAt" > NOW()
+            ) AS "invitationPending"
+     FROM "User" u
+     WHERE u."companyId" = $1
+     ORDER BY CASE u."companyRole" WHEN 'owner' THEN 0 WHEN 'manager' THEN 1 ELSE 2 END, u.email`,
+    [companyId, activationPurpose]
+  )
+  return result.rows
+}
+
+export const findTeamMember = async (db: Queryable, userId: number, companyId: number) => {
+  const result = await db.query<{ id: number; companyRole: CompanyRole | null }>(
+    'SELECT id, "companyRole" FROM "User" WHERE id = $1 AND "companyId" = $2',
+    [userId, companyId]
+  )
+  return result.rows[0] ?? null
+}
+
+export const countCompanyOwners = async (db: Queryable, companyId: number) => {
+  const result = await db.query<{ count: number }>(
+    `SELECT COUNT(*)::int AS count FROM "User" WHERE "companyId" = $1 AND "companyRole" = 'owner'`,
+    [companyId]
+  )
+  return result.rows[0].count
+}
+
+export const updateCompanyRole = async (db: Queryable, userId: number, companyRole: CompanyRole) => {
+  const result = await db.query<Omit<TeamMember, 'invitationPending'>>(
+    `UPDATE "User" SET "companyRole" = $1 WHERE id = $2 RETURNING ${teamMemberColumns}`,
+    [companyRole, userId]
+  )
+  return result.rows[0]
+}
+
+export const deleteUser = (db: Queryable, userId: number) => db.query('DELETE FROM "User" WHERE id = $1', [userId])
+
+export const findProfileUser = async (db: Queryable, userId: number) => {
+  const result = await db.query<ProfileUser>(
+    `SELECT u.id, u.email, u."companyId", ${['name', 'phone', 'avatar']
+      .map((column) => schema.selectColumn('u', 'User', column))
+      .join(', ')}
+     FROM "User" u
+     WHERE u.id = $1
+     LIMIT 1`,
+    [userId]
+  )
+  return result.rows[0] ?? null
+}
+
+export const listUsers = async (db: Queryable) => {
+  const result = await db.query<Row<AdminUser>>(
+    `SELECT u.id, u.email, u.role, ${['name', 'status', 'lastActive']
+      .map((column) => schema.selectColumn('u', 'User', column))
+      .join(', ')},
+      c.name AS company
+    FROM "User" u
+    LEFT JOIN "Company" c ON c.id = u."companyId"
+    ORDER BY u.id DESC`
+  )
+  return result.rows
+}
@@ -0,0 +1,282 @@
+import bcrypt from 'bcryptjs'
+import crypto from 'node:crypto'
+import { Router } from 'express'
+import {
+  createCompanyRequestSchema,
+  idParamsSchema,
+  loginAttemptsQuerySchema,
+  securityPolicySchema,
+  updateCompanyRequestSchema,
+} from '@cyberparc/shared'
+import { activationTtlMs } from '../config'
+import { pool, schema, withTransaction } from '../db'
+import { HttpError } from '../http'
+import { validate } from '../middleware/validate'
+import { pickColumns, updateColumns } from '../repositories/columns'
+import { listRecentComments } from '../repositories/comments'
+import { deleteCompanyCascade, insertCompany, listAdminCompanies } from '../repositories/companies'
+import { listLoginAttempts } from '../repositories/login-attempts'
+import { listAdminPosts, listDeletedPosts, purgePost, restorePost } from '../repositories/posts'
+import { findTwoFactor } from '../repositories/two-factor'
+import { emailExists, findCompanyInvitee, insertCompanyUser, listUsers } from '../repositories/users'
+import { sendActivationMail, trySendActivationMail } from '../services/mails'
+import { createOneTimeToken, oneTimeTokenPurposes } from '../services/one-time-tokens'
+import { getSecurityPolicy, saveSecurityPolicy } from '../services/security-policy'
+import { sendSummary } from './dashboard'
+
+export const adminRouter = Router()
+
+adminRouter.get('/summary', sendSummary)
+
+adminRouter.get('/login-attempts', validate({ query: loginAttemptsQuerySchema }), async (req, res) => {
+  const { limit, status } = req.query
+  const failedOnly = status === 'failed'
+
+  try {
+    return res.json(await listLoginAttempts(pool, { limit, failedOnly }))
+  } catch (error) {
+    console.error('Login attempts error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.get('/security-policy', async (_req, res) => {
+  try {
+    return res.json(await getSecurityPolicy())
+  } catch (error) {
+    console.error('Security policy error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.put('/security-policy', validate({ body: securityPolicySchema }), async (req, res) => {
+  const { requireAdminTwoFactor } = req.body
+
+  try {
+    // Refuse to turn the policy on from an account it would immediately lock out.
+    if (requireAdminTwoFactor) {
+      const twoFactor = await findTwoFactor(pool, req.auth.userId)
+      if (!twoFactor?.enabledAt) {
+        return res.status(409).json({ message: 'Enable two-factor authentication on your own account first.' })
+      }
+    }
+
+    return res.json(await saveSecurityPolicy({ requireAdminTwoFactor }))
+  } catch (error) {
+    console.error('Update security policy error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.get('/schema', (_req, res) => res.json(schema.describe()))
+
+// Re-reads the schema after it was changed outside the API (manual migration, restored dump).
+adminRouter.post('/schema/refresh', async (_req, res) => {
+  try {
+    await schema.refresh()
+    return res.json(schema.describe())
+  } catch (error) {
+    console.error('Schema refresh error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.get('/companies', async (_req, res) => {
+  try {
+    res.set('Cache-Control', 'no-store')
+    return res.json(await listAdminCompanies(pool))
+  } catch (error) {
+    console.error('Companies error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.post('/companies', validate({ body: createCompanyRequestSchema }), async (req, res) => {
+  const body = req.body
+
+  try {
+    const { company, invitation } = await withTransaction(async (client) => {
+      const company = await insertCompany(client, body)
+
+      if (!body.email) return { company, invitation: null }
+
+      if (await emailExists(client, body.email)) {
+        throw new HttpError(400, 'Email already exists.')
+      }
+
+      // Without a password the account stays unusable until the invitee activates it.
+      const hasPassword = !!body.password
+      const owner = await insertCompanyUser(client, {
+        email: body.email,
+        passwordHash: await bcrypt.hash(body.password || crypto.randomBytes(32).toString('hex'), 10),
+        companyId: company.id,
+        companyRole: 'owner',
+      })
+
+      const invitation = hasPassword
+        ? null
+        : {
+            email: body.email,
+            token: await createOneTimeToken(client, owner.id, oneTimeTokenPurposes.activation, activationTtlMs),
+          }
+
+      return { company, invitation }
+    })
+
+    const invitationSent = invitation ? await trySendActivationMail(invitation.email, invitation.token) : false
+
+    return res.json({ ...company, invitationSent })
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message })
+    }
+    console.error('Create company error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.post('/companies/:id/invite', validate({ params: idParamsSchema }), async (req, res) => {
+  const companyId = req.params.id
+
+  try {
+    const user = await findCompanyInvitee(pool, companyId)
+
+    if (!user) {
+      return res.status(404).json({ message: 'This company has no account to invite.' })
+    }
+
+    const token = await createOneTimeToken(pool, user.id, oneTimeTokenPurposes.activation, activationTtlMs)
+    await sendActivationMail(user.email, token)
+
+    return res.json({ ok: true, email: user.email })
+  } catch (error) {
+    console.error('Invite company error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.put('/companies/:id', validate({ params: idParamsSchema, body: updateCompanyRequestSchema }), async (req, res) => {
+  const companyId = req.params.id
+
+  try {
+    // The contract drops unknown keys and omits absent ones, so only submitted fields are updated.
+    const columns = pickColumns('Company', req.body)
+
+    if (!columns.length) {
+      return res.status(400).json({ message: 'No fields to update.' })
+    }
+
+    const company = await updateColumns(pool, 'Company', companyId, columns, '*')
+
+    if (!company) {
+      return res.status(404).json({ message: 'Company not found.' })
+    }
+
+    return res.json(company)
+  } catch (error) {
+    console.error('Update company error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.delete('/companies/:id', validate({ params: idParamsSchema }), async (req, res) => {
+  const companyId = req.params.id
+
+  try {
+    await withTransaction(async (client) => {
+      if (!(await deleteCompanyCascade(client, companyId))) {
+        throw new HttpError(404, 'Company not found.')
+      }
+    })
+
+    return res.json({ id: companyId })
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message })
+    }
+    console.error('Delete company error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.get('/posts', async (_req, res) => {
+  try {
+    return res.json(await listAdminPosts(pool))
+  } catch (error) {
+    console.error('Posts error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.get('/posts/trash', async (_req, res) => {
+  try {
+    return res.json(await listDeletedPosts(pool))
+  } catch (error) {
+    console.error('Deleted posts error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.post('/posts/:id/restore', validate({ params: idParamsSchema }), async (req, res) => {
+  const postId = req.params.id
+
+  try {
+    if (!(await restorePost(pool, postId))) {
+      return res.status(404).json({ message: 'Deleted post not found.' })
+    }
+
+    return res.json({ id: postId })
+  } catch (error) {
+    console.error('Restore post error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+// Only posts already in the trash can be purged.
+adminRouter.delete('/posts/:id', validate({ params: idParamsSchema }), async (req, res) => {
+  const postId = req.params.id
+
+  try {
+    await withTransaction(async (client) => {
+      if (!(await purgePost(client, postId))) {
+        throw new HttpError(404, 'Deleted post not found.')
+      }
+    })
+
+    return res.json({ id: postId })
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message })
+    }
+    console.error('Purge post error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.get('/users', async (_req, res) => {
+  try {
+    return res.json(await listUsers(pool))
+  } catch (error) {
+    console.error('Users error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+adminRouter.get('/messages', async (_req, res) => {
+  try {
+    const comments = await listRecentComments(pool, 20)
+
+    return res.json(
+      comments.map((comment) => ({
+        id: comment.id,
+        from: comment.company,
+        subject: comment.postTitle,
+        createdAt: comment.createdAt,
+        preview: comment.content,
+      }))
+    )
+  } catch (error) {
+    console.error('Messages error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
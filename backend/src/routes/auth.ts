@@ -0,0 +1,463 @@
+import bcrypt from 'bcryptjs'
+import { Router, type RequestHandler } from 'express'
+import type { ParamsDictionary } from 'express-serve-static-core'
+import QRCode from 'qrcode'
+import type { z } from 'zod'
+import {
+  changePasswordRequestSchema,
+  disableTwoFactorRequestSchema,
+  forgotPasswordRequestSchema,
+  loginRequestSchema,
+  sessionParamsSchema,
+  setPasswordRequestSchema,
+  twoFactorCodeRequestSchema,
+  twoFactorLoginRequestSchema,
+  verifyTokenRequestSchema,
+} from '@cyberparc/shared'
+import { passwordResetTtlMs, twoFactorIssuer } from '../config'
+import { pool, withTransaction } from '../db'
+import { HttpError } from '../http'
+import { validate } from '../middleware/validate'
+import { markUserAuthTokensUsed } from '../repositories/auth-tokens'
+import { listActiveSessions, revokeSession, revokeSessions, revokeUserSession } from '../repositories/sessions'
+import {
+  countUnusedRecoveryCodes,
+  deleteTwoFactor,
+  enableTwoFactor,
+  findTwoFactor,
+  savePendingTwoFactor,
+} from '../repositories/two-factor'
+import {
+  findPasswordHash,
+  findUserByEmail,
+  findUserById,
+  findUserWithCompanyName,
+  updatePassword,
+} from '../repositories/users'
+import { getLoginRetryAfter, recordLoginAttempt, sendLoginLocked } from '../services/login-throttle'
+import { sendPasswordResetMail } from '../services/mails'
+import { isPasswordResetThrottled, recordPasswordResetRequest } from '../services/password-reset-throttle'
+import { createOneTimeToken, findOneTimeToken, oneTimeTokenPurposes } from '../services/one-time-tokens'
+import { getSecurityPolicy, isTwoFactorRequired } from '../services/security-policy'
+import {
+  createSession,
+  signTwoFactorChallenge,
+  toSessionUser,
+  verifyTwoFactorChallenge,
+} from '../services/sessions'
+import { replaceRecoveryCodes, verifySecondFactor, verifyTotpCode } from '../services/two-factor'
+import { buildOtpauthUrl, generateTotpSecret } from '../totp'
+
+export const authRouter = Router()
+
+authRouter.post('/login', validate({ body: loginRequestSchema }), async (req, res) => {
+  const { email: normalizedEmail, password, role } = req.body
+
+  try {
+    const retryAfter = await getLoginRetryAfter(normalizedEmail, req)
+
+    if (retryAfter > 0) {
+      await recordLoginAttempt(normalizedEmail, req, false, 'locked')
+      return sendLoginLocked(res, retryAfter)
+    }
+
+    const user = await findUserByEmail(pool, normalizedEmail)
+
+    if (!user) {
+      await recordLoginAttempt(normalizedEmail, req, false, 'unknown_account')
+      return res.status(401).json({ message: 'Invalid credentials.' })
+    }
+
+    const safeUser = toSessionUser(user)
+
+    if (role && safeUser.role !== role.toLowerCase()) {
+      await recordLoginAttempt(normalizedEmail, req, false, 'invalid_role')
+      return res.status(401).json({ message: 'Invalid role for this account.' })
+    }
+
+    const matches = await bcrypt.compare(password, user.password)
+
+    if (!matches) {
+      await recordLoginAttempt(normalizedEmail, req, false, 'invalid_password')
+      return res.status(401).json({ message: 'Invalid credentials.' })
+    }
+
+    const twoFactor = await findTwoFactor(pool, user.id)
+
+    if (twoFactor?.enabledAt) {
+      return res.json({
+        twoFactorRequired: true,
+        challengeToken: signTwoFactorChallenge(user.id),
+      })
+    }
+
+    const policy = await getSecurityPolicy()
+    await recordLoginAttempt(normalizedEmail, req, true, null)
+
+    return res.json({
+      token: await createSession(pool, safeUser, req),
+      user: safeUser,
+      twoFactorSetupRequired: isTwoFactorRequired(policy, safeUser.role),
+    })
+  } catch (error) {
+    console.error('Login error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.post('/login/2fa', validate({ body: twoFactorLoginRequestSchema }), async (req, res) => {
+  const { challengeToken, code } = req.body
+  let userId: number | null
+
+  try {
+    userId = verifyTwoFactorChallenge(challengeToken)
+  } catch {
+    return res.status(401).json({ message: 'Two-factor challenge expired. Please sign in again.' })
+  }
+
+  if (userId === null) {
+    return res.status(401).json({ message: 'Invalid two-factor challenge.' })
+  }
+
+  try {
+    const user = await findUserById(pool, userId)
+
+    if (!user) {
+      return res.status(401).json({ message: 'Account no longer exists.' })
+    }
+
+    const normalizedEmail = user.email.toLowerCase()
+    const twoFactor = await findTwoFactor(pool, userId)
+
+    if (!twoFactor?.enabledAt) {
+      return res.status(401).json({ message: 'Invalid two-factor challenge.' })
+    }
+
+    // Codes are throttled like passwords: a 6-digit space is even easier to brute-force.
+    const retryAfter = await getLoginRetryAfter(normalizedEmail, req)
+
+    if (retryAfter > 0) {
+      await recordLoginAttempt(normalizedEmail, req, false, 'locked')
+      return sendLoginLocked(res, retryAfter)
+    }
+
+    const valid = await verifySecondFactor(pool, twoFactor, code)
+
+    if (!valid) {
+      await recordLoginAttempt(normalizedEmail, req, false, 'invalid_code')
+      return res.status(401).json({ message: 'Invalid verification code.' })
+    }
+
+    await recordLoginAttempt(normalizedEmail, req, true, null)
+
+    const safeUser = toSessionUser(user)
+
+    return res.json({
+      token: await createSession(pool, safeUser, req),
+      user: safeUser,
+      twoFactorSetupRequired: false,
+    })
+  } catch (error) {
+    console.error('Two-factor login error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.post('/forgot-password', validate({ body: forgotPasswordRequestSchema }), async (req, res) => {
+  const { email } = req.body
+
+  // Answer the same way whether or not the account exists, and whether or not the request was
+  // throttled, so neither emails nor throttle state can be probed: a link that was not sent because
+  // of the throttle or a mail failure is not reported.
+  try {
+    if (await isPasswordResetThrottled(email, req)) {
+      return res.json({ ok: true })
+    }
+
+    await recordPasswordResetRequest(email, req)
+    const user = await findUserByEmail(pool, email)
+
+    if (user) {
+      try {
+        const token = await createOneTimeToken(pool, user.id, oneTimeTokenPurposes.reset, passwordResetTtlMs)
+        await sendPasswordResetMail(user.email, token)
+      } catch (error) {
+        console.error('Password reset mail error', error)
+      }
+    }
+
+    return res.json({ ok: true })
+  } catch (error) {
+    console.error('Forgot password error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.post('/verify-token', validate({ body: verifyTokenRequestSchema }), async (req, res) => {
+  const { token, purpose } = req.body
+
+  try {
+    const record = await findOneTimeToken(pool, token, oneTimeTokenPurposes[purpose])
+
+    if (!record) {
+      return res.status(410).json({ message: 'This link is invalid or has expired.' })
+    }
+
+    return res.json({ email: record.email })
+  } catch (error) {
+    console.error('Verify token error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+const consumeOneTimeToken =
+  (purpose: string): RequestHandler<ParamsDictionary, unknown, z.output<typeof setPasswordRequestSchema>> =>
+  async (req, res) => {
+    const { token, password } = req.body
+
+    try {
+      const email = await withTransaction(async (client) => {
+        const record = await findOneTimeToken(client, token, purpose)
+
+        if (!record) {
+          throw new HttpError(410, 'This link is invalid or has expired.')
+        }
+
+        await updatePassword(client, record.userId, await bcrypt.hash(password, 10))
+        await markUserAuthTokensUsed(client, record.userId)
+        await revokeSessions(client, record.userId)
+        return record.email
+      })
+
+      return res.json({ ok: true, email })
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message })
+      }
+      console.error('Consume token error', error)
+      return res.status(500).json({ message: 'Server error.' })
+    }
+  }
+
+authRouter.post('/reset-password', validate({ body: setPasswordRequestSchema }), consumeOneTimeToken(oneTimeTokenPurposes.reset))
+authRouter.post('/activate', validate({ body: setPasswordRequestSchema }), consumeOneTimeToken(oneTimeTokenPurposes.activation))
+
+authRouter.get('/me', async (req, res) => {
+  try {
+    const user = await findUserWithCompanyName(pool, req.auth.userId)
+
+    if (!user) {
+      return res.status(401).json({ message: 'Account no longer exists.' })
+    }
+
+    const sessionUser = toSessionUser(user)
+    const [twoFactor, policy] = await Promise.all([findTwoFactor(pool, user.id), getSecurityPolicy()])
+
+    return res.json({
+      user: {
+        ...sessionUser,
+        companyName: user.companyName,
+        twoFactorEnabled: !!twoFactor?.enabledAt,
+      },
+      twoFactorSetupRequired: isTwoFactorRequired(policy, sessionUser.role) && !twoFactor?.enabledAt,
+    })
+  } catch (error) {
+    console.error('Session lookup error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.post('/logout', async (req, res) => {
+  try {
+    await revokeSession(pool, req.auth.sessionId)
+    return res.json({ ok: true })
+  } catch (error) {
+    console.error('Logout error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.post('/change-password', validate({ body: changePasswordRequestSchema }), async (req, res) => {
+  const { currentPassword, newPassword } = req.body
+
+  try {
+    const passwordHash = await findPasswordHash(pool, req.auth.userId)
+
+    if (passwordHash === null) {
+      return res.status(401).json({ message: 'Account no longer exists.' })
+    }
+
+    const matches = await bcrypt.compare(currentPassword, passwordHash)
+
+    if (!matches) {
+      return res.status(400).json({ message: 'Current password is incorrect.' })
+    }
+
+    await updatePassword(pool, req.auth.userId, await bcrypt.hash(newPassword, 10))
+    // Keep the session that changed the password, sign out every other device.
+    await revokeSessions(pool, req.auth.userId, { except: req.auth.sessionId })
+
+    return res.json({ ok: true })
+  } catch (error) {
+    console.error('Change password error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.get('/sessions', async (req, res) => {
+  try {
+    const sessions = await listActiveSessions(pool, req.auth.userId)
+    return res.json(sessions.map((session) => ({ ...session, current: session.id === req.auth.sessionId })))
+  } catch (error) {
+    console.error('List sessions error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.delete('/sessions', async (req, res) => {
+  try {
+    const revoked = await revokeSessions(pool, req.auth.userId, { except: req.auth.sessionId })
+    return res.json({ revoked })
+  } catch (error) {
+    console.error('Revoke sessions error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.delete('/sessions/:id', validate({ params: sessionParamsSchema }), async (req, res) => {
+  try {
+    if (!(await revokeUserSession(pool, req.params.id, req.auth.userId))) {
+      return res.status(404).json({ message: 'Session not found.' })
+    }
+
+    return res.json({ ok: true, current: req.params.id === req.auth.sessionId })
+  } catch (error) {
+    console.error('Revoke session error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.get('/2fa', async (req, res) => {
+  try {
+    const [twoFactor, policy, remaining] = await Promise.all([
+      findTwoFactor(pool, req.auth.userId),
+      getSecurityPolicy(),
+      countUnusedRecoveryCodes(pool, req.auth.userId),
+    ])
+
+    return res.json({
+      enabled: !!twoFactor?.enabledAt,
+      recoveryCodesRemaining: twoFactor?.enabledAt ? remaining : 0,
+      required: isTwoFactorRequired(policy, req.auth.role),
+    })
+  } catch (error) {
+    console.error('Two-factor status error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.post('/2fa/setup', async (req, res) => {
+  try {
+    const existing = await findTwoFactor(pool, req.auth.userId)
+
+    if (existing?.enabledAt) {
+      return res.status(409).json({ message: 'Two-factor authentication is already enabled.' })
+    }
+
+    const user = await findUserById(pool, req.auth.userId)
+    const secret = generateTotpSecret()
+    const otpauthUrl = buildOtpauthUrl({
+      secret,
+      accountName: user?.email || String(req.auth.userId),
+      issuer: twoFactorIssuer,
+    })
+
+    await savePendingTwoFactor(pool, req.auth.userId, secret)
+
+    return res.json({
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    })
+  } catch (error) {
+    console.error('Two-factor setup error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.post('/2fa/enable', validate({ body: twoFactorCodeRequestSchema }), async (req, res) => {
+  try {
+    const twoFactor = await findTwoFactor(pool, req.auth.userId)
+
+    if (!twoFactor) {
+      return res.status(400).json({ message: 'Start the two-factor setup first.' })
+    }
+
+    if (twoFactor.enabledAt) {
+      return res.status(409).json({ message: 'Two-factor authentication is already enabled.' })
+    }
+
+    const valid = await verifyTotpCode(pool, twoFactor, req.body.code)
+
+    if (!valid) {
+      return res.status(400).json({ message: 'Invalid verification code.' })
+    }
+
+    const recoveryCodes = await withTransaction(async (client) => {
+      await enableTwoFactor(client, req.auth.userId)
+      return replaceRecoveryCodes(client, req.auth.userId)
+    })
+
+    return res.json({ recoveryCodes })
+  } catch (error) {
+    console.error('Two-factor enable error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.post('/2fa/disable', validate({ body: disableTwoFactorRequestSchema }), async (req, res) => {
+  const { password } = req.body
+
+  try {
+    const policy = await getSecurityPolicy()
+
+    if (isTwoFactorRequired(policy, req.auth.role)) {
+      return res.status(403).json({ message: 'Two-factor authentication is required for admin accounts.' })
+    }
+
+    const passwordHash = await findPasswordHash(pool, req.auth.userId)
+    const matches = passwordHash ? await bcrypt.compare(password, passwordHash) : false
+
+    if (!matches) {
+      return res.status(400).json({ message: 'Current password is incorrect.' })
+    }
+
+    await deleteTwoFactor(pool, req.auth.userId)
+
+    return res.json({ ok: true })
+  } catch (error) {
+    console.error('Two-factor disable error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+authRouter.post('/2fa/recovery-codes', validate({ body: twoFactorCodeRequestSchema }), async (req, res) => {
+  try {
+    const twoFactor = await findTwoFactor(pool, req.auth.userId)
+
+    if (!twoFactor?.enabledAt) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled.' })
+    }
+
+    const valid = await verifyTotpCode(pool, twoFactor, req.body.code)
+
+    if (!valid) {
+      return res.status(400).json({ message: 'Invalid verification code.' })
+    }
+
+    return res.json({ recoveryCodes: await replaceRecoveryCodes(pool, req.auth.userId) })
+  } catch (error) {
+    console.error('Recovery codes error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
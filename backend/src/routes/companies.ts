@@ -0,0 +1,145 @@
+import bcrypt from 'bcryptjs'
+import crypto from 'node:crypto'
+import { Router } from 'express'
+import {
+  companyRoleSchema,
+  inviteMemberRequestSchema,
+  memberParamsSchema,
+  updateMemberRoleRequestSchema,
+  type MemberParams,
+} from '@cyberparc/shared'
+import { activationTtlMs } from '../config'
+import { pool, withTransaction } from '../db'
+import { HttpError } from '../http'
+import { requireCompanyRole } from '../middleware/auth'
+import { validate } from '../middleware/validate'
+import { listDirectoryCompanies } from '../repositories/companies'
+import {
+  countCompanyOwners,
+  deleteUser,
+  emailExists,
+  findTeamMember,
+  insertCompanyUser,
+  listTeamMembers,
+  updateCompanyRole,
+} from '../repositories/users'
+import { trySendActivationMail } from '../services/mails'
+import { createOneTimeToken, oneTimeTokenPurposes } from '../services/one-time-tokens'
+
+// Mounted on /api: serves the company directory and each company's team.
+export const companiesRouter = Router()
+
+companiesRouter.get('/companies', async (_req, res) => {
+  try {
+    res.set('Cache-Control', 'no-store')
+    return res.json(await listDirectoryCompanies(pool))
+  } catch (error) {
+    console.error('Companies list error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+companiesRouter.get('/team', requireCompanyRole(...companyRoleSchema.options), async (req, res) => {
+  try {
+    const members = await listTeamMembers(pool, Number(req.actor.companyId), oneTimeTokenPurposes.activation)
+    return res.json({ members, companyRole: req.companyRole })
+  } catch (error) {
+    console.error('Team list error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+companiesRouter.post(
+  '/team/invitations',
+  requireCompanyRole('owner'),
+  validate({ body: inviteMemberRequestSchema }),
+  async (req, res) => {
+    const { email, companyRole } = req.body
+
+    try {
+      const { member, token } = await withTransaction(async (client) => {
+        if (await emailExists(client, email)) {
+          throw new HttpError(409, 'Email already exists.')
+        }
+
+        const member = await insertCompanyUser(client, {
+          email,
+          passwordHash: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10),
+          companyId: Number(req.actor.companyId),
+          companyRole,
+        })
+        const token = await createOneTimeToken(client, member.id, oneTimeTokenPurposes.activation, activationTtlMs)
+
+        return { member, token }
+      })
+
+      const invitationSent = await trySendActivationMail(member.email, token)
+
+      return res.status(201).json({ ...member, invitationPending: true, invitationSent })
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message })
+      }
+      console.error('Team invite error', error)
+      return res.status(500).json({ message: 'Server error.' })
+    }
+  }
+)
+
+companiesRouter.patch(
+  '/team/:userId',
+  requireCompanyRole<MemberParams>('owner'),
+  validate({ params: memberParamsSchema, body: updateMemberRoleRequestSchema }),
+  async (req, res) => {
+    const memberId = req.params.userId
+    const companyId = Number(req.actor.companyId)
+    const { companyRole } = req.body
+
+    try {
+      const member = await findTeamMember(pool, memberId, companyId)
+
+      if (!member) {
+        return res.status(404).json({ message: 'Team member not found.' })
+      }
+
+      const isLastOwner = member.companyRole === 'owner' && (await countCompanyOwners(pool, companyId)) <= 1
+
+      if (isLastOwner && companyRole !== 'owner') {
+        return res.status(409).json({ message: 'A company must keep at least one owner.' })
+      }
+
+      return res.json(await updateCompanyRole(pool, memberId, companyRole))
+    } catch (error) {
+      console.error('Team role error', error)
+      return res.status(500).json({ message: 'Server error.' })
+    }
+  }
+)
+
+companiesRouter.delete(
+  '/team/:userId',
+  requireCompanyRole<MemberParams>('owner'),
+  validate({ params: memberParamsSchema }),
+  async (req, res) => {
+    const memberId = req.params.userId
+    const companyId = Number(req.actor.companyId)
+
+    try {
+      const member = await findTeamMember(pool, memberId, companyId)
+
+      if (!member) {
+        return res.status(404).json({ message: 'Team member not found.' })
+      }
+
+      if (member.companyRole === 'owner' && (await countCompanyOwners(pool, companyId)) <= 1) {
+        return res.status(409).json({ message: 'A company must keep at least one owner.' })
+      }
+
+      await deleteUser(pool, memberId)
+      return res.json({ id: memberId })
+    } catch (error) {
+      console.error('Team remove error', error)
+      return res.status(500).json({ message: 'Server error.' })
+    }
+  }
+)
@@ -0,0 +1,41 @@
+import { Router, type RequestHandler } from 'express'
+import { pool } from '../db'
+import { listRecentComments } from '../repositories/comments'
+import { listRecentPosts } from '../repositories/posts'
+import { countTotals } from '../repositories/stats'
+
+export const dashboardRouter = Router()
+
+// Shared by the company dashboard and the admin overview.
+export const sendSummary: RequestHandler = async (req, res) => {
+  try {
+    const [stats, recentPosts, recentComments] = await Promise.all([
+      countTotals(pool),
+      listRecentPosts(pool, req.actor.userId, 4),
+      listRecentComments(pool, 5),
+    ])
+
+    const activity = recentComments.map((comment) => ({
+      title: comment.company,
+      note: comment.content,
+      time: new Date(comment.createdAt).toLocaleString('fr-FR', {
+        hour: '2-digit',
+        minute: '2-digit',
+        day: '2-digit',
+        month: 'short',
+      }),
+      tag: comment.postTitle,
+    }))
+
+    return res.json({
+      stats,
+      activity,
+      recentPosts,
+    })
+  } catch (error) {
+    console.error('Summary error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+}
+
+dashboardRouter.get('/summary', sendSummary)
@@ -0,0 +1,448 @@
+import { Router, type RequestHandler } from 'express'
+import {
+  createCommentRequestSchema,
+  createPostRequestSchema,
+  idParamsSchema,
+  reactionParamsSchema,
+  updateCommentRequestSchema,
+  updatePostRequestSchema,
+  type IdParams,
+  type ReactionParams,
+} from '@cyberparc/shared'
+import { pool, withTransaction, type Queryable } from '../db'
+import { HttpError } from '../http'
+import { findIdentityMismatch, requireRole } from '../middleware/auth'
+import { validate } from '../middleware/validate'
+import {
+  deleteComment,
+  findCommentForUpdate,
+  findForumComment,
+  findReplyTarget,
+  insertComment,
+  listComments,
+  updateCommentContent,
+} from '../repositories/comments'
+import { findCompanyName } from '../repositories/companies'
+import { saveMentions } from '../repositories/mentions'
+import { insertNotification } from '../repositories/notifications'
+import { pickColumns, presentColumns, updateColumns } from '../repositories/columns'
+import {
+  findForumPost,
+  findPostForUpdate,
+  insertPost,
+  listForumPosts,
+  postExists,
+  softDeletePost,
+} from '../repositories/posts'
+import {
+  addReaction,
+  findPostLikes,
+  findReactions,
+  likeReaction,
+  reactionTargetExists,
+  removeReaction,
+  type ReactionTarget,
+} from '../repositories/reactions'
+import {
+  insertCommentRevision,
+  insertPostRevision,
+  listCommentRevisions,
+  listPostRevisions,
+} from '../repositories/revisions'
+import type { Actor } from '../types'
+
+export const forumRouter = Router()
+
+// Posts and comments are edited or removed by the company that wrote them, or by an admin.
+const canModerate = (actor: Actor, authorId: number) => actor.role === 'admin' || actor.companyId === authorId
+
+// Notifies the companies newly mentioned in a post or comment, except the one that wrote it.
+const notifyMentioned = async (
+  db: Queryable,
+  companyIds: number[],
+  source: { actorCompanyId: number | null; postId: number; commentId: number | null }
+) => {
+  for (const companyId of companyIds) {
+    if (companyId !== source.actorCompanyId) {
+      await insertNotification(db, { companyId, type: 'mention', ...source })
+    }
+  }
+}
+
+// Adds (POST) or removes (DELETE) the caller's reaction of the given type and answers with the
+// target's reactions as they now stand.
+const toggleReaction =
+  (target: ReactionTarget, react: boolean): RequestHandler<ReactionParams> =>
+  async (req, res) => {
+    const { id, type } = req.params
+    const { userId, companyId } = req.actor
+
+    try {
+      if (!(await reactionTargetExists(pool, target, id))) {
+        return res.status(404).json({ message: target === 'post' ? 'Post not found.' : 'Comment not found.' })
+      }
+
+      if (react) {
+        await addReaction(pool, target, { id, userId, companyId, type })
+      } else {
+        await removeReaction(pool, target, { id, userId, type })
+      }
+
+      return res.json({ id, reactions: await findReactions(pool, target, id, userId) })
+    } catch (error) {
+      console.error('Reaction error', error)
+      return res.status(500).json({ message: 'Server error.' })
+    }
+  }
+
+forumRouter.get('/posts', async (req, res) => {
+  try {
+    return res.json(await listForumPosts(pool, req.actor.userId))
+  } catch (error) {
+    console.error('Forum posts error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.post('/posts', validate({ body: createPostRequestSchema }), async (req, res) => {
+  const { title, content, category } = req.body
+  const mismatch = findIdentityMismatch(req.actor, req.body)
+
+  if (mismatch) {
+    return res.status(403).json({ message: mismatch })
+  }
+
+  try {
+    const companyId = req.actor.companyId
+
+    if (!companyId) {
+      return res.status(400).json({ message: 'Company is required to create a post.' })
+    }
+
+    const company = await findCompanyName(pool, companyId)
+    if (company === null) {
+      return res.status(400).json({ message: 'Company not found.' })
+    }
+
+    const { post, mentions } = await withTransaction(async (client) => {
+      const inserted = await insertPost(client, { title, content, category: category || null, companyId })
+      const { mentions, added } = await saveMentions(client, 'post', inserted.id, content)
+      await notifyMentioned(client, added, { actorCompanyId: companyId, postId: inserted.id, commentId: null })
+      return { post: inserted, mentions }
+    })
+
+    return res.json({
+      ...post,
+      mentions,
+      company,
+      companyId,
+      comments: 0,
+      likes: 0,
+      liked: false,
+      reactions: [],
+      isPinned: false,
+      pinnedUntil: null,
+      isAnnouncement: false,
+      editedAt: null,
+    })
+  } catch (error) {
+    console.error('Create post error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.patch('/posts/:id', validate({ params: idParamsSchema, body: updatePostRequestSchema }), async (req, res) => {
+  const postId = req.params.id
+  const { title, content, category, isPinned, pinnedUntil, isAnnouncement } = req.body
+  const editsPin = [isPinned, pinnedUntil, isAnnouncement].some((value) => value !== undefined)
+
+  if (editsPin && req.actor.role !== 'admin') {
+    return res.status(403).json({ message: 'Only admins can pin posts or mark announcements.' })
+  }
+
+  try {
+    await withTransaction(async (client) => {
+      const post = await findPostForUpdate(client, postId)
+
+      if (!post) {
+        throw new HttpError(404, 'Post not found.')
+      }
+
+      // Only fields whose value actually changes count as an edit. Unlike pickColumns, an empty
+      // content stays an empty string: the column is NOT NULL.
+      const textColumns = presentColumns('Post', { title, content, category: category === '' ? null : category })
+        .filter(([column, value]) => value !== undefined && post[column as keyof typeof post] !== value)
+        .map(([column, value]) => [column, value] as const)
+
+      if (textColumns.length && !canModerate(req.actor, post.authorId)) {
+        throw new HttpError(403, 'Only the authoring company can edit this post.')
+      }
+
+      if (textColumns.length) {
+        await insertPostRevision(client, { postId, ...post, editedById: req.actor.companyId })
+      }
+
+      // Unpinning also clears the expiry, so pinning again later starts without one.
+      const columns = [
+        ...textColumns,
+        ...pickColumns('Post', {
+          editedAt: textColumns.length ? new Date() : undefined,
+          isPinned,
+          pinnedUntil: isPinned === false ? null : pinnedUntil,
+          isAnnouncement,
+        }),
+      ]
+
+      if (columns.length) {
+        await updateColumns(client, 'Post', postId, columns, 'id')
+      }
+
+      if (content !== undefined && content !== post.content) {
+        const { added } = await saveMentions(client, 'post', postId, content)
+        await notifyMentioned(client, added, { actorCompanyId: req.actor.companyId, postId, commentId: null })
+      }
+    })
+
+    return res.json(await findForumPost(pool, postId, req.actor.userId))
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message })
+    }
+    console.error('Update post error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.get('/posts/:id/revisions', requireRole<IdParams>('admin'), validate({ params: idParamsSchema }), async (req, res) => {
+  const postId = req.params.id
+
+  try {
+    if (!(await postExists(pool, postId))) {
+      return res.status(404).json({ message: 'Post not found.' })
+    }
+
+    return res.json(await listPostRevisions(pool, postId))
+  } catch (error) {
+    console.error('Post revisions error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.delete('/posts/:id', validate({ params: idParamsSchema }), async (req, res) => {
+  const postId = req.params.id
+
+  try {
+    await withTransaction(async (client) => {
+      const post = await findPostForUpdate(client, postId)
+
+      if (!post) {
+        throw new HttpError(404, 'Post not found.')
+      }
+
+      if (!canModerate(req.actor, post.authorId)) {
+        throw new HttpError(403, 'Only the authoring company can delete this post.')
+      }
+
+      await softDeletePost(client, postId, req.actor.companyId)
+    })
+
+    return res.json({ id: postId })
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message })
+    }
+    console.error('Delete post error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.post('/posts/:id/like', validate({ params: idParamsSchema }), async (req, res) => {
+  const postId = req.params.id
+
+  try {
+    if (!(await postExists(pool, postId))) {
+      return res.status(404).json({ message: 'Post not found.' })
+    }
+
+    await addReaction(pool, 'post', { id: postId, userId: req.actor.userId, companyId: req.actor.companyId, type: likeReaction })
+    return res.json(await findPostLikes(pool, postId, req.actor.userId))
+  } catch (error) {
+    console.error('Like post error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.delete('/posts/:id/like', validate({ params: idParamsSchema }), async (req, res) => {
+  const postId = req.params.id
+
+  try {
+    if (!(await postExists(pool, postId))) {
+      return res.status(404).json({ message: 'Post not found.' })
+    }
+
+    await removeReaction(pool, 'post', { id: postId, userId: req.actor.userId, type: likeReaction })
+    return res.json(await findPostLikes(pool, postId, req.actor.userId))
+  } catch (error) {
+    console.error('Unlike post error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.post('/posts/:id/reactions/:type', validate({ params: reactionParamsSchema }), toggleReaction('post', true))
+forumRouter.delete('/posts/:id/reactions/:type', validate({ params: reactionParamsSchema }), toggleReaction('post', false))
+
+forumRouter.get('/posts/:id/comments', validate({ params: idParamsSchema }), async (req, res) => {
+  const postId = req.params.id
+
+  try {
+    if (!(await postExists(pool, postId))) {
+      return res.status(404).json({ message: 'Post not found.' })
+    }
+
+    return res.json(await listComments(pool, postId, req.actor.userId))
+  } catch (error) {
+    console.error('Comments error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.post('/posts/:id/comments', validate({ params: idParamsSchema, body: createCommentRequestSchema }), async (req, res) => {
+  const postId = req.params.id
+  const mismatch = findIdentityMismatch(req.actor, req.body)
+
+  if (mismatch) {
+    return res.status(403).json({ message: mismatch })
+  }
+
+  try {
+    const companyId = req.actor.companyId
+
+    if (!companyId) {
+      return res.status(400).json({ message: 'Company is required to comment.' })
+    }
+
+    const company = await findCompanyName(pool, companyId)
+    if (company === null) {
+      return res.status(400).json({ message: 'Company not found.' })
+    }
+
+    if (!(await postExists(pool, postId))) {
+      return res.status(404).json({ message: 'Post not found.' })
+    }
+
+    const { content, parentId = null } = req.body
+    const parent = parentId === null ? null : await findReplyTarget(pool, parentId)
+
+    if (parentId !== null && parent?.postId !== postId) {
+      return res.status(400).json({ message: 'Parent comment not found on this post.' })
+    }
+
+    const { comment, mentions } = await withTransaction(async (client) => {
+      const inserted = await insertComment(client, { content, companyId, postId, parentId })
+      const { mentions, added } = await saveMentions(client, 'comment', inserted.id, content)
+
+      // Replying to one's own company's comment notifies nobody.
+      if (parent && parent.authorId !== companyId) {
+        await insertNotification(client, {
+          companyId: parent.authorId,
+          type: 'commentReply',
+          actorCompanyId: companyId,
+          postId,
+          commentId: inserted.id,
+        })
+      }
+
+      // The company being replied to already hears about the comment.
+      const mentioned = added.filter((id) => id !== parent?.authorId)
+      await notifyMentioned(client, mentioned, { actorCompanyId: companyId, postId, commentId: inserted.id })
+
+      return { comment: inserted, mentions }
+    })
+
+    return res.json({ ...comment, mentions, postId, companyId, company, reactions: [], editedAt: null })
+  } catch (error) {
+    console.error('Create comment error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.patch('/comments/:id', validate({ params: idParamsSchema, body: updateCommentRequestSchema }), async (req, res) => {
+  const commentId = req.params.id
+  const { content } = req.body
+
+  try {
+    await withTransaction(async (client) => {
+      const comment = await findCommentForUpdate(client, commentId)
+
+      if (!comment) {
+        throw new HttpError(404, 'Comment not found.')
+      }
+
+      if (!canModerate(req.actor, comment.authorId)) {
+        throw new HttpError(403, 'Only the authoring company can edit this comment.')
+      }
+
+      if (comment.content !== content) {
+        await insertCommentRevision(client, { commentId, content: comment.content, editedById: req.actor.companyId })
+        await updateCommentContent(client, commentId, content)
+
+        const { added } = await saveMentions(client, 'comment', commentId, content)
+        await notifyMentioned(client, added, { actorCompanyId: req.actor.companyId, postId: comment.postId, commentId })
+      }
+    })
+
+    return res.json(await findForumComment(pool, commentId, req.actor.userId))
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message })
+    }
+    console.error('Update comment error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.delete('/comments/:id', validate({ params: idParamsSchema }), async (req, res) => {
+  const commentId = req.params.id
+
+  try {
+    await withTransaction(async (client) => {
+      const comment = await findCommentForUpdate(client, commentId)
+
+      if (!comment) {
+        throw new HttpError(404, 'Comment not found.')
+      }
+
+      if (!canModerate(req.actor, comment.authorId)) {
+        throw new HttpError(403, 'Only the authoring company can delete this comment.')
+      }
+
+      await deleteComment(client, commentId)
+    })
+
+    return res.json({ id: commentId })
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message })
+    }
+    console.error('Delete comment error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.get('/comments/:id/revisions', requireRole<IdParams>('admin'), validate({ params: idParamsSchema }), async (req, res) => {
+  const commentId = req.params.id
+
+  try {
+    if (!(await reactionTargetExists(pool, 'comment', commentId))) {
+      return res.status(404).json({ message: 'Comment not found.' })
+    }
+
+    return res.json(await listCommentRevisions(pool, commentId))
+  } catch (error) {
+    console.error('Comment revisions error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+forumRouter.post('/comments/:id/reactions/:type', validate({ params: reactionParamsSchema }), toggleReaction('comment', true))
+forumRouter.delete('/comments/:id/reactions/:type', validate({ params: reactionParamsSchema }), toggleReaction('comment', false))
@@ -0,0 +1,80 @@
+import { Router } from 'express'
+import { messagesQuerySchema, sendMessageRequestSchema } from '@cyberparc/shared'
+import { pool, withTransaction } from '../db'
+import { HttpError } from '../http'
+import { findIdentityMismatch } from '../middleware/auth'
+import { validate } from '../middleware/validate'
+import { findCompanyName } from '../repositories/companies'
+import { saveMentions } from '../repositories/mentions'
+import { insertMessage, listCompanyMessages } from '../repositories/messages'
+import { insertNotification } from '../repositories/notifications'
+
+export const messagesRouter = Router()
+
+messagesRouter.get('/', validate({ query: messagesQuerySchema }), async (req, res) => {
+  const mismatch = findIdentityMismatch(req.actor, req.query)
+
+  if (mismatch) {
+    return res.status(403).json({ message: mismatch })
+  }
+
+  const companyId = req.actor.companyId
+
+  if (!companyId) {
+    return res.status(400).json({ message: 'A company is required to read messages.' })
+  }
+
+  try {
+    return res.json(await listCompanyMessages(pool, companyId))
+  } catch (error) {
+    console.error('Messages list error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+messagesRouter.post('/', validate({ body: sendMessageRequestSchema }), async (req, res) => {
+  const { receiverCompanyId, content, senderCompanyId: requestedCompanyId } = req.body
+  const mismatch = findIdentityMismatch(req.actor, { companyId: requestedCompanyId })
+
+  if (mismatch) {
+    return res.status(403).json({ message: mismatch })
+  }
+
+  const senderCompanyId = req.actor.companyId
+
+  if (!senderCompanyId) {
+    return res.status(400).json({ message: 'A company is required to send messages.' })
+  }
+
+  try {
+    const message = await withTransaction(async (client) => {
+      if (!(await findCompanyName(client, receiverCompanyId))) {
+        throw new HttpError(404, 'Receiver company not found.')
+      }
+
+      const inserted = await insertMessage(client, { senderCompanyId, receiverCompanyId, content })
+      const { mentions, added } = await saveMentions(client, 'message', inserted.id, content)
+
+      // Only the receiver can read the message, so mentioning anyone else notifies nobody.
+      if (added.includes(receiverCompanyId) && receiverCompanyId !== senderCompanyId) {
+        await insertNotification(client, {
+          companyId: receiverCompanyId,
+          type: 'mention',
+          actorCompanyId: senderCompanyId,
+          postId: null,
+          commentId: null,
+        })
+      }
+
+      return { ...inserted, mentions }
+    })
+
+    return res.json(message)
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json({ message: error.message })
+    }
+    console.error('Create message error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
@@ -0,0 +1,37 @@
+import { Router } from 'express'
+import { pool } from '../db'
+import { listNotifications, markNotificationsRead } from '../repositories/notifications'
+
+// Notifications of the acting company; users without one have none.
+export const notificationsRouter = Router()
+
+notificationsRouter.get('/', async (req, res) => {
+  const companyId = req.actor.companyId
+
+  if (!companyId) {
+    return res.json([])
+  }
+
+  try {
+    return res.json(await listNotifications(pool, companyId, 30))
+  } catch (error) {
+    console.error('Notifications list error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+notificationsRouter.post('/read', async (req, res) => {
+  const companyId = req.actor.companyId
+
+  if (!companyId) {
+    return res.json({ ok: true })
+  }
+
+  try {
+    await markNotificationsRead(pool, companyId)
+    return res.json({ ok: true })
+  } catch (error) {
+    console.error('Notifications read error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
@@ -0,0 +1,115 @@
+import { Router } from 'express'
+import {
+  notificationsQuerySchema,
+  profileQuerySchema,
+  updateNotificationsRequestSchema,
+  updateProfileRequestSchema,
+} from '@cyberparc/shared'
+import { pool } from '../db'
+import { findIdentityMismatch, getCompanyRole } from '../middleware/auth'
+import { validate } from '../middleware/validate'
+import { pickColumns, updateColumns } from '../repositories/columns'
+import { findCompany } from '../repositories/companies'
+import { findNotifications, saveNotifications } from '../repositories/settings'
+import { findProfileUser } from '../repositories/users'
+
+// Mounted on /api: the caller's own profile and preferences.
+export const settingsRouter = Router()
+
+const editableUserFields = ['name', 'email', 'phone', 'avatar'] as const
+const editableCompanyFields = ['name', 'description', 'website', 'location', 'phone', 'email', 'industry', 'status'] as const
+
+const pick = <T extends object, K extends keyof T>(source: T, keys: readonly K[]) =>
+  Object.fromEntries(keys.filter((key) => key in source).map((key) => [key, source[key]]))
+
+settingsRouter.get('/profile', validate({ query: profileQuerySchema }), async (req, res) => {
+  const mismatch = findIdentityMismatch(req.actor, req.query)
+
+  if (mismatch) {
+    return res.status(403).json({ message: mismatch })
+  }
+
+  try {
+    const user = await findProfileUser(pool, req.actor.userId)
+
+    if (!user) {
+      return res.status(404).json({ message: 'User not found.' })
+    }
+
+    const companyId = req.actor.impersonating ? req.actor.companyId : user.companyId
+    const company = companyId ? await findCompany(pool, companyId) : null
+
+    return res.json({ user, company })
+  } catch (error) {
+    console.error('Profile error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+settingsRouter.put('/profile', validate({ body: updateProfileRequestSchema }), async (req, res) => {
+  const { user: userPayload, company: companyPayload } = req.body
+  const mismatch = findIdentityMismatch(req.actor, req.body)
+
+  if (mismatch) {
+    return res.status(403).json({ message: mismatch })
+  }
+
+  const { userId, companyId } = req.actor
+
+  try {
+    if (companyPayload && companyId) {
+      const companyRole = await getCompanyRole(req.actor)
+      if (companyRole !== 'owner' && companyRole !== 'manager') {
+        return res.status(403).json({ message: 'Only company owners and managers can edit the company profile.' })
+      }
+    }
+
+    const updates: Record<string, unknown> = {}
+
+    const userColumns = pickColumns('User', pick(userPayload ?? {}, editableUserFields))
+    if (userColumns.length) {
+      updates.user = await updateColumns(pool, 'User', userId, userColumns, 'id, email, "companyId"')
+    }
+
+    const companyColumns = companyPayload ? pickColumns('Company', pick(companyPayload, editableCompanyFields)) : []
+    if (companyId && companyColumns.length) {
+      updates.company = await updateColumns(pool, 'Company', companyId, companyColumns, 'id, name')
+    }
+
+    return res.json({ ok: true, ...updates })
+  } catch (error) {
+    console.error('Profile update error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+settingsRouter.get('/settings/notifications', validate({ query: notificationsQuerySchema }), async (req, res) => {
+  const mismatch = findIdentityMismatch(req.actor, req.query)
+
+  if (mismatch) {
+    return res.status(403).json({ message: mismatch })
+  }
+
+  try {
+    return res.json({ notifications: await findNotifications(pool, req.actor.userId) })
+  } catch (error) {
+    console.error('Notifications error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
+
+settingsRouter.put('/settings/notifications', validate({ body: updateNotificationsRequestSchema }), async (req, res) => {
+  const { notifications, userId: requestedUserId } = req.body
+  const mismatch = findIdentityMismatch(req.actor, { userId: requestedUserId })
+
+  if (mismatch) {
+    return res.status(403).json({ message: mismatch })
+  }
+
+  try {
+    return res.json({ notifications: await saveNotifications(pool, req.actor.userId, notifications) })
+  } catch (error) {
+    console.error('Notifications update error', error)
+    return res.status(500).json({ message: 'Server error.' })
+  }
+})
@@ -0,0 +1,129 @@
+import type { Queryable } from './db'
+
+// Snapshot of the live database schema, introspected once at startup and again only when an admin
+// asks for it. Repositories read and write through it to cope with deployments whose schema
+// predates the migrations without querying information_schema on every request, and migrations use
+// it to see how a legacy database was laid out (which table a column references).
+
+interface SchemaSnapshot {
+  /** Column names per table. */
+  columns: Map<string, Set<string>>
+  /** Referenced table per "Table.column". */
+  foreignKeys: Map<string, string>
+  /** Latest applied migration, null before the first one. */
+  schemaVersion: number | null
+  loadedAt: Date
+}
+
+interface SelectColumnOptions {
+  /** Output name, defaults to the canonical column name. */
+  as?: string
+  /** SQL expression used when the column is missing, defaults to NULL::text. */
+  fallback?: string
+}
+
+export type SchemaRegistry = ReturnType<typeof createSchemaRegistry>
+
+export const quoteIdentifier = (value: string) => `"${String(value).replace(/"/g, '""')}"`
+
+const introspect = async (db: Queryable): Promise<SchemaSnapshot> => {
+  const [columnsResult, foreignKeysResult] = await Promise.all([
+    db.query<{ table_name: string; column_name: string }>(
+      `SELECT table_name, column_name
+       FROM information_schema.columns
+       WHERE table_schema = current_schema()`
+    ),
+    db.query<{ table_name: string; column_name: string; referenced_table: string }>(
+      `SELECT tc.table_name, kcu.column_name, ccu.table_name AS referenced_table
+       FROM information_schema.table_constraints tc
+       JOIN information_schema.key_column_usage kcu
+         ON tc.constraint_name = kcu.constraint_name
+        AND tc.table_schema = kcu.table_schema
+       JOIN information_schema.constraint_column_usage ccu
+         ON ccu.constraint_name = tc.constraint_name
+        AND ccu.table_schema = tc.table_schema
+       WHERE tc.constraint_type = 'FOREIGN KEY'
+         AND tc.table_schema = current_schema()`
+    ),
+  ])
+
+  const columns = new Map<string, Set<string>>()
+  for (const row of columnsResult.rows) {
+    if (!columns.has(row.table_name)) columns.set(row.table_name, new Set())
+    columns.get(row.table_name)?.add(row.column_name)
+  }
+
+  const foreignKeys = new Map<string, string>()
+  for (const row of foreignKeysResult.rows) {
+    foreignKeys.set(`${row.table_name}.${row.column_name}`, row.referenced_table)
+  }
+
+  const versionResult = columns.has('SchemaVersion')
+    ? await db.query<{ version: number | null }>('SELECT MAX(version) AS version FROM "SchemaVersion"')
+    : null
+
+  return {
+    columns,
+    foreignKeys,
+    schemaVersion: versionResult?.rows[0]?.version ?? null,
+    loadedAt: new Date(),
+  }
+}
+
+export const createSchemaRegistry = (db: Queryable) => {
+  let snapshot: SchemaSnapshot | null = null
+
+  const getSnapshot = () => {
+    if (!snapshot) throw new Error('Schema registry has not been loaded.')
+    return snapshot
+  }
+
+  const refresh = async () => {
+    snapshot = await introspect(db)
+    return snapshot
+  }
+
+  const getColumns = (table: string) => getSnapshot().columns.get(table) ?? new Set<string>()
+
+  const hasColumn = (table: string, column: string) => getColumns(table).has(column)
+
+  /** First of `candidates` present on `table`, compared case-insensitively, as spelled in the database. */
+  const resolveColumn = (table: string, candidates: string[]) => {
+    const byLowerName = new Map([...getColumns(table)].map((column) => [column.toLowerCase(), column]))
+    for (const candidate of candidates) {
+      const match = byLowerName.get(candidate.toLowerCase())
+      if (match) return match
+    }
+    return null
+  }
+
+  const getForeignKeyTarget = (table: string, column: string) =>
+    getSnapshot().foreignKeys.get(`${table}.${column}`) ?? null
+
+  /**
+   * Select-list entry for `alias.column`, or the fallback when the column is missing, so queries keep
+   * the same result shape on every schema.
+   */
+  const selectColumn = (
+    alias: string,
+    table: string,
+    column: string,
+    { as = column, fallback = 'NULL::text' }: SelectColumnOptions = {}
+  ) => {
+    const resolved = resolveColumn(table, [column])
+    return `${resolved ? `${alias}.${quoteIdentifier(resolved)}` : fallback} AS ${quoteIdentifier(as)}`
+  }
+
+  const describe = () => {
+    const { columns, schemaVersion, loadedAt } = getSnapshot()
+    return {
+      schemaVersion,
+      loadedAt,
+      tables: [...columns.entries()]
+        .map(([name, tableColumns]) => ({ name, columns: [...tableColumns].sort() }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    }
+  }
+
+  return { refresh, getColumns, hasColumn, resolveColumn, getForeignKeyTarget, selectColumn, describe }
+}
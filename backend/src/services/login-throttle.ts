@@ -0,0 +1,46 @@
+import type { Request, Response } from 'express'
+import { loginThrottle } from '../config'
+import { pool } from '../db'
+import { countRecentFailures, insertLoginAttempt, type FailureStats } from '../repositories/login-attempts'
+
+export const recordLoginAttempt = (email: string, req: Request, success: boolean, reason: string | null) =>
+  insertLoginAttempt(pool, { email, ipAddress: req.ip || null, success, reason })
+
+const recentFailures = async (column: 'email' | 'ipAddress', value: string | undefined): Promise<FailureStats> => {
+  if (!value) return { failures: 0, secondsSinceLast: null }
+  return countRecentFailures(pool, column, value, loginThrottle.windowMs)
+}
+
+const requiredWaitMs = (failures: number, lockoutThreshold: number) => {
+  if (failures >= lockoutThreshold) return loginThrottle.lockoutMs
+  if (failures <= loginThrottle.freeAttempts) return 0
+  return loginThrottle.baseDelayMs * 2 ** (failures - loginThrottle.freeAttempts - 1)
+}
+
+// Returns how many seconds the caller must still wait before another attempt (0 when allowed).
+export const getLoginRetryAfter = async (email: string, req: Request) => {
+  const [account, ip] = await Promise.all([recentFailures('email', email), recentFailures('ipAddress', req.ip)])
+
+  const remainingMs = (stats: FailureStats, threshold: number) => {
+    const waitMs = requiredWaitMs(stats.failures, threshold)
+    if (!waitMs || stats.secondsSinceLast === null) return 0
+    return waitMs - stats.secondsSinceLast * 1000
+  }
+
+  const remaining = Math.max(
+    remainingMs(account, loginThrottle.accountLockoutThreshold),
+    remainingMs(ip, loginThrottle.ipLockoutThreshold),
+    0
+  )
+
+  return Math.ceil(remaining / 1000)
+}
+
+export const sendLoginLocked = (res: Response, retryAfter: number) => {
+  res.set('Retry-After', String(retryAfter))
+  return res.status(429).json({
+    message: 'Too many failed login attempts. Try again later.',
+    code: 'LOGIN_LOCKED',
+    retryAfter,
+  })
+}
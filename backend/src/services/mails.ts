@@ -0,0 +1,39 @@
+import { clientOrigin } from '../config'
+import { sendMail } from '../mailer'
+
+export const sendPasswordResetMail = (email: string, token: string) =>
+  sendMail({
+    to: email,
+    subject: 'Réinitialisation de votre mot de passe Cyber Parc',
+    text: [
+      'Bonjour,',
+      '',
+      'Une réinitialisation du mot de passe de votre compte Cyber Parc Intranet a été demandée.',
+      `Choisissez un nouveau mot de passe avec ce lien (valable 1 heure) : ${clientOrigin}/reset-password?token=${token}`,
+      '',
+      "Si vous n'êtes pas à l'origine de cette demande, ignorez simplement ce message.",
+    ].join('\n'),
+  })
+
+export const sendActivationMail = (email: string, token: string) =>
+  sendMail({
+    to: email,
+    subject: 'Activez votre compte Cyber Parc Intranet',
+    text: [
+      'Bonjour,',
+      '',
+      'Un compte a été créé pour vous sur Cyber Parc Intranet.',
+      `Activez-le en choisissant votre mot de passe avec ce lien (valable 7 jours) : ${clientOrigin}/activate?token=${token}`,
+    ].join('\n'),
+  })
+
+// Invitations are best effort: the account exists either way and an admin can resend the link.
+export const trySendActivationMail = async (email: string, token: string) => {
+  try {
+    await sendActivationMail(email, token)
+    return true
+  } catch (mailError) {
+    console.error('Invitation mail error', mailError)
+    return false
+  }
+}
@@ -0,0 +1,31 @@
+import crypto from 'node:crypto'
+import type { OneTimeTokenPurpose } from '@cyberparc/shared'
+import type { Queryable } from '../db'
+import { findValidAuthToken, insertAuthToken } from '../repositories/auth-tokens'
+
+// Values stored in "AuthToken".purpose for each purpose the API accepts.
+export const oneTimeTokenPurposes: Record<OneTimeTokenPurpose, string> = {
+  reset: 'password_reset',
+  activation: 'activation',
+}
+
+export const hashOneTimeToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex')
+
+// One-time tokens are only ever stored hashed; the raw value exists in the emailed link alone.
+export const createOneTimeToken = async (db: Queryable, userId: number, purpose: string, ttlMs: number) => {
+  const token = crypto.randomBytes(32).toString('base64url')
+
+  await insertAuthToken(db, {
+    userId,
+    purpose,
+    tokenHash: hashOneTimeToken(token),
+    ttlMs,
+  })
+
+  return token
+}
+
+export const findOneTimeToken = async (db: Queryable, token: string, purpose: string) => {
+  if (!token) return null
+  return findValidAuthToken(db, hashOneTimeToken(token), purpose)
+}
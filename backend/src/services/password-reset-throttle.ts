@@ -0,0 +1,18 @@
+import type { Request } from 'express'
+import { passwordResetThrottle } from '../config'
+import { pool } from '../db'
+import { countRecentPasswordResetRequests, insertPasswordResetRequest } from '../repositories/password-reset-requests'
+
+export const recordPasswordResetRequest = (email: string, req: Request) =>
+  insertPasswordResetRequest(pool, { email, ipAddress: req.ip || null })
+
+const recentRequests = async (column: 'email' | 'ipAddress', value: string | undefined) => {
+  if (!value) return 0
+  return countRecentPasswordResetRequests(pool, column, value, passwordResetThrottle.windowMs)
+}
+
+// True once this email or IP has made as many requests as allowed within the window.
+export const isPasswordResetThrottled = async (email: string, req: Request) => {
+  const [account, ip] = await Promise.all([recentRequests('email', email), recentRequests('ipAddress', req.ip)])
+  return account >= passwordResetThrottle.emailLimit || ip >= passwordResetThrottle.ipLimit
+}
@@ -0,0 +1,23 @@
+import type { SecurityPolicy, UserRole } from '@cyberparc/shared'
+import { pool } from '../db'
+import { findAppSetting, saveAppSetting } from '../repositories/settings'
+
+const securityPolicyKey = 'securityPolicy'
+
+const defaultSecurityPolicy: SecurityPolicy = {
+  requireAdminTwoFactor: false,
+}
+
+export const getSecurityPolicy = async (): Promise<SecurityPolicy> => ({
+  ...defaultSecurityPolicy,
+  ...(await findAppSetting<Partial<SecurityPolicy>>(pool, securityPolicyKey)),
+})
+
+export const saveSecurityPolicy = async (changes: Partial<SecurityPolicy>) => {
+  const policy = { ...(await getSecurityPolicy()), ...changes }
+  await saveAppSetting(pool, securityPolicyKey, policy)
+  return policy
+}
+
+export const isTwoFactorRequired = (policy: SecurityPolicy, role: UserRole) =>
+  role === 'admin' && policy.requireAdminTwoFactor
@@ -0,0 +1,72 @@
+import crypto from 'node:crypto'
+import type { Request } from 'express'
+import jwt from 'jsonwebtoken'
+import type { SessionUser, UserRole } from '@cyberparc/shared'
+import { authTokenSecret, authTokenTtl, twoFactorChallengeTtl } from '../config'
+import type { Queryable } from '../db'
+import type { UserRecord } from '../repositories/users'
+import { insertSession } from '../repositories/sessions'
+
+export interface AuthTokenPayload extends jwt.JwtPayload {
+  role: UserRole
+  companyId: number | null
+}
+
+interface TwoFactorChallengePayload extends jwt.JwtPayload {
+  purpose: 'two_factor'
+}
+
+// Roles may be stored with any casing on databases created before the migrations.
+export const toSessionUser = (user: UserRecord): SessionUser => ({
+  id: user.id,
+  email: user.email,
+  role: user.role.toLowerCase() as UserRole,
+  companyId: user.companyId,
+  companyRole: user.companyRole,
+})
+
+const signAuthToken = (user: SessionUser, sessionId: string) =>
+  jwt.sign(
+    {
+      role: user.role,
+      companyId: user.companyId ?? null,
+    },
+    authTokenSecret,
+    {
+      subject: String(user.id),
+      jwtid: sessionId,
+      expiresIn: authTokenTtl as jwt.SignOptions['expiresIn'],
+    }
+  )
+
+export const verifyAuthToken = (token: string) => jwt.verify(token, authTokenSecret) as AuthTokenPayload
+
+// Every issued token is bound to a "Session" row (its jti) so it can be listed and revoked.
+export const createSession = async (db: Queryable, user: SessionUser, req: Request) => {
+  const sessionId = crypto.randomUUID()
+  const token = signAuthToken(user, sessionId)
+  const { exp = 0 } = jwt.decode(token) as jwt.JwtPayload
+
+  await insertSession(db, {
+    id: sessionId,
+    userId: user.id,
+    userAgent: req.get('user-agent') || null,
+    ipAddress: req.ip || null,
+    expiresAt: exp,
+  })
+
+  return token
+}
+
+// Short-lived token proving the password step succeeded; only /api/auth/login/2fa accepts it.
+export const signTwoFactorChallenge = (userId: number) =>
+  jwt.sign({ purpose: 'two_factor' }, authTokenSecret, {
+    subject: String(userId),
+    expiresIn: twoFactorChallengeTtl,
+  })
+
+// Returns the user id the challenge was issued for, or null when it is not a two-factor challenge.
+export const verifyTwoFactorChallenge = (token: string) => {
+  const payload = jwt.verify(token, authTokenSecret) as TwoFactorChallengePayload
+  return payload.purpose === 'two_factor' ? Number(payload.sub) : null
+}
@@ -0,0 +1,51 @@
+import crypto from 'node:crypto'
+import { recoveryCodeCount } from '../config'
+import type { Queryable } from '../db'
+import {
+  claimTotpStep,
+  replaceRecoveryCodeHashes,
+  useRecoveryCode,
+  type TwoFactorRecord,
+} from '../repositories/two-factor'
+import { matchTotpStep } from '../totp'
+import { hashOneTimeToken } from './one-time-tokens'
+
+const normalizeRecoveryCode = (code: string) => code.trim().toLowerCase().replace(/[^a-f0-9]/g, '')
+
+// Issues a fresh set of recovery codes, invalidating the previous ones, and returns them in clear once.
+export const replaceRecoveryCodes = async (db: Queryable, userId: number) => {
+  const codes = Array.from({ length: recoveryCodeCount }, () => {
+    const raw = crypto.randomBytes(5).toString('hex')
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`
+  })
+
+  await replaceRecoveryCodeHashes(
+    db,
+    userId,
+    codes.map((code) => hashOneTimeToken(normalizeRecoveryCode(code)))
+  )
+
+  return codes
+}
+
+// A TOTP code is accepted once: codes from the step of the last accepted one, or earlier, are refused.
+export const verifyTotpCode = async (db: Queryable, twoFactor: TwoFactorRecord, code: string) => {
+  const step = matchTotpStep(twoFactor.secret, code)
+  if (step === null) return false
+
+  return claimTotpStep(db, twoFactor.userId, step)
+}
+
+// A second factor is either a current TOTP code or an unused recovery code (which is then burnt).
+export const verifySecondFactor = async (db: Queryable, twoFactor: TwoFactorRecord, code: string) => {
+  const value = code.trim()
+
+  if (/^\d{6}$/.test(value)) {
+    return verifyTotpCode(db, twoFactor, value)
+  }
+
+  const normalized = normalizeRecoveryCode(value)
+  if (!normalized) return false
+
+  return useRecoveryCode(db, twoFactor.userId, hashOneTimeToken(normalized))
+}
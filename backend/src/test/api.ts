@@ -0,0 +1,39 @@
+import bcrypt from 'bcryptjs'
+import request from 'supertest'
+import { app } from '../app'
+import { pool, schema } from '../db'
+import { migrateUp } from '../migrate'
+
+export const password = 'Sup3r-secret!'
+
+const passwordHash = bcrypt.hashSync(password, 4)
+
+export const api = request(app)
+
+// Migrates the test database and loads the schema registry, as the server does on start.
+export const migrate = async () => {
+  await migrateUp(pool)
+  await schema.refresh()
+}
+
+export const createCompany = async (name: string) => {
+  const result = await pool.query<{ id: number }>('INSERT INTO "Company" (name) VALUES ($1) RETURNING id', [name])
+  return result.rows[0].id
+}
+
+export const createUser = async (
+  email: string,
+  { role = 'company', companyId = null }: { role?: 'admin' | 'company'; companyId?: number | null } = {}
+) => {
+  const result = await pool.query<{ id: number }>(
+    `INSERT INTO "User" (email, password, role, "companyId", "companyRole") VALUES ($1, $2, $3, $4, $5) RETURNING id`,
+    [email, passwordHash, role, companyId, companyId ? 'owner' : null]
+  )
+  return result.rows[0].id
+}
+
+// Signs in through the API and returns the Authorization header of the new session.
+export const signIn = async (email: string) => {
+  const response = await api.post('/api/auth/login').send({ email, password }).expect(200)
+  return { Authorization: `Bearer ${response.body.token}` }
+}
@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { pool } from '../db'
+import { api, createCompany, createUser, migrate, password, signIn } from './api'
+import { sentMails } from './setup'
+
+const resetToken = (email: string) =>
+  sentMails.find((message) => message.to === email)?.text.match(/token=([\w-]+)/)?.[1]
+
+beforeAll(async () => {
+  await migrate()
+  // Far from UTC, so expiries that mix up time zones would already have passed.
+  await pool.query(`SET TIME ZONE 'Pacific/Kiritimati'`)
+  const companyId = await createCompany('TechStart')
+  await createUser('contact@techstart.test', { companyId })
+  await createUser('equipe@techstart.test', { companyId })
+})
+
+describe('auth API', () => {
+  it('keeps sessions valid until they expire, whatever the database time zone', async () => {
+    const session = await signIn('contact@techstart.test')
+
+    const sessions = await api.get('/api/auth/sessions').set(session).expect(200)
+    expect(sessions.body).toEqual([expect.objectContaining({ current: true })])
+  })
+
+  it('answers password reset requests the same way for known and unknown emails', async () => {
+    await api.post('/api/auth/forgot-password').send({ email: 'nobody@techstart.test' }).expect(200, { ok: true })
+    await api.post('/api/auth/forgot-password').send({ email: 'contact@techstart.test' }).expect(200, { ok: true })
+
+    expect(sentMails.map((mail) => mail.to)).toEqual(['contact@techstart.test'])
+
+    const token = resetToken('contact@techstart.test')
+    const verified = await api.post('/api/auth/verify-token').send({ token, purpose: 'reset' }).expect(200)
+    expect(verified.body).toEqual({ email: 'contact@techstart.test' })
+  })
+
+  it('stops sending reset links past the per-email limit without telling the caller', async () => {
+    const request = () =>
+      api.post('/api/auth/forgot-password').send({ email: 'equipe@techstart.test' }).expect(200, { ok: true })
+    const linksSent = () => sentMails.filter((mail) => mail.to === 'equipe@techstart.test').length
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await request()
+    }
+    expect(linksSent()).toBe(3)
+
+    await request()
+    expect(linksSent()).toBe(3)
+  })
+
+  it('keeps counting failures from an IP after a successful login from it', async () => {
+    const login = (email: string, attempt = 'mauvais-mot-de-passe') =>
+      api.post('/api/auth/login').send({ email, password: attempt })
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      await login(`intrus${attempt}@techstart.test`).expect(401)
+    }
+    await login('equipe@techstart.test', password).expect(200)
+    await login('intrus3@techstart.test').expect(401)
+
+    const locked = await login('intrus4@techstart.test').expect(429)
+    expect(locked.body).toMatchObject({ code: 'LOGIN_LOCKED' })
+  })
+})
@@ -0,0 +1,181 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { api, createCompany, createUser, migrate, signIn } from './api'
+
+type Headers = Awaited<ReturnType<typeof signIn>>
+
+let techStart: Headers
+let dataFlow: Headers
+let admin: Headers
+let techStartId: number
+let dataFlowId: number
+
+const createPost = async (as: Headers, content = 'Qui vient ?') => {
+  const response = await api.post('/api/forum/posts').set(as).send({ title: 'Atelier', content }).expect(200)
+  return response.body.id as number
+}
+
+const createComment = (as: Headers, postId: number, content: string, parentId?: number) =>
+  api.post(`/api/forum/posts/${postId}/comments`).set(as).send({ content, parentId })
+
+const feedIds = async () =>
+  ((await api.get('/api/forum/posts').set(techStart).expect(200)).body as Array<{ id: number }>).map((post) => post.id)
+
+const notifications = async (as: Headers) =>
+  (await api.get('/api/notifications').set(as).expect(200)).body as Array<{ type: string; actor: string; postId: number }>
+
+beforeAll(async () => {
+  await migrate()
+  techStartId = await createCompany('TechStart')
+  dataFlowId = await createCompany('DataFlow')
+  await createUser('contact@techstart.test', { companyId: techStartId })
+  await createUser('contact@dataflow.test', { companyId: dataFlowId })
+  await createUser('admin@cyberparc.test', { role: 'admin' })
+  techStart = await signIn('contact@techstart.test')
+  dataFlow = await signIn('contact@dataflow.test')
+  admin = await signIn('admin@cyberparc.test')
+})
+
+describe('forum API', () => {
+  it('keeps one like per user on a post and reports it in the feed', async () => {
+    const postId = await createPost(techStart)
+    const like = (as: Headers) => api.post(`/api/forum/posts/${postId}/like`).set(as)
+
+    await like(dataFlow).expect(200, { id: postId, likes: 1, liked: true })
+    await like(dataFlow).expect(200, { id: postId, likes: 1, liked: true })
+    await like(techStart).expect(200, { id: postId, likes: 2, liked: true })
+    await api.delete(`/api/forum/posts/${postId}/like`).set(dataFlow).expect(200, { id: postId, likes: 1, liked: false })
+
+    const feed = await api.get('/api/forum/posts').set(dataFlow).expect(200)
+    expect(feed.body).toEqual([expect.objectContaining({ id: postId, likes: 1, liked: false })])
+
+    await api.post('/api/forum/posts/999999/like').set(dataFlow).expect(404)
+  })
+
+  it('keeps one reaction of each type per user, with the companies that reacted', async () => {
+    const postId = await createPost(techStart)
+    const react = (as: Headers, type: string, method: 'post' | 'delete' = 'post') =>
+      api[method](`/api/forum/posts/${postId}/reactions/${type}`).set(as)
+
+    await react(techStart, 'celebrate').expect(200)
+    const twice = await react(techStart, 'celebrate').expect(200)
+    expect(twice.body.reactions).toEqual([{ type: 'celebrate', count: 1, reacted: true, companies: ['TechStart'] }])
+
+    const other = await react(dataFlow, 'celebrate').expect(200)
+    expect(other.body.reactions).toEqual([expect.objectContaining({ type: 'celebrate', count: 2, reacted: true })])
+
+    const removed = await react(techStart, 'celebrate', 'delete').expect(200)
+    expect(removed.body.reactions).toEqual([{ type: 'celebrate', count: 1, reacted: false, companies: ['DataFlow'] }])
+
+    await react(techStart, 'angry').expect(422)
+    await api.post('/api/forum/posts/999999/reactions/celebrate').set(techStart).expect(404)
+  })
+
+
+  it('lets only admins pin posts, which then lead the feed', async () => {
+    const postId = await createPost(techStart)
+
+    await api.patch(`/api/forum/posts/${postId}`).set(techStart).send({ isPinned: true }).expect(403)
+    const pinned = await api
+      .patch(`/api/forum/posts/${postId}`)
+      .set(admin)
+      .send({ isPinned: true, isAnnouncement: true })
+      .expect(200)
+    expect(pinned.body).toMatchObject({ id: postId, isPinned: true, isAnnouncement: true })
+
+    const feed = await api.get('/api/forum/posts').set(dataFlow).expect(200)
+    expect(feed.body[0]).toMatchObject({ id: postId, isPinned: true })
+
+    const expired = new Date(Date.now() - 60_000).toISOString()
+    await api.patch(`/api/forum/posts/${postId}`).set(admin).send({ pinnedUntil: expired }).expect(422)
+    await api.patch(`/api/forum/posts/${postId}`).set(admin).send({ isPinned: false }).expect(200)
+    const after = await api.get('/api/forum/posts').set(dataFlow).expect(200)
+    expect(after.body.find((post: { id: number }) => post.id === postId)).toMatchObject({ isPinned: false })
+  })
+
+
+  it('lets only the authoring company or an admin edit, and keeps earlier versions for admins', async () => {
+    const postId = await createPost(techStart, 'Première version')
+    const comment = await createComment(techStart, postId, 'Commentaire initial').expect(200)
+    const commentId = comment.body.id as number
+
+    await api.patch(`/api/forum/posts/${postId}`).set(dataFlow).send({ content: 'Piraté' }).expect(403)
+    const edited = await api.patch(`/api/forum/posts/${postId}`).set(techStart).send({ content: 'Seconde version' }).expect(200)
+    expect(edited.body).toMatchObject({ content: 'Seconde version', editedAt: expect.any(String) })
+
+    await api.patch(`/api/forum/comments/${commentId}`).set(dataFlow).send({ content: 'Piraté' }).expect(403)
+    await api.patch(`/api/forum/comments/${commentId}`).set(techStart).send({ content: 'Commentaire corrigé' }).expect(200)
+
+    await api.get(`/api/forum/posts/${postId}/revisions`).set(techStart).expect(403)
+    const revisions = await api.get(`/api/forum/posts/${postId}/revisions`).set(admin).expect(200)
+    expect(revisions.body).toEqual([expect.objectContaining({ content: 'Première version', editedBy: 'TechStart' })])
+    const commentRevisions = await api.get(`/api/forum/comments/${commentId}/revisions`).set(admin).expect(200)
+    expect(commentRevisions.body).toEqual([expect.objectContaining({ content: 'Commentaire initial' })])
+
+    await api.delete(`/api/forum/comments/${commentId}`).set(dataFlow).expect(403)
+    await api.delete(`/api/forum/comments/${commentId}`).set(techStart).expect(200)
+    const comments = await api.get(`/api/forum/posts/${postId}/comments`).set(techStart).expect(200)
+    expect(comments.body).toEqual([])
+  })
+
+
+  it('moves deleted posts to the trash, where admins restore or purge them', async () => {
+    const postId = await createPost(techStart)
+
+    await api.delete(`/api/forum/posts/${postId}`).set(dataFlow).expect(403)
+    await api.delete(`/api/forum/posts/${postId}`).set(techStart).expect(200)
+    expect(await feedIds()).not.toContain(postId)
+    await api.get(`/api/forum/posts/${postId}/comments`).set(techStart).expect(404)
+
+    await api.get('/api/admin/posts/trash').set(techStart).expect(403)
+    const trash = await api.get('/api/admin/posts/trash').set(admin).expect(200)
+    expect(trash.body).toEqual([expect.objectContaining({ id: postId, deletedBy: 'TechStart' })])
+
+    await api.post(`/api/admin/posts/${postId}/restore`).set(admin).expect(200)
+    expect(await feedIds()).toContain(postId)
+    await api.delete(`/api/admin/posts/${postId}`).set(admin).expect(404)
+
+    await api.delete(`/api/forum/posts/${postId}`).set(admin).expect(200)
+    await api.delete(`/api/admin/posts/${postId}`).set(admin).expect(200)
+    await api.post(`/api/admin/posts/${postId}/restore`).set(admin).expect(404)
+    expect((await api.get('/api/admin/posts/trash').set(admin).expect(200)).body).toEqual([])
+  })
+
+
+  it('notifies the company whose comment gets a reply, unless it replies to itself', async () => {
+    const postId = await createPost(techStart)
+    const otherPostId = await createPost(techStart)
+    const comment = await createComment(techStart, postId, 'Inscriptions ouvertes.').expect(200)
+    const before = (await notifications(techStart)).length
+
+    const reply = await createComment(dataFlow, postId, 'Avec plaisir !', comment.body.id).expect(200)
+    expect(reply.body).toMatchObject({ parentId: comment.body.id })
+    await createComment(techStart, postId, 'Précision : à 14 h.', comment.body.id).expect(200)
+    await createComment(dataFlow, otherPostId, 'Hors sujet', comment.body.id).expect(400)
+
+    const inbox = await notifications(techStart)
+    expect(inbox).toHaveLength(before + 1)
+    expect(inbox[0]).toMatchObject({ type: 'commentReply', actor: 'DataFlow', postId })
+  })
+
+
+  it('notifies each newly mentioned company once, and never the author', async () => {
+    const mentionsOf = async (as: Headers) =>
+      (await notifications(as)).filter((notification) => notification.type === 'mention')
+    const before = (await mentionsOf(dataFlow)).length
+
+    const post = await api
+      .post('/api/forum/posts')
+      .set(techStart)
+      .send({ title: 'Atelier', content: 'Avec @dataflow et @TechStart' })
+      .expect(200)
+    expect(post.body.mentions).toEqual([
+      { id: dataFlowId, name: 'DataFlow' },
+      { id: techStartId, name: 'TechStart' },
+    ])
+
+    await api.patch(`/api/forum/posts/${post.body.id}`).set(techStart).send({ content: 'Avec @DataFlow !' }).expect(200)
+
+    expect(await mentionsOf(dataFlow)).toHaveLength(before + 1)
+    expect(await mentionsOf(techStart)).toEqual([])
+  })
+})
@@ -0,0 +1,48 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { api, createCompany, createUser, migrate, signIn } from './api'
+
+let techStart: Awaited<ReturnType<typeof signIn>>
+let greenEnergy: Awaited<ReturnType<typeof signIn>>
+let dataFlow: Awaited<ReturnType<typeof signIn>>
+let greenEnergyId: number
+
+beforeAll(async () => {
+  await migrate()
+  const techStartId = await createCompany('TechStart')
+  greenEnergyId = await createCompany('GreenEnergy')
+  const dataFlowId = await createCompany('DataFlow')
+  await createUser('contact@techstart.test', { companyId: techStartId })
+  await createUser('contact@greenenergy.test', { companyId: greenEnergyId })
+  await createUser('contact@dataflow.test', { companyId: dataFlowId })
+  techStart = await signIn('contact@techstart.test')
+  greenEnergy = await signIn('contact@greenenergy.test')
+  dataFlow = await signIn('contact@dataflow.test')
+})
+
+describe('messages API', () => {
+  it('rejects a message to a company that does not exist', async () => {
+    const response = await api
+      .post('/api/messages')
+      .set(techStart)
+      .send({ receiverCompanyId: 999999, content: 'Bonjour' })
+      .expect(404)
+    expect(response.body.message).toBe('Receiver company not found.')
+    await api.post('/api/messages').set(techStart).send({ receiverCompanyId: 'abc', content: 'Bonjour' }).expect(422)
+  })
+
+  it('notifies the receiver of a mention, but no one who cannot read the message', async () => {
+    await api
+      .post('/api/messages')
+      .set(techStart)
+      .send({ receiverCompanyId: greenEnergyId, content: 'Merci @GreenEnergy, on en parle avec @DataFlow ?' })
+      .expect(200)
+
+    const mentionsOf = async (as: typeof techStart) =>
+      ((await api.get('/api/notifications').set(as).expect(200)).body as Array<{ type: string }>).filter(
+        (notification) => notification.type === 'mention'
+      )
+
+    expect(await mentionsOf(greenEnergy)).toEqual([expect.objectContaining({ actor: 'TechStart' })])
+    expect(await mentionsOf(dataFlow)).toEqual([])
+  })
+})
@@ -0,0 +1,38 @@
+import { vi } from 'vitest'
+import { registerMailTransport, type MailMessage } from '../mailer'
+
+// Each test file talks to its own in-memory Postgres (PGlite) through the regular pool. PGlite has a
+// single connection, which the pool hands out for transactions too, so requests must not overlap.
+vi.mock('pg', async () => {
+  const { PGlite } = await import('@electric-sql/pglite')
+
+  class Pool {
+    private db = new PGlite()
+
+    private client = {
+      query: async (text: string, params?: unknown[]) => {
+        const result = await this.db.query(text, params)
+        return { ...result, rowCount: result.affectedRows || result.rows.length }
+      },
+      release: () => {},
+    }
+
+    query = this.client.query
+
+    connect = async () => this.client
+
+    end = () => this.db.close()
+  }
+
+  return { default: { Pool } }
+})
+
+// Migrations report each step they apply; tests only need to hear about failures.
+vi.spyOn(console, 'log').mockImplementation(() => {})
+
+// Mails are kept in memory instead of being printed, so tests can read the links they carry.
+export const sentMails: MailMessage[] = []
+
+registerMailTransport('memory', () => async (message) => {
+  sentMails.push(message)
+})
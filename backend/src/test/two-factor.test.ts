@@ -0,0 +1,45 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import { saveSecurityPolicy } from '../services/security-policy'
+import { generateTotp } from '../totp'
+import { api, createCompany, createUser, migrate, password, signIn } from './api'
+
+const stepMs = 30 * 1000
+let techStartId: number
+
+const signInWithCode = async (email: string, code: string, status: number) => {
+  const login = await api.post('/api/auth/login').send({ email, password }).expect(200)
+  return api.post('/api/auth/login/2fa').send({ challengeToken: login.body.challengeToken, code }).expect(status)
+}
+
+beforeAll(async () => {
+  await migrate()
+  techStartId = await createCompany('TechStart')
+  await createUser('contact@techstart.test', { companyId: techStartId })
+  await createUser('admin@cyberparc.test', { role: 'admin' })
+})
+
+describe('two-factor API', () => {
+  it('accepts each code once', async () => {
+    const session = await signIn('contact@techstart.test')
+    const { body: setup } = await api.post('/api/auth/2fa/setup').set(session).expect(200)
+
+    const code = generateTotp(setup.secret)
+    await api.post('/api/auth/2fa/enable').set(session).send({ code }).expect(200)
+    await signInWithCode('contact@techstart.test', code, 401)
+
+    const nextCode = generateTotp(setup.secret, Date.now() + stepMs)
+    await signInWithCode('contact@techstart.test', nextCode, 200)
+    await signInWithCode('contact@techstart.test', nextCode, 401)
+  })
+
+  it('stops admins without two-factor from acting as a company when the policy requires it', async () => {
+    const admin = await signIn('admin@cyberparc.test')
+    await saveSecurityPolicy({ requireAdminTwoFactor: true })
+
+    const refused = await api.get('/api/forum/posts').set(admin).set('X-Act-As-Company', String(techStartId)).expect(403)
+    expect(refused.body).toMatchObject({ code: 'TWO_FACTOR_REQUIRED' })
+
+    await saveSecurityPolicy({ requireAdminTwoFactor: false })
+    await api.get('/api/forum/posts').set(admin).set('X-Act-As-Company', String(techStartId)).expect(200)
+  })
+})
@@ -0,0 +1,86 @@
+import crypto from 'node:crypto'
+
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30 s step), the profile every
+// authenticator app understands.
+const base32Alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+const stepSeconds = 30
+const digits = 6
+
+const base32Encode = (buffer: Buffer) => {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += base32Alphabet[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+
+  if (bits > 0) {
+    output += base32Alphabet[(value << (5 - bits)) & 31]
+  }
+
+  return output
+}
+
+const base32Decode = (input: string) => {
+  const cleaned = input.toUpperCase().replace(/=+$/, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (const char of cleaned) {
+    const index = base32Alphabet.indexOf(char)
+    if (index === -1) throw new Error('Invalid base32 character.')
+    value = (value << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+const hotp = (secret: string, counter: number) => {
+  const counterBuffer = Buffer.alloc(8)
+  counterBuffer.writeBigUInt64BE(BigInt(counter))
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest()
+  const offset = hmac[hmac.length - 1] & 15
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff
+
+  return String(binary % 10 ** digits).padStart(digits, '0')
+}
+
+export const generateTotpSecret = () => base32Encode(crypto.randomBytes(20))
+
+export const buildOtpauthUrl = ({ secret, accountName, issuer }: { secret: string; accountName: string; issuer: string }) => {
+  const label = encodeURIComponent(`${issuer}:${accountName}`)
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(digits), period: String(stepSeconds) })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+const timeStep = (now: number) => Math.floor(now / 1000 / stepSeconds)
+
+export const generateTotp = (secret: string, now = Date.now()) => hotp(secret, timeStep(now))
+
+// Returns the time step the code belongs to, or null when it matches none. The current step and its
+// immediate neighbours are accepted to tolerate clock drift.
+export const matchTotpStep = (secret: string, code: unknown, { window = 1, now = Date.now() } = {}) => {
+  if (typeof code !== 'string' || !/^\d{6}$/.test(code)) return null
+
+  const counter = timeStep(now)
+
+  for (let offset = -window; offset <= window; offset += 1) {
+    const expected = hotp(secret, counter + offset)
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) return counter + offset
+  }
+
+  return null
+}
@@ -0,0 +1,33 @@
+import type { CompanyRole, UserRole } from '@cyberparc/shared'
+
+export interface AuthContext {
+  userId: number
+  role: UserRole
+  companyId: number | null
+  sessionId: string
+}
+
+export interface Actor extends AuthContext {
+  impersonating: boolean
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set by assignRequestId on every request.
+      requestId: string
+      // Set by authenticate and resolveActor on every non-public /api route.
+      auth: AuthContext
+      actor: Actor
+      // Set by requireCompanyRole.
+      companyRole?: CompanyRole | null
+    }
+  }
+}
+
+type TimestampKey = `${string}At` | 'lastActive' | 'pinnedUntil'
+
+// pg hands timestamps back as Date objects; JSON serialization turns them into the contract's strings.
+export type Row<T> = {
+  [K in keyof T]: K extends TimestampKey ? Date | Exclude<T[K], string> : T[K]
+}
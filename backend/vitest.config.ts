@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    setupFiles: ['./src/test/setup.ts'],
+    env: {
+      AUTH_TOKEN_SECRET: 'test-secret',
+      MAIL_TRANSPORT: 'memory',
+      MIGRATE_ON_START: 'false',
+    },
+  },
+})
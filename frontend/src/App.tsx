@@ -5,18 +5,27 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/context/AuthContext";
 import { ThemeProvider } from "@/context/ThemeContext";
+import { RequireAuth } from "@/components/RequireAuth";
 
 // Pages
 import Auth from "./pages/Auth";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
 import Dashboard from "./pages/Dashboard";
 import Forum from "./pages/Forum";
 import Directory from "./pages/Directory";
 import Messages from "./pages/Messages";
 import Admin from "./pages/Admin";
 import Settings from "./pages/Settings";
+import Team from "./pages/Team";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
+// apiFetch already retries failed GETs; a short staleTime lets pages share what another one just loaded.
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { retry: false, staleTime: 30_000 },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -29,12 +38,18 @@ const App = () => (
             <Routes>
               <Route path="/" element={<Navigate to="/auth" replace />} />
               <Route path="/auth" element={<Auth />} />
-              <Route path="/dashboard" element={<Dashboard />} />
-              <Route path="/forum" element={<Forum />} />
-              <Route path="/directory" element={<Directory />} />
-              <Route path="/messages" element={<Messages />} />
-              <Route path="/admin" element={<Admin />} />
-              <Route path="/settings" element={<Settings />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword mode="reset" />} />
+              <Route path="/activate" element={<ResetPassword mode="activation" />} />
+              <Route element={<RequireAuth />}>
+                <Route path="/dashboard" element={<Dashboard />} />
+                <Route path="/forum" element={<Forum />} />
+                <Route path="/directory" element={<Directory />} />
+                <Route path="/messages" element={<Messages />} />
+                <Route path="/admin" element={<Admin />} />
+                <Route path="/settings" element={<Settings />} />
+                <Route path="/team" element={<Team />} />
+              </Route>
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -0,0 +1,19 @@
+import type { FieldErrors } from '@cyberparc/shared';
+import { cn } from '@/lib/utils';
+
+interface FieldErrorProps {
+  errors: FieldErrors;
+  field: string;
+}
+
+// Props that mark an input as rejected by the API, merged into its own className.
+export const invalidFieldProps = (errors: FieldErrors, field: string, className?: string) => ({
+  'aria-invalid': errors[field] ? true : undefined,
+  className: cn(className, errors[field] && 'border-destructive focus-visible:ring-destructive'),
+});
+
+export function FieldError({ errors, field }: FieldErrorProps) {
+  if (!errors[field]) return null;
+
+  return <p className="text-xs text-destructive mt-1">{errors[field]}</p>;
+}
@@ -0,0 +1,31 @@
+import { Link } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+
+interface ForbiddenStateProps {
+  title?: string;
+  description?: string;
+  actionLabel?: string;
+  actionTo?: string;
+}
+
+export function ForbiddenState({
+  title = 'Accès refusé',
+  description = "Votre compte n'a pas les droits nécessaires pour accéder à cette page.",
+  actionLabel = 'Retour au dashboard',
+  actionTo = '/dashboard',
+}: ForbiddenStateProps) {
+  return (
+    <Card className="p-12 text-center">
+      <CardContent className="p-0">
+        <ShieldAlert className="w-12 h-12 text-destructive mx-auto mb-4" />
+        <h3 className="text-lg font-semibold text-foreground mb-2">{title}</h3>
+        <p className="text-muted-foreground mb-6">{description}</p>
+        <Button asChild variant="outline">
+          <Link to={actionTo}>{actionLabel}</Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
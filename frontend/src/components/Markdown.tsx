@@ -0,0 +1,58 @@
+import ReactMarkdown, { type Components } from 'react-markdown';
+import { Link } from 'react-router-dom';
+import remarkBreaks from 'remark-breaks';
+import remarkGfm from 'remark-gfm';
+import { isSafeUrl, linkMentions, type Mention } from '@cyberparc/shared';
+import { cn } from '@/lib/utils';
+
+interface MarkdownProps {
+  children: string;
+  /** Companies mentioned in the text, rendered as links to their profile. */
+  mentions?: Mention[];
+  className?: string;
+}
+
+// Colors are inherited so the same styles work in cards and in message bubbles.
+const markdownClassName = cn(
+  'break-words space-y-2',
+  '[&_a]:underline [&_a]:underline-offset-2',
+  '[&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5',
+  '[&_h1]:text-lg [&_h1]:font-semibold [&_h2]:font-semibold [&_h3]:font-semibold',
+  '[&_blockquote]:border-l-2 [&_blockquote]:border-muted-foreground/40 [&_blockquote]:pl-3 [&_blockquote]:opacity-80',
+  '[&_code]:rounded [&_code]:bg-muted/60 [&_code]:px-1 [&_code]:font-mono [&_code]:text-[0.9em]',
+  '[&_pre]:overflow-x-auto [&_pre]:rounded-md [&_pre]:bg-muted/60 [&_pre]:p-3 [&_pre_code]:bg-transparent [&_pre_code]:p-0',
+  '[&_table]:w-full [&_table]:text-sm [&_th]:border [&_th]:px-2 [&_th]:py-1 [&_th]:text-left [&_td]:border [&_td]:px-2 [&_td]:py-1'
+);
+
+// Links into the app (mentions) stay in the page; any other link opens in a new tab.
+const components: Components = {
+  a: ({ node: _node, href = '', children }) =>
+    href.startsWith('/') ? (
+      <Link to={href} className="font-semibold">
+        {children}
+      </Link>
+    ) : (
+      <a href={href} target="_blank" rel="noopener noreferrer">
+        {children}
+      </a>
+    ),
+};
+
+// Content is sanitized when it is written, but rows stored before that still go through the
+// same URL check, and raw HTML is never rendered.
+const urlTransform = (url: string) => (isSafeUrl(url) ? url : '');
+
+export function Markdown({ children, mentions = [], className }: MarkdownProps) {
+  return (
+    <div className={cn(markdownClassName, className)}>
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm, remarkBreaks]}
+        components={components}
+        urlTransform={urlTransform}
+        skipHtml
+      >
+        {linkMentions(children, mentions)}
+      </ReactMarkdown>
+    </div>
+  );
+}
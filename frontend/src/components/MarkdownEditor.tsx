@@ -0,0 +1,52 @@
+import { forwardRef, useState } from 'react';
+import { findMentions } from '@cyberparc/shared';
+import { Markdown } from '@/components/Markdown';
+import { MentionTextarea, type MentionTextareaProps } from '@/components/MentionTextarea';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useCompanies } from '@/hooks/queries/companies';
+import { cn } from '@/lib/utils';
+
+type Mode = 'write' | 'preview';
+
+// A textarea for markdown content, with @mentions, and a tab to preview it as it will be published.
+export const MarkdownEditor = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(
+  ({ value, className, ...props }, ref) => {
+    const [mode, setMode] = useState<Mode>('write');
+    const { data: companies = [] } = useCompanies();
+
+    return (
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(next) => next && setMode(next as Mode)}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="write" className="h-7 px-2 text-xs">
+              Écrire
+            </ToggleGroupItem>
+            <ToggleGroupItem value="preview" className="h-7 px-2 text-xs">
+              Aperçu
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <span className="text-xs text-muted-foreground">Markdown et @mentions pris en charge</span>
+        </div>
+        {mode === 'write' ? (
+          <MentionTextarea ref={ref} value={value} className={className} {...props} />
+        ) : (
+          <div className={cn(className, 'rounded-md border border-input bg-background px-3 py-2 text-sm')}>
+            {value.trim() ? (
+              <Markdown mentions={findMentions(value, companies)}>{value}</Markdown>
+            ) : (
+              <p className="text-muted-foreground">Rien à prévisualiser.</p>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+MarkdownEditor.displayName = 'MarkdownEditor';
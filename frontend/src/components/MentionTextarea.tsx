@@ -0,0 +1,141 @@
+import { forwardRef, useImperativeHandle, useMemo, useRef, useState, type KeyboardEvent } from 'react';
+import type { DirectoryCompany } from '@cyberparc/shared';
+import { Textarea, type TextareaProps } from '@/components/ui/textarea';
+import { useCompanies } from '@/hooks/queries/companies';
+import { cn } from '@/lib/utils';
+
+export interface MentionTextareaProps extends Omit<TextareaProps, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  /** Where the suggestions open; 'top' for inputs at the bottom of the screen. */
+  suggestionsSide?: 'top' | 'bottom';
+}
+
+interface MentionQuery {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const maxSuggestions = 6;
+
+// The "@" the caret is completing and what follows it. Company names may contain spaces, so the
+// query runs up to the caret; an "@" inside a word (an email address) starts none.
+const mentionQueryAt = (value: string, caret: number): MentionQuery | null => {
+  const match = /(?:^|[^\p{L}\p{N}_])@([^@\n]{0,40})$/u.exec(value.slice(0, caret));
+  return match ? { start: caret - match[1].length - 1, end: caret, text: match[1] } : null;
+};
+
+// A textarea that suggests companies of the directory after an "@" and inserts the chosen "@Name".
+export const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(
+  ({ value, onChange, onKeyDown, onClick, onBlur, suggestionsSide = 'bottom', className, ...props }, ref) => {
+    const { data: companies = [] } = useCompanies();
+    const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const [query, setQuery] = useState<MentionQuery | null>(null);
+    const [highlighted, setHighlighted] = useState(0);
+
+    useImperativeHandle(ref, () => textareaRef.current as HTMLTextAreaElement);
+
+    const suggestions = useMemo(() => {
+      if (!query) return [];
+      const text = query.text.toLowerCase();
+      return companies.filter((company) => company.name.toLowerCase().startsWith(text)).slice(0, maxSuggestions);
+    }, [companies, query]);
+
+    const updateQuery = (textarea: HTMLTextAreaElement) => {
+      setQuery(mentionQueryAt(textarea.value, textarea.selectionStart));
+      setHighlighted(0);
+    };
+
+    const insertMention = (company: DirectoryCompany) => {
+      if (!query) return;
+      const caret = query.start + company.name.length + 2;
+      onChange(`${value.slice(0, query.start)}@${company.name} ${value.slice(query.end)}`);
+      setQuery(null);
+      requestAnimationFrame(() => {
+        textareaRef.current?.focus();
+        textareaRef.current?.setSelectionRange(caret, caret);
+      });
+    };
+
+    // While suggestions are open the arrows, Enter and Tab drive them instead of the textarea.
+    const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+      if (suggestions.length) {
+        const moves: Record<string, () => void> = {
+          ArrowDown: () => setHighlighted((index) => (index + 1) % suggestions.length),
+          ArrowUp: () => setHighlighted((index) => (index - 1 + suggestions.length) % suggestions.length),
+          Enter: () => insertMention(suggestions[highlighted]),
+          Tab: () => insertMention(suggestions[highlighted]),
+          Escape: () => setQuery(null),
+        };
+        const move = moves[event.key];
+
+        if (move) {
+          event.preventDefault();
+          move();
+          return;
+        }
+      }
+
+      onKeyDown?.(event);
+    };
+
+    return (
+      <div className="relative">
+        <Textarea
+          {...props}
+          ref={textareaRef}
+          value={value}
+          className={className}
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateQuery(e.target);
+          }}
+          onKeyDown={handleKeyDown}
+          onClick={(e) => {
+            updateQuery(e.currentTarget);
+            onClick?.(e);
+          }}
+          onBlur={(e) => {
+            setQuery(null);
+            onBlur?.(e);
+          }}
+        />
+        {suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            className={cn(
+              'absolute left-0 z-50 w-64 max-w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md',
+              suggestionsSide === 'top' ? 'bottom-full mb-1' : 'top-full mt-1'
+            )}
+          >
+            {suggestions.map((company, index) => (
+              <li
+                key={company.id}
+                role="option"
+                aria-selected={index === highlighted}
+                // Choosing with the mouse must not blur the textarea first, which would close the list.
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(company);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={cn(
+                  'flex cursor-pointer items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-sm',
+                  index === highlighted && 'bg-accent text-accent-foreground'
+                )}
+              >
+                <span className="font-medium truncate">{company.name}</span>
+                {company.industry && <span className="text-xs opacity-70 truncate">{company.industry}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+
+MentionTextarea.displayName = 'MentionTextarea';
@@ -0,0 +1,57 @@
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { Loader2, ServerCrash } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/context/AuthContext';
+import { isNetworkError } from '@/lib/api';
+
+export function SessionLoader() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+    </div>
+  );
+}
+
+// The stored session could not be checked; the user stays signed in and may retry or sign out.
+function SessionError({ error }: { error: Error }) {
+  const { retrySession, logout } = useAuth();
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <div className="max-w-sm text-center">
+        <ServerCrash className="w-12 h-12 text-destructive mx-auto mb-4" />
+        <h3 className="text-lg font-semibold text-foreground mb-2">Session non vérifiée</h3>
+        <p className="text-muted-foreground mb-6">
+          {isNetworkError(error)
+            ? 'Impossible de joindre le serveur. Vérifiez votre connexion puis réessayez.'
+            : "Le serveur n'a pas pu vérifier votre session. Réessayez dans un instant."}
+        </p>
+        <div className="flex justify-center gap-2">
+          <Button onClick={retrySession}>Réessayer</Button>
+          <Button variant="outline" onClick={logout}>
+            Se déconnecter
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function RequireAuth() {
+  const { isAuthenticated, isLoading, sessionError } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return <SessionLoader />;
+  }
+
+  if (sessionError) {
+    return <SessionError error={sessionError} />;
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  return <Outlet />;
+}
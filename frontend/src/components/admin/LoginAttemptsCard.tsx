@@ -0,0 +1,82 @@
+import { RefreshCw } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useFailedLoginAttempts } from '@/hooks/queries/admin';
+
+const reasonLabels: Record<string, string> = {
+  unknown_account: 'Compte inconnu',
+  invalid_password: 'Mot de passe incorrect',
+  invalid_role: 'Rôle incorrect',
+  invalid_code: 'Code 2FA incorrect',
+  locked: 'Bloqué (trop de tentatives)',
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+
+// Recent failed logins, so admins can spot brute-force attempts and locked-out users.
+export function LoginAttemptsCard() {
+  const attempts = useFailedLoginAttempts();
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold">Tentatives de connexion échouées</h2>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => attempts.refetch()}
+            disabled={attempts.isFetching}
+            className="gap-2"
+          >
+            <RefreshCw className={`w-4 h-4 ${attempts.isFetching ? 'animate-spin' : ''}`} />
+            Actualiser
+          </Button>
+        </div>
+
+        {attempts.isPending ? (
+          <p className="text-sm text-muted-foreground">Chargement...</p>
+        ) : attempts.isError ? (
+          <p className="text-sm text-destructive">{attempts.error.message}</p>
+        ) : attempts.data.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Aucune tentative échouée récente.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-2">Date</th>
+                  <th className="py-2">Email</th>
+                  <th className="py-2">Adresse IP</th>
+                  <th className="py-2">Motif</th>
+                </tr>
+              </thead>
+              <tbody>
+                {attempts.data.map((attempt) => (
+                  <tr key={attempt.id} className="border-b last:border-0">
+                    <td className="py-2 whitespace-nowrap">{formatDate(attempt.createdAt)}</td>
+                    <td className="py-2">{attempt.email}</td>
+                    <td className="py-2 font-mono text-xs">{attempt.ipAddress || '—'}</td>
+                    <td className="py-2">
+                      <Badge variant={attempt.reason === 'locked' ? 'destructive' : 'secondary'}>
+                        {reasonLabels[attempt.reason || ''] || attempt.reason || 'Échec'}
+                      </Badge>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import type { DeletedPost } from '@cyberparc/shared';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useDeletedPosts, usePurgePost, useRestorePost } from '@/hooks/queries/admin';
+import { useToast } from '@/hooks/use-toast';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Deleted forum posts stay here until an admin restores them or removes them for good.
+export function PostTrashCard() {
+  const { toast } = useToast();
+  const deletedPosts = useDeletedPosts();
+  const restorePost = useRestorePost();
+  const purgePost = usePurgePost();
+  const [postToPurge, setPostToPurge] = useState<DeletedPost | null>(null);
+
+  const showError = (title: string, error: unknown) => {
+    const message = error instanceof Error ? error.message : '';
+    toast({ title, description: message || 'Une erreur est survenue.', variant: 'destructive' });
+  };
+
+  const handleRestore = (post: DeletedPost) => {
+    restorePost.mutate(post.id, {
+      onSuccess: () => toast({ title: 'Publication restaurée', description: post.title }),
+      onError: (error) => showError('Restauration impossible', error),
+    });
+  };
+
+  const handlePurge = () => {
+    if (!postToPurge) return;
+    purgePost.mutate(postToPurge.id, {
+      onError: (error) => showError('Suppression impossible', error),
+    });
+    setPostToPurge(null);
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">Corbeille du forum</h2>
+          <p className="text-sm text-muted-foreground">
+            Publications supprimées par leurs auteurs ou par un administrateur
+          </p>
+        </div>
+
+        {deletedPosts.isPending ? (
+          <p className="text-sm text-muted-foreground">Chargement...</p>
+        ) : deletedPosts.isError ? (
+          <p className="text-sm text-destructive">{deletedPosts.error.message}</p>
+        ) : deletedPosts.data.length === 0 ? (
+          <p className="text-sm text-muted-foreground">La corbeille est vide.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b">
+                  <th className="py-2">Publication</th>
+                  <th className="py-2">Auteur</th>
+                  <th className="py-2">Supprimée</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {deletedPosts.data.map((post) => (
+                  <tr key={post.id} className="border-b last:border-0">
+                    <td className="py-2">
+                      <p className="font-medium">{post.title}</p>
+                      <p className="text-xs text-muted-foreground">{post.comments} commentaire(s)</p>
+                    </td>
+                    <td className="py-2">{post.company}</td>
+                    <td className="py-2 whitespace-nowrap">
+                      {formatDate(post.deletedAt)}
+                      {post.deletedBy && <span className="text-muted-foreground"> par {post.deletedBy}</span>}
+                    </td>
+                    <td className="py-2">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => handleRestore(post)}
+                          disabled={restorePost.isPending}
+                        >
+                          <RotateCcw className="w-4 h-4" />
+                          Restaurer
+                        </Button>
+                        <Button variant="destructive" size="sm" className="gap-2" onClick={() => setPostToPurge(post)}>
+                          <Trash2 className="w-4 h-4" />
+                          Supprimer définitivement
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={postToPurge !== null} onOpenChange={(open) => !open && setPostToPurge(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Suppression définitive</DialogTitle>
+          </DialogHeader>
+          <p>
+            Supprimer définitivement <strong>{postToPurge?.title}</strong> et ses commentaires ? Cette action est
+            irréversible.
+          </p>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setPostToPurge(null)}>
+              Non
+            </Button>
+            <Button variant="destructive" onClick={handlePurge}>
+              Oui
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
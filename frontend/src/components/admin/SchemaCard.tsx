@@ -0,0 +1,70 @@
+import { Database, RefreshCw } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useRefreshSchema, useSchemaDescription } from '@/hooks/queries/admin';
+import { useToast } from '@/hooks/use-toast';
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// The API reads the database schema once at startup; after a manual migration it must be re-read.
+export function SchemaCard() {
+  const { toast } = useToast();
+  const { data: schema, error } = useSchemaDescription();
+  const refreshSchema = useRefreshSchema();
+  const refreshing = refreshSchema.isPending;
+
+  const handleRefresh = () => {
+    refreshSchema.mutate(undefined, {
+      onError: (refreshError) =>
+        toast({
+          title: 'Lecture du schéma impossible',
+          description: refreshError.message || 'Une erreur est survenue.',
+          variant: 'destructive',
+        }),
+    });
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold flex items-center gap-2">
+              <Database className="w-5 h-5" />
+              Base de données
+            </h2>
+            {schema && (
+              <p className="text-sm text-muted-foreground">
+                {schema.schemaVersion ? `Migration n° ${schema.schemaVersion}` : 'Aucune migration appliquée'} ·
+                schéma lu le {formatDate(schema.loadedAt)}
+              </p>
+            )}
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={refreshing} className="gap-2">
+            <RefreshCw className={`w-4 h-4 ${refreshing ? 'animate-spin' : ''}`} />
+            Relire le schéma
+          </Button>
+        </div>
+
+        {!schema && error && <p className="text-sm text-destructive">{error.message}</p>}
+
+        {schema && (
+          <div className="flex flex-wrap gap-2">
+            {schema.tables.map((table) => (
+              <Badge key={table.name} variant="secondary" title={table.columns.join(', ')}>
+                {table.name} · {table.columns.length} colonnes
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
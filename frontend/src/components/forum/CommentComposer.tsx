@@ -0,0 +1,76 @@
+import { useState } from 'react';
+import { Send } from 'lucide-react';
+import type { FieldErrors } from '@cyberparc/shared';
+import { FieldError, invalidFieldProps } from '@/components/FieldError';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { Button } from '@/components/ui/button';
+import { useCreateComment } from '@/hooks/queries/forum';
+import { useToast } from '@/hooks/use-toast';
+import { getFieldErrors } from '@/lib/api';
+
+interface CommentComposerProps {
+  postId: number;
+  /** Comment being answered; omitted for a top-level comment. */
+  parentId?: number;
+  placeholder?: string;
+  autoFocus?: boolean;
+  onDone?: () => void;
+}
+
+export function CommentComposer({ postId, parentId, placeholder, autoFocus, onDone }: CommentComposerProps) {
+  const { toast } = useToast();
+  const createComment = useCreateComment(postId);
+  const [content, setContent] = useState('');
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const handleSubmit = async () => {
+    if (!content.trim()) return;
+
+    try {
+      await createComment.mutateAsync({ content, parentId });
+      setContent('');
+      onDone?.();
+    } catch (error) {
+      console.error('Failed to create comment', error);
+      setErrors(getFieldErrors(error));
+      const message = error instanceof Error ? error.message : 'Erreur lors de l’envoi.';
+      toast({
+        title: 'Commentaire non envoyé',
+        description: message || 'Erreur lors de l’envoi.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <MarkdownEditor
+        value={content}
+        autoFocus={autoFocus}
+        placeholder={placeholder ?? 'Écrire un commentaire...'}
+        onChange={(next) => {
+          setContent(next);
+          setErrors(({ content: _cleared, ...rest }) => rest);
+        }}
+        {...invalidFieldProps(errors, 'content', 'min-h-[70px] resize-none')}
+      />
+      <FieldError errors={errors} field="content" />
+      <div className="flex justify-end gap-2">
+        {onDone && (
+          <Button variant="outline" size="sm" onClick={onDone}>
+            Annuler
+          </Button>
+        )}
+        <Button
+          size="sm"
+          onClick={handleSubmit}
+          disabled={!content.trim() || createComment.isPending}
+          className="gap-2 bg-accent hover:bg-accent/90 text-accent-foreground"
+        >
+          <Send className="w-4 h-4" />
+          {parentId ? 'Répondre' : 'Commenter'}
+        </Button>
+      </div>
+    </div>
+  );
+}
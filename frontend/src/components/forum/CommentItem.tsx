@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { Pencil, Reply, Trash2 } from 'lucide-react';
+import type { FieldErrors, ForumComment, ReactionType } from '@cyberparc/shared';
+import { FieldError, invalidFieldProps } from '@/components/FieldError';
+import { Markdown } from '@/components/Markdown';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { ReactionBar } from '@/components/forum/ReactionBar';
+import { RevisionHistoryDialog } from '@/components/forum/RevisionHistoryDialog';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useDeleteComment, useUpdateComment } from '@/hooks/queries/forum';
+import { useToast } from '@/hooks/use-toast';
+import { getFieldErrors } from '@/lib/api';
+
+interface CommentItemProps {
+  comment: ForumComment;
+  postId: number;
+  /** The acting company wrote the comment, or the user is an admin. */
+  canModerate: boolean;
+  isAdmin: boolean;
+  onReaction: (type: ReactionType, reacted: boolean) => void;
+  /** Opens a reply box under the comment; omitted when the user cannot comment. */
+  onReply?: () => void;
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(' ')
+    .map((n) => n[0])
+    .join('')
+    .toUpperCase()
+    .slice(0, 2);
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', {
+    hour: '2-digit',
+    minute: '2-digit',
+    day: '2-digit',
+    month: 'short',
+  });
+
+export function CommentItem({ comment, postId, canModerate, isAdmin, onReaction, onReply }: CommentItemProps) {
+  const { toast } = useToast();
+  const updateComment = useUpdateComment(postId);
+  const deleteComment = useDeleteComment(postId);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(comment.content);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const startEditing = () => {
+    setDraft(comment.content);
+    setErrors({});
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    try {
+      await updateComment.mutateAsync({ id: comment.id, content: draft });
+      setIsEditing(false);
+    } catch (error) {
+      console.error('Failed to update comment', error);
+      setErrors(getFieldErrors(error));
+      const message = error instanceof Error ? error.message : 'Erreur lors de la modification.';
+      toast({
+        title: 'Modification impossible',
+        description: message || 'Erreur lors de la modification.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = () => {
+    setIsConfirmOpen(false);
+    deleteComment.mutate(comment.id, {
+      onError: (error) => {
+        console.error('Failed to delete comment', error);
+        toast({
+          title: 'Suppression impossible',
+          description: error.message || 'Erreur lors de la suppression.',
+          variant: 'destructive',
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="flex items-start gap-3">
+      <Avatar className="w-9 h-9 shrink-0">
+        <AvatarFallback className="bg-primary/10 text-primary">{getInitials(comment.company)}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-semibold text-foreground">{comment.company}</span>
+          <span className="text-xs text-muted-foreground">
+            {formatTimestamp(comment.createdAt)}
+            {comment.editedAt && ' • modifié'}
+          </span>
+          {canModerate && !isEditing && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground"
+                onClick={startEditing}
+                aria-label="Modifier le commentaire"
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                onClick={() => setIsConfirmOpen(true)}
+                aria-label="Supprimer le commentaire"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </Button>
+            </>
+          )}
+          {isAdmin && comment.editedAt && <RevisionHistoryDialog target="comment" id={comment.id} />}
+        </div>
+
+        {isEditing ? (
+          <div className="mt-1 space-y-2">
+            <MarkdownEditor
+              value={draft}
+              onChange={(next) => {
+                setDraft(next);
+                setErrors(({ content: _cleared, ...rest }) => rest);
+              }}
+              {...invalidFieldProps(errors, 'content', 'min-h-[80px]')}
+            />
+            <FieldError errors={errors} field="content" />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+                Annuler
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={!draft.trim() || updateComment.isPending}
+                className="bg-accent hover:bg-accent/90 text-accent-foreground"
+              >
+                Enregistrer
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Markdown mentions={comment.mentions} className="text-sm text-foreground/90">
+            {comment.content}
+          </Markdown>
+        )}
+
+        <div className="mt-1 flex flex-wrap items-center gap-2">
+          <ReactionBar reactions={comment.reactions} onToggle={onReaction} />
+          {onReply && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 px-2 text-xs text-muted-foreground"
+              onClick={onReply}
+            >
+              <Reply className="w-3.5 h-3.5" />
+              Répondre
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Dialog open={isConfirmOpen} onOpenChange={setIsConfirmOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Confirmation</DialogTitle>
+          </DialogHeader>
+          <p>Voulez-vous vraiment supprimer ce commentaire ?</p>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setIsConfirmOpen(false)}>
+              Non
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              Oui
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import type { ForumComment, ReactionType } from '@cyberparc/shared';
+import { CommentComposer } from '@/components/forum/CommentComposer';
+import { CommentItem } from '@/components/forum/CommentItem';
+import { Button } from '@/components/ui/button';
+
+// Replies nested deeper than this start collapsed.
+const collapsedDepth = 3;
+
+type RepliesByParent = Map<number | null, ForumComment[]>;
+
+// Groups the flat comment list by parent; a reply whose parent is not in the list shows at the top level.
+const groupByParent = (comments: ForumComment[]): RepliesByParent => {
+  const ids = new Set(comments.map((comment) => comment.id));
+  const groups: RepliesByParent = new Map();
+
+  comments.forEach((comment) => {
+    const parentId = comment.parentId !== null && ids.has(comment.parentId) ? comment.parentId : null;
+    groups.set(parentId, [...(groups.get(parentId) ?? []), comment]);
+  });
+
+  return groups;
+};
+
+const countReplies = (groups: RepliesByParent, commentId: number): number =>
+  (groups.get(commentId) ?? []).reduce((total, reply) => total + 1 + countReplies(groups, reply.id), 0);
+
+interface ThreadContext {
+  groups: RepliesByParent;
+  postId: number;
+  isAdmin: boolean;
+  actingCompanyId: number | null;
+  onReaction: (commentId: number, type: ReactionType, reacted: boolean) => void;
+}
+
+interface CommentNodeProps extends ThreadContext {
+  comment: ForumComment;
+  depth: number;
+}
+
+function CommentNode({ comment, depth, ...context }: CommentNodeProps) {
+  const { groups, postId, isAdmin, actingCompanyId, onReaction } = context;
+  const replies = groups.get(comment.id) ?? [];
+  const [showReplies, setShowReplies] = useState(depth + 1 < collapsedDepth);
+  const [isReplying, setIsReplying] = useState(false);
+
+  return (
+    <div className="space-y-3">
+      <CommentItem
+        comment={comment}
+        postId={postId}
+        canModerate={isAdmin || comment.companyId === actingCompanyId}
+        isAdmin={isAdmin}
+        onReaction={(type, reacted) => onReaction(comment.id, type, reacted)}
+        onReply={actingCompanyId && comment.id > 0 ? () => setIsReplying(true) : undefined}
+      />
+
+      {(isReplying || replies.length > 0) && (
+        <div className="ml-4 pl-4 border-l border-border space-y-3">
+          {isReplying && (
+            <CommentComposer
+              postId={postId}
+              parentId={comment.id}
+              placeholder={`Répondre à ${comment.company}...`}
+              autoFocus
+              onDone={() => {
+                setIsReplying(false);
+                setShowReplies(true);
+              }}
+            />
+          )}
+
+          {replies.length > 0 && !showReplies && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 px-2 text-xs text-accent"
+              onClick={() => setShowReplies(true)}
+            >
+              <ChevronDown className="w-3.5 h-3.5" />
+              Afficher {countReplies(groups, comment.id)} réponse(s)
+            </Button>
+          )}
+
+          {showReplies &&
+            replies.map((reply) => <CommentNode key={reply.id} comment={reply} depth={depth + 1} {...context} />)}
+
+          {showReplies && depth + 1 >= collapsedDepth && replies.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1 px-2 text-xs text-muted-foreground"
+              onClick={() => setShowReplies(false)}
+            >
+              <ChevronUp className="w-3.5 h-3.5" />
+              Masquer les réponses
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CommentThreadProps extends Omit<ThreadContext, 'groups'> {
+  comments: ForumComment[];
+}
+
+// Comments of a post with their replies nested underneath.
+export function CommentThread({ comments, ...context }: CommentThreadProps) {
+  const groups = groupByParent(comments);
+
+  return (
+    <div className="space-y-4">
+      {(groups.get(null) ?? []).map((comment) => (
+        <CommentNode key={comment.id} comment={comment} depth={0} groups={groups} {...context} />
+      ))}
+    </div>
+  );
+}
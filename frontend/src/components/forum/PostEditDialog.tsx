@@ -0,0 +1,121 @@
+import { useState } from 'react';
+import { Pencil } from 'lucide-react';
+import type { FieldErrors } from '@cyberparc/shared';
+import { FieldError, invalidFieldProps } from '@/components/FieldError';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useUpdatePost } from '@/hooks/queries/forum';
+import { useToast } from '@/hooks/use-toast';
+import { getFieldErrors } from '@/lib/api';
+
+interface PostEditDialogProps {
+  post: { id: number; title: string; content: string; category: string };
+}
+
+export function PostEditDialog({ post }: PostEditDialogProps) {
+  const { toast } = useToast();
+  const updatePost = useUpdatePost();
+  const [isOpen, setIsOpen] = useState(false);
+  const [title, setTitle] = useState(post.title);
+  const [content, setContent] = useState(post.content);
+  const [category, setCategory] = useState(post.category);
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setTitle(post.title);
+      setContent(post.content);
+      setCategory(post.category);
+      setErrors({});
+    }
+    setIsOpen(open);
+  };
+
+  const handleSave = async () => {
+    try {
+      await updatePost.mutateAsync({ id: post.id, title, content, category });
+      toast({ title: 'Publication modifiée' });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to update post', error);
+      setErrors(getFieldErrors(error));
+      const message = error instanceof Error ? error.message : 'Erreur lors de la modification.';
+      toast({
+        title: 'Modification impossible',
+        description: message || 'Erreur lors de la modification.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Pencil className="w-4 h-4" />
+          Modifier
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Modifier la publication</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label>Catégorie</Label>
+            <Tabs value={category} onValueChange={setCategory}>
+              <TabsList className="w-full grid grid-cols-4">
+                <TabsTrigger value="announcements">Annonce</TabsTrigger>
+                <TabsTrigger value="opportunities">Opportunité</TabsTrigger>
+                <TabsTrigger value="events">Événement</TabsTrigger>
+                <TabsTrigger value="questions">Question</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-post-title">Titre</Label>
+            <Input
+              id="edit-post-title"
+              value={title}
+              onChange={(e) => {
+                setTitle(e.target.value);
+                setErrors(({ title: _cleared, ...rest }) => rest);
+              }}
+              {...invalidFieldProps(errors, 'title')}
+            />
+            <FieldError errors={errors} field="title" />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-post-content">Contenu</Label>
+            <MarkdownEditor
+              id="edit-post-content"
+              value={content}
+              onChange={(next) => {
+                setContent(next);
+                setErrors(({ content: _cleared, ...rest }) => rest);
+              }}
+              {...invalidFieldProps(errors, 'content', 'min-h-[200px]')}
+            />
+            <FieldError errors={errors} field="content" />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Annuler
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!title.trim() || updatePost.isPending}
+              className="bg-accent hover:bg-accent/90 text-accent-foreground"
+            >
+              Enregistrer
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
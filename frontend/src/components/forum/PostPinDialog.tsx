@@ -0,0 +1,128 @@
+import { useState } from 'react';
+import { Pin } from 'lucide-react';
+import type { FieldErrors } from '@cyberparc/shared';
+import { FieldError, invalidFieldProps } from '@/components/FieldError';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useUpdatePost } from '@/hooks/queries/forum';
+import { useToast } from '@/hooks/use-toast';
+import { getFieldErrors } from '@/lib/api';
+
+interface PostPinDialogProps {
+  post: { id: number; isPinned: boolean; pinnedUntil: string | null; isAnnouncement: boolean };
+}
+
+// The expiry is picked as a day; the pin lasts until the end of it, in the admin's time zone.
+const toDateInput = (value: string | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const endOfDay = (value: string) => new Date(`${value}T23:59:59`).toISOString();
+
+// Admin-only controls: pin a post on top of the forum and dashboard, and flag official announcements.
+export function PostPinDialog({ post }: PostPinDialogProps) {
+  const { toast } = useToast();
+  const updatePost = useUpdatePost();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isPinned, setIsPinned] = useState(post.isPinned);
+  const [pinnedUntil, setPinnedUntil] = useState(toDateInput(post.pinnedUntil));
+  const [isAnnouncement, setIsAnnouncement] = useState(post.isAnnouncement);
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) {
+      setIsPinned(post.isPinned);
+      setPinnedUntil(toDateInput(post.pinnedUntil));
+      setIsAnnouncement(post.isAnnouncement);
+      setErrors({});
+    }
+    setIsOpen(open);
+  };
+
+  const handleSave = async () => {
+    try {
+      await updatePost.mutateAsync({
+        id: post.id,
+        isPinned,
+        pinnedUntil: isPinned && pinnedUntil ? endOfDay(pinnedUntil) : null,
+        isAnnouncement,
+      });
+      toast({ title: 'Publication mise à jour' });
+      setIsOpen(false);
+    } catch (error) {
+      console.error('Failed to update post pin', error);
+      setErrors(getFieldErrors(error));
+      const message = error instanceof Error ? error.message : 'Erreur lors de la mise à jour.';
+      toast({
+        title: 'Mise à jour impossible',
+        description: message || 'Erreur lors de la mise à jour.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Pin className="w-4 h-4" />
+          Épinglage
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Épinglage et annonce</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 mt-2">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h4 className="font-medium text-foreground">Épingler en haut du forum</h4>
+              <p className="text-sm text-muted-foreground">Reste aussi en tête du tableau de bord</p>
+            </div>
+            <Switch checked={isPinned} onCheckedChange={setIsPinned} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="pinned-until">Épinglé jusqu’au (optionnel)</Label>
+            <Input
+              id="pinned-until"
+              type="date"
+              value={pinnedUntil}
+              disabled={!isPinned}
+              onChange={(e) => {
+                setPinnedUntil(e.target.value);
+                setErrors(({ pinnedUntil: _cleared, ...rest }) => rest);
+              }}
+              {...invalidFieldProps(errors, 'pinnedUntil')}
+            />
+            <FieldError errors={errors} field="pinnedUntil" />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <h4 className="font-medium text-foreground">Annonce officielle</h4>
+              <p className="text-sm text-muted-foreground">Signalée comme communication du Cyber Parc</p>
+            </div>
+            <Switch checked={isAnnouncement} onCheckedChange={setIsAnnouncement} />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Annuler
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={updatePost.isPending}
+              className="bg-accent hover:bg-accent/90 text-accent-foreground"
+            >
+              Enregistrer
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { reactionTypeSchema, type ReactionSummary, type ReactionType } from '@cyberparc/shared';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+export const reactionLabels: Record<ReactionType, { emoji: string; label: string }> = {
+  like: { emoji: '❤️', label: 'J’aime' },
+  thumbsUp: { emoji: '👍', label: 'D’accord' },
+  celebrate: { emoji: '🎉', label: 'Bravo' },
+  insight: { emoji: '💡', label: 'Intéressant' },
+};
+
+interface ReactionBarProps {
+  reactions: ReactionSummary[];
+  onToggle: (type: ReactionType, reacted: boolean) => void;
+  className?: string;
+}
+
+export function ReactionBar({ reactions, onToggle, className }: ReactionBarProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const byType = new Map(reactions.map((reaction) => [reaction.type, reaction]));
+  const shown = reactionTypeSchema.options.filter((type) => byType.get(type)?.count);
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1.5', className)}>
+      {shown.map((type) => {
+        const reaction = byType.get(type) as ReactionSummary;
+        const { emoji, label } = reactionLabels[type];
+
+        return (
+          <button
+            key={type}
+            type="button"
+            onClick={() => onToggle(type, !reaction.reacted)}
+            title={reaction.companies.length ? `${label} : ${reaction.companies.join(', ')}` : label}
+            aria-label={`${label} (${reaction.count})`}
+            aria-pressed={reaction.reacted}
+            className={cn(
+              'inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs transition-colors',
+              reaction.reacted
+                ? 'border-accent/40 bg-accent/10 text-accent'
+                : 'border-border text-muted-foreground hover:bg-muted'
+            )}
+          >
+            <span aria-hidden="true">{emoji}</span>
+            {reaction.count}
+          </button>
+        );
+      })}
+
+      <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="h-7 w-7 text-muted-foreground" aria-label="Ajouter une réaction">
+            <SmilePlus className="w-4 h-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-auto p-1 flex gap-1">
+          {reactionTypeSchema.options.map((type) => {
+            const reacted = byType.get(type)?.reacted ?? false;
+            const { emoji, label } = reactionLabels[type];
+
+            return (
+              <button
+                key={type}
+                type="button"
+                onClick={() => {
+                  onToggle(type, !reacted);
+                  setIsPickerOpen(false);
+                }}
+                title={label}
+                aria-label={label}
+                aria-pressed={reacted}
+                className={cn('rounded-md p-1.5 text-lg leading-none hover:bg-muted', reacted && 'bg-accent/10')}
+              >
+                {emoji}
+              </button>
+            );
+          })}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
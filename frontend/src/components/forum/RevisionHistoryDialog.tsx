@@ -0,0 +1,66 @@
+import { useState } from 'react';
+import { History } from 'lucide-react';
+import type { CommentRevision, PostRevision } from '@cyberparc/shared';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { useCommentRevisions, usePostRevisions } from '@/hooks/queries/forum';
+
+interface RevisionHistoryDialogProps {
+  target: 'post' | 'comment';
+  id: number;
+}
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', {
+    hour: '2-digit',
+    minute: '2-digit',
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+
+// Admin view of the versions a post or comment went through, loaded when the dialog opens.
+export function RevisionHistoryDialog({ target, id }: RevisionHistoryDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const postRevisions = usePostRevisions(id, { enabled: isOpen && target === 'post' });
+  const commentRevisions = useCommentRevisions(id, { enabled: isOpen && target === 'comment' });
+  const revisionsQuery = target === 'post' ? postRevisions : commentRevisions;
+  // Comment revisions are post revisions without the title.
+  const revisions: Array<CommentRevision & Partial<Pick<PostRevision, 'title'>>> = revisionsQuery.data ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 gap-1 px-2 text-xs text-muted-foreground">
+          <History className="w-3.5 h-3.5" />
+          Historique
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Versions précédentes</DialogTitle>
+        </DialogHeader>
+        <div className="max-h-[60vh] overflow-y-auto space-y-4 mt-2">
+          {revisionsQuery.isPending && <p className="text-sm text-muted-foreground">Chargement...</p>}
+
+          {revisionsQuery.isError && <p className="text-sm text-destructive">{revisionsQuery.error.message}</p>}
+
+          {revisionsQuery.isSuccess && !revisions.length && (
+            <p className="text-sm text-muted-foreground">Aucune modification.</p>
+          )}
+
+          {revisions.map((revision) => (
+            <div key={revision.id} className="rounded-md border border-border p-3">
+              <p className="text-xs text-muted-foreground mb-2">
+                Remplacée le {formatTimestamp(revision.replacedAt)}
+                {revision.editedBy && ` par ${revision.editedBy}`}
+              </p>
+              {revision.title && <p className="text-sm font-semibold text-foreground">{revision.title}</p>}
+              <p className="text-sm text-foreground/80 whitespace-pre-wrap">{revision.content}</p>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
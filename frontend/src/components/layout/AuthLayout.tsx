@@ -0,0 +1,96 @@
+import { ReactNode } from 'react';
+import { motion } from 'framer-motion';
+import { Building2 } from 'lucide-react';
+
+interface AuthLayoutProps {
+  children: ReactNode;
+}
+
+// Branding panel and centered form column shared by the sign-in and account recovery screens.
+export function AuthLayout({ children }: AuthLayoutProps) {
+  return (
+    <div className="min-h-screen flex">
+      {/* Left panel - Branding */}
+      <div className="hidden lg:flex lg:flex-1 bg-primary relative overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-br from-primary via-primary to-accent/20" />
+        <div className="absolute inset-0 opacity-10">
+          <div className="absolute inset-0" style={{
+            backgroundImage: `url("data:image/svg+xml,%3Csvg width='60' height='60' viewBox='0 0 60 60' xmlns='http://www.w3.org/2000/svg'%3E%3Cg fill='none' fill-rule='evenodd'%3E%3Cg fill='%23ffffff' fill-opacity='0.4'%3E%3Cpath d='M36 34v-4h-2v4h-4v2h4v4h2v-4h4v-2h-4zm0-30V0h-2v4h-4v2h4v4h2V6h4V4h-4zM6 34v-4H4v4H0v2h4v4h2v-4h4v-2H6zM6 4V0H4v4H0v2h4v4h2V6h4V4H6z'/%3E%3C/g%3E%3C/g%3E%3C/svg%3E")`,
+          }} />
+        </div>
+        
+        <div className="relative z-10 flex flex-col justify-center px-12 text-primary-foreground">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+          >
+            <div className="flex items-center gap-4 mb-8">
+              <div className="w-16 h-16 rounded-2xl bg-accent flex items-center justify-center">
+                <Building2 className="w-8 h-8 text-accent-foreground" />
+              </div>
+              <div>
+                <h1 className="text-3xl font-bold">Cyber Parc</h1>
+                <p className="text-primary-foreground/70">Intranet</p>
+              </div>
+            </div>
+            
+            <h2 className="text-4xl font-bold leading-tight mb-6">
+              Votre espace de<br />
+              collaboration<br />
+              <span className="text-accent">entreprises.</span>
+            </h2>
+            
+            <p className="text-lg text-primary-foreground/80 max-w-md">
+              Connectez-vous avec les entreprises du Cyber Parc, partagez vos idées et développez votre réseau professionnel.
+            </p>
+          </motion.div>
+          
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.4, duration: 0.6 }}
+            className="mt-12 flex items-center gap-6"
+          >
+            <div className="flex -space-x-3">
+              {[1, 2, 3, 4].map((i) => (
+                <div
+                  key={i}
+                  className="w-10 h-10 rounded-full bg-accent/20 border-2 border-primary flex items-center justify-center text-sm font-medium"
+                >
+                  {String.fromCharCode(64 + i)}
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-primary-foreground/70">
+              +50 entreprises actives
+            </p>
+          </motion.div>
+        </div>
+      </div>
+
+      {/* Right panel - Form */}
+      <div className="flex-1 flex items-center justify-center p-6 lg:p-12 bg-background">
+        <motion.div
+          initial={{ opacity: 0, x: 20 }}
+          animate={{ opacity: 1, x: 0 }}
+          transition={{ duration: 0.4 }}
+          className="w-full max-w-md"
+        >
+          {/* Mobile logo */}
+          <div className="lg:hidden flex items-center gap-3 mb-8 justify-center">
+            <div className="w-12 h-12 rounded-xl bg-primary flex items-center justify-center">
+              <Building2 className="w-6 h-6 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-foreground">Cyber Parc</h1>
+              <p className="text-xs text-muted-foreground">Intranet</p>
+            </div>
+          </div>
+
+          {children}
+        </motion.div>
+      </div>
+    </div>
+  );
+}
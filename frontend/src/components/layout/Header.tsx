@@ -1,11 +1,16 @@
 import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
   Bell,
   Search,
   Sun,
   Moon,
+  UserCog,
+  X,
+  FlaskConical,
 } from 'lucide-react';
+import type { InboxNotification, NotificationType } from '@cyberparc/shared';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -18,6 +23,8 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { useTheme } from '@/context/ThemeContext';
 import { useAuth } from '@/context/AuthContext';
+import { useInbox, useMarkNotificationsRead } from '@/hooks/queries/notifications';
+import { isDemoMode } from '@/lib/mock-api';
 import { cn } from '@/lib/utils';
 
 interface HeaderProps {
@@ -25,17 +32,41 @@ interface HeaderProps {
   subtitle?: string;
 }
 
-const notifications = [
-  { id: 1, title: 'Nouveau message', description: 'TechStart vous a envoyé un message', time: 'Il y a 5 min', unread: true },
-  { id: 2, title: 'Nouvelle entreprise', description: 'DataFlow a rejoint le Cyber Parc', time: 'Il y a 1h', unread: true },
-  { id: 3, title: 'Post populaire', description: 'Votre post a reçu 10 likes', time: 'Il y a 2h', unread: false },
-];
+const notificationTexts: Record<NotificationType, { title: string; describe: (notification: InboxNotification) => string }> = {
+  commentReply: {
+    title: 'Nouvelle réponse',
+    describe: ({ actor, postTitle }) =>
+      `${actor ?? 'Une entreprise'} a répondu à votre commentaire sur « ${postTitle ?? 'une publication'} »`,
+  },
+  mention: {
+    title: 'Nouvelle mention',
+    describe: ({ actor, postId, postTitle }) =>
+      `${actor ?? 'Une entreprise'} vous a mentionné ${
+        postId ? `dans « ${postTitle ?? 'une publication'} »` : 'dans un message'
+      }`,
+  },
+};
+
+// Forum post the notification is about, or else the conversation with the company behind it.
+const notificationPath = ({ postId, actorId }: InboxNotification) =>
+  postId ? `/forum?post=${postId}` : actorId ? `/messages?company=${actorId}` : null;
+
+const formatNotificationTime = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', { hour: '2-digit', minute: '2-digit', day: '2-digit', month: 'short' });
 
 export function Header({ title, subtitle }: HeaderProps) {
   const { theme, toggleTheme } = useTheme();
-  const { user } = useAuth();
+  const { user, impersonatedCompany, stopImpersonation } = useAuth();
   const [searchQuery, setSearchQuery] = useState('');
-  const unreadCount = notifications.filter((n) => n.unread).length;
+  const navigate = useNavigate();
+  const { data: notifications = [] } = useInbox();
+  const markNotificationsRead = useMarkNotificationsRead();
+  const unreadCount = notifications.filter((notification) => !notification.readAt).length;
+
+  // The "Nouveau" badges stay visible while the menu is open; closing it marks everything as read.
+  const handleNotificationsOpenChange = (open: boolean) => {
+    if (!open && unreadCount > 0) markNotificationsRead.mutate();
+  };
 
   return (
     <header className="h-16 bg-card/50 backdrop-blur-xl border-b border-border/50 sticky top-0 z-40">
@@ -76,12 +107,33 @@ export function Header({ title, subtitle }: HeaderProps) {
 
         {/* Actions */}
         <div className="flex items-center gap-2">
+          {isDemoMode() && (
+            <Badge variant="outline" className="gap-1 border-warning/40 bg-warning/10 text-warning">
+              <FlaskConical className="w-3 h-3" />
+              Mode démo
+            </Badge>
+          )}
+
           {user?.role && (
             <Button variant="outline" size="sm" className="gap-2 hidden sm:flex" disabled>
               <span className="capitalize">{user.role}</span>
             </Button>
           )}
 
+          {impersonatedCompany && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={stopImpersonation}
+              className="gap-2 border-warning/40 bg-warning/10 text-warning hover:bg-warning/20 hover:text-warning"
+            >
+              <UserCog className="w-4 h-4" />
+              <span className="hidden md:inline">En tant que</span>
+              <span className="font-semibold">{impersonatedCompany.name}</span>
+              <X className="w-3 h-3" />
+            </Button>
+          )}
+
           {/* Theme toggle */}
           <Button
             variant="ghost"
@@ -103,7 +155,7 @@ export function Header({ title, subtitle }: HeaderProps) {
           </Button>
 
           {/* Notifications */}
-          <DropdownMenu>
+          <DropdownMenu onOpenChange={handleNotificationsOpenChange}>
             <DropdownMenuTrigger asChild>
               <Button
                 variant="ghost"
@@ -127,36 +179,47 @@ export function Header({ title, subtitle }: HeaderProps) {
                 <h3 className="font-semibold text-foreground">Notifications</h3>
               </div>
               <div className="max-h-80 overflow-y-auto">
+                {notifications.length === 0 && (
+                  <p className="p-3 text-sm text-muted-foreground">Aucune notification pour le moment.</p>
+                )}
                 {notifications.map((notification) => (
                   <DropdownMenuItem
                     key={notification.id}
+                    onSelect={() => {
+                      const path = notificationPath(notification);
+                      if (path) navigate(path);
+                    }}
                     className={cn(
                       'flex flex-col items-start gap-1 p-3 cursor-pointer',
-                      notification.unread && 'bg-accent/5'
+                      !notification.readAt && 'bg-accent/5'
                     )}
                   >
                     <div className="flex items-center gap-2 w-full">
                       <span className="font-medium text-foreground text-sm">
-                        {notification.title}
+                        {notificationTexts[notification.type].title}
                       </span>
-                      {notification.unread && (
+                      {!notification.readAt && (
                         <Badge variant="secondary" className="ml-auto text-xs bg-accent/20 text-accent">
                           Nouveau
                         </Badge>
                       )}
                     </div>
                     <span className="text-sm text-muted-foreground">
-                      {notification.description}
+                      {notificationTexts[notification.type].describe(notification)}
                     </span>
                     <span className="text-xs text-muted-foreground/60">
-                      {notification.time}
+                      {formatNotificationTime(notification.createdAt)}
                     </span>
                   </DropdownMenuItem>
                 ))}
               </div>
               <DropdownMenuSeparator />
-              <DropdownMenuItem className="p-3 justify-center text-accent font-medium">
-                Voir toutes les notifications
+              <DropdownMenuItem
+                className="p-3 justify-center text-accent font-medium"
+                disabled={unreadCount === 0}
+                onSelect={() => markNotificationsRead.mutate()}
+              >
+                Tout marquer comme lu
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
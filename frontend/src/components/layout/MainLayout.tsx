@@ -2,8 +2,6 @@ import { ReactNode } from 'react';
 import { motion } from 'framer-motion';
 import { Sidebar } from './Sidebar';
 import { Header } from './Header';
-import { useAuth } from '@/context/AuthContext';
-import { Navigate } from 'react-router-dom';
 
 interface MainLayoutProps {
   children: ReactNode;
@@ -12,12 +10,6 @@ interface MainLayoutProps {
 }
 
 export function MainLayout({ children, title, subtitle }: MainLayoutProps) {
-  const { isAuthenticated } = useAuth();
-
-  if (!isAuthenticated) {
-    return <Navigate to="/auth" replace />;
-  }
-
   return (
     <div className="min-h-screen bg-background">
       <Sidebar />
@@ -28,6 +28,7 @@ const navItems = [
   { icon: MessageSquare, label: 'Forum', path: '/forum', roles: ['admin', 'company'] },
   { icon: Building2, label: 'Annuaire', path: '/directory', roles: ['admin', 'company'] },
   { icon: Mail, label: 'Messages', path: '/messages', roles: ['admin', 'company'] },
+  { icon: Users, label: 'Équipe', path: '/team', roles: ['admin', 'company'] },
   { icon: Shield, label: 'Administration', path: '/admin', roles: ['admin'] },
   { icon: Settings, label: 'Paramètres', path: '/settings', roles: ['admin', 'company'] },
 ];
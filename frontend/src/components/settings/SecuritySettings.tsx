@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import { minPasswordLength, type ActiveSession } from '@cyberparc/shared';
+import { KeyRound, Laptop, Loader2, LogOut, Save, Smartphone } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { TwoFactorSettings } from '@/components/settings/TwoFactorSettings';
+import { useAuth } from '@/context/AuthContext';
+import { useChangePassword, useRevokeOtherSessions, useRevokeSession, useSessions } from '@/hooks/queries/security';
+import { useToast } from '@/hooks/use-toast';
+
+const browsers: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const systems: Array<[RegExp, string]> = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+const describeDevice = (userAgent: string | null) => {
+  if (!userAgent) return 'Appareil inconnu';
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Navigateur';
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+  return system ? `${browser} sur ${system}` : browser;
+};
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+export function SecuritySettings() {
+  const { logout } = useAuth();
+  const { toast } = useToast();
+  const [passwords, setPasswords] = useState({ current: '', next: '', confirmation: '' });
+  const sessionsQuery = useSessions();
+  const changePassword = useChangePassword();
+  const revokeSession = useRevokeSession();
+  const revokeOtherSessions = useRevokeOtherSessions();
+
+  const showError = (title: string, error: unknown, fallback: string) => {
+    const message = error instanceof Error ? error.message : fallback;
+    toast({ title, description: message || fallback, variant: 'destructive' });
+  };
+
+  const handleChangePassword = () => {
+    if (passwords.next.length < minPasswordLength) {
+      toast({
+        title: 'Mot de passe trop court',
+        description: `Le nouveau mot de passe doit contenir au moins ${minPasswordLength} caractères.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (passwords.next !== passwords.confirmation) {
+      toast({
+        title: 'Confirmation incorrecte',
+        description: 'Les mots de passe ne correspondent pas.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    changePassword.mutate(
+      { currentPassword: passwords.current, newPassword: passwords.next },
+      {
+        onSuccess: () => {
+          setPasswords({ current: '', next: '', confirmation: '' });
+          toast({
+            title: 'Mot de passe modifié',
+            description: 'Vos autres sessions ont été déconnectées',
+          });
+        },
+        onError: (error) => showError('Modification impossible', error, 'Erreur lors du changement de mot de passe.'),
+      }
+    );
+  };
+
+  const handleRevoke = (session: ActiveSession) => {
+    revokeSession.mutate(session.id, {
+      onSuccess: () => {
+        if (session.current) {
+          logout();
+          return;
+        }
+        toast({ title: 'Session révoquée', description: `${describeDevice(session.userAgent)} a été déconnecté` });
+      },
+      onError: (error) => showError('Révocation impossible', error, 'Erreur lors de la révocation.'),
+    });
+  };
+
+  const handleRevokeOthers = () => {
+    revokeOtherSessions.mutate(undefined, {
+      onSuccess: (result) =>
+        toast({ title: 'Sessions révoquées', description: `${result.revoked} autre(s) session(s) déconnectée(s)` }),
+      onError: (error) => showError('Révocation impossible', error, 'Erreur lors de la révocation.'),
+    });
+  };
+
+  const sessions = sessionsQuery.data ?? [];
+  const otherSessions = sessions.filter((session) => !session.current).length;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Mot de passe</CardTitle>
+          <CardDescription>
+            Changer le mot de passe déconnecte vos autres appareils
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="current-password">Mot de passe actuel</Label>
+              <div className="relative">
+                <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="current-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={passwords.current}
+                  onChange={(e) => setPasswords({ ...passwords, current: e.target.value })}
+                  className="pl-10"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">Nouveau mot de passe</Label>
+              <Input
+                id="new-password"
+                type="password"
+                autoComplete="new-password"
+                value={passwords.next}
+                onChange={(e) => setPasswords({ ...passwords, next: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password-confirmation">Confirmer le mot de passe</Label>
+              <Input
+                id="new-password-confirmation"
+                type="password"
+                autoComplete="new-password"
+                value={passwords.confirmation}
+                onChange={(e) => setPasswords({ ...passwords, confirmation: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button
+              onClick={handleChangePassword}
+              disabled={changePassword.isPending || !passwords.current || !passwords.next}
+              className="gap-2 bg-accent hover:bg-accent/90 text-accent-foreground"
+            >
+              {changePassword.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+              Modifier le mot de passe
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <TwoFactorSettings />
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Sessions actives</CardTitle>
+            <CardDescription>
+              Appareils actuellement connectés à votre compte
+            </CardDescription>
+          </div>
+          {otherSessions > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRevokeOthers}
+              disabled={revokeOtherSessions.isPending}
+              className="gap-2"
+            >
+              <LogOut className="w-4 h-4" />
+              Déconnecter les autres
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {sessionsQuery.isPending ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : sessionsQuery.isError ? (
+            <div className="py-6 text-center">
+              <p className="text-sm text-muted-foreground mb-3">{sessionsQuery.error.message}</p>
+              <Button variant="outline" size="sm" onClick={() => sessionsQuery.refetch()}>
+                Réessayer
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {sessions.map((session, index) => {
+                const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Laptop;
+
+                return (
+                  <div key={session.id}>
+                    {index > 0 && <Separator className="mb-4" />}
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-3">
+                        <div className="w-10 h-10 rounded-lg bg-secondary flex items-center justify-center">
+                          <DeviceIcon className="w-5 h-5 text-muted-foreground" />
+                        </div>
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <h4 className="font-medium text-foreground">{describeDevice(session.userAgent)}</h4>
+                            {session.current && <Badge variant="secondary">Cette session</Badge>}
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                            Dernière activité le {formatDate(session.lastSeenAt)}
+                          </p>
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRevoke(session)}
+                        disabled={revokeSession.isPending && revokeSession.variables === session.id}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        {session.current ? 'Se déconnecter' : 'Révoquer'}
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+              {sessions.length === 0 && (
+                <p className="text-sm text-muted-foreground text-center py-4">Aucune session active.</p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
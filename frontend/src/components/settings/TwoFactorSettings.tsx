@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import type { TwoFactorSetup } from '@cyberparc/shared';
+import { Copy, Loader2, RefreshCw, ShieldCheck, ShieldOff } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { OtpCodeInput } from '@/components/OtpCodeInput';
+import {
+  useDisableTwoFactor,
+  useEnableTwoFactor,
+  useRegenerateRecoveryCodes,
+  useStartTwoFactorSetup,
+  useTwoFactorStatus,
+} from '@/hooks/queries/security';
+import { useToast } from '@/hooks/use-toast';
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const { data: status } = useTwoFactorStatus();
+  const startSetup = useStartTwoFactorSetup();
+  const enableTwoFactor = useEnableTwoFactor();
+  const regenerateRecoveryCodes = useRegenerateRecoveryCodes();
+  const disableTwoFactor = useDisableTwoFactor();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [password, setPassword] = useState('');
+
+  const showError = (title: string, error: unknown, fallback: string) => {
+    const message = error instanceof Error ? error.message : fallback;
+    toast({ title, description: message || fallback, variant: 'destructive' });
+  };
+
+  const isSubmitting =
+    startSetup.isPending || enableTwoFactor.isPending || regenerateRecoveryCodes.isPending || disableTwoFactor.isPending;
+
+  const handleStartSetup = () =>
+    startSetup.mutate(undefined, {
+      onSuccess: (result) => {
+        setSetup(result);
+        setCode('');
+      },
+      onError: (error) => showError('Activation impossible', error, 'Une erreur est survenue.'),
+    });
+
+  const handleEnable = (value = code) =>
+    enableTwoFactor.mutate(
+      { code: value },
+      {
+        onSuccess: (result) => {
+          setSetup(null);
+          setCode('');
+          setRecoveryCodes(result.recoveryCodes);
+          toast({ title: 'Double authentification activée', description: 'Conservez vos codes de récupération' });
+        },
+        onError: (error) => showError('Code invalide', error, 'Une erreur est survenue.'),
+      }
+    );
+
+  const handleRegenerate = (value = code) =>
+    regenerateRecoveryCodes.mutate(
+      { code: value },
+      {
+        onSuccess: (result) => {
+          setIsRegenerating(false);
+          setCode('');
+          setRecoveryCodes(result.recoveryCodes);
+        },
+        onError: (error) => showError('Code invalide', error, 'Une erreur est survenue.'),
+      }
+    );
+
+  const handleDisable = () =>
+    disableTwoFactor.mutate(
+      { password },
+      {
+        onSuccess: () => {
+          setIsDisabling(false);
+          setPassword('');
+          setRecoveryCodes(null);
+          toast({ title: 'Double authentification désactivée' });
+        },
+        onError: (error) => showError('Désactivation impossible', error, 'Une erreur est survenue.'),
+      }
+    );
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({ title: 'Codes copiés' });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Double authentification</CardTitle>
+          <CardDescription>
+            Un code de votre application d'authentification est demandé à chaque connexion
+          </CardDescription>
+        </div>
+        {status && (
+          <Badge variant={status.enabled ? 'default' : 'secondary'}>{status.enabled ? 'Activée' : 'Désactivée'}</Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!status && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {status?.required && !status.enabled && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              La double authentification est obligatoire pour les comptes administrateurs.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes && (
+          <div className="space-y-3 p-4 rounded-lg border border-warning/30 bg-warning/10">
+            <p className="text-sm font-medium text-foreground">
+              Codes de récupération : chacun ne peut servir qu'une fois. Ils ne seront plus affichés.
+            </p>
+            <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <code key={recoveryCode}>{recoveryCode}</code>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={copyRecoveryCodes} className="gap-2">
+                <Copy className="w-4 h-4" />
+                Copier
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                J'ai conservé mes codes
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {status && !status.enabled && !setup && (
+          <div className="flex justify-end">
+            <Button
+              onClick={handleStartSetup}
+              disabled={isSubmitting}
+              className="gap-2 bg-accent hover:bg-accent/90 text-accent-foreground"
+            >
+              <ShieldCheck className="w-4 h-4" />
+              Activer la double authentification
+            </Button>
+          </div>
+        )}
+
+        {setup && (
+          <div className="grid grid-cols-1 md:grid-cols-[auto,1fr] gap-6 items-center">
+            <img
+              src={setup.qrCode}
+              alt="QR code d'activation"
+              className="w-44 h-44 rounded-lg border border-border bg-white p-2"
+            />
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Scannez ce QR code avec votre application (Google Authenticator, 1Password, Authy…) ou saisissez la
+                clé manuellement :
+              </p>
+              <code className="block text-sm break-all p-2 rounded bg-secondary">{setup.secret}</code>
+              <div className="space-y-2">
+                <Label>Code de vérification</Label>
+                <OtpCodeInput value={code} onChange={setCode} onComplete={handleEnable} disabled={isSubmitting} />
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => handleEnable()}
+                  disabled={isSubmitting || code.length < 6}
+                  className="bg-accent hover:bg-accent/90 text-accent-foreground"
+                >
+                  Confirmer
+                </Button>
+                <Button variant="ghost" onClick={() => setSetup(null)}>
+                  Annuler
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {status?.enabled && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {status.recoveryCodesRemaining} code(s) de récupération restant(s).
+            </p>
+
+            {isRegenerating && (
+              <div className="space-y-2">
+                <Label>Code de votre application pour générer de nouveaux codes</Label>
+                <OtpCodeInput value={code} onChange={setCode} onComplete={handleRegenerate} disabled={isSubmitting} />
+              </div>
+            )}
+
+            {isDisabling && (
+              <div className="space-y-2 max-w-sm">
+                <Label htmlFor="two-factor-password">Mot de passe actuel</Label>
+                <Input
+                  id="two-factor-password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="flex flex-wrap justify-end gap-2">
+              {!isDisabling && (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setIsRegenerating(!isRegenerating);
+                    setCode('');
+                  }}
+                  className="gap-2"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                  {isRegenerating ? 'Annuler' : 'Nouveaux codes de récupération'}
+                </Button>
+              )}
+              {!status.required && !isRegenerating && (
+                <>
+                  {isDisabling && (
+                    <Button variant="ghost" onClick={() => setIsDisabling(false)}>
+                      Annuler
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={isDisabling ? handleDisable : () => setIsDisabling(true)}
+                    disabled={isSubmitting || (isDisabling && !password)}
+                    className="gap-2 text-destructive hover:text-destructive"
+                  >
+                    <ShieldOff className="w-4 h-4" />
+                    Désactiver
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
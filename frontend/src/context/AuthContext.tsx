@@ -1,7 +1,30 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
-import { apiFetch } from '@/lib/api';
-
-export type UserRole = 'admin' | 'company' | null;
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import {
+  isTwoFactorChallenge,
+  loginResponseSchema,
+  meResponseSchema,
+  okResponseSchema,
+  sessionResponseSchema,
+  type CompanyRole,
+  type LoginRequest,
+  type SessionResponse,
+  type SessionUser,
+  type TwoFactorLoginRequest,
+} from '@cyberparc/shared';
+import {
+  ApiError,
+  apiFetch,
+  IMPERSONATION_STORAGE_KEY,
+  ImpersonatedCompany,
+  isAbortError,
+  onUnauthorized,
+  readImpersonatedCompany,
+} from '@/lib/api';
+
+export type UserRole = SessionUser['role'] | null;
+
+export type { CompanyRole };
 
 export interface User {
   id: string;
@@ -10,15 +33,31 @@ export interface User {
   role: UserRole;
   companyId?: string | number | null;
   companyName?: string;
+  companyRole?: CompanyRole | null;
   avatar?: string;
+  twoFactorEnabled?: boolean;
 }
 
+export type LoginResult = { status: 'authenticated' } | { status: 'two_factor'; challengeToken: string };
+
 interface AuthContextType {
   user: User | null;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  isLoading: boolean;
+  // Why the stored session could not be checked (API unreachable, server error); the token is kept.
+  sessionError: Error | null;
+  retrySession: () => void;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
+  setTwoFactorEnabled: (enabled: boolean) => void;
+  twoFactorSetupRequired: boolean;
   logout: () => void;
   switchRole: (role: UserRole) => void;
+  impersonatedCompany: ImpersonatedCompany | null;
+  actingCompanyId: number | null;
+  companyRole: CompanyRole | null;
+  startImpersonation: (company: ImpersonatedCompany) => void;
+  stopImpersonation: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -28,55 +67,131 @@ const getDisplayName = (email: string) => {
   return namePart || email;
 };
 
-const isDemoAuthEnabled = () => {
-  const flag = import.meta.env.VITE_DEMO_AUTH;
-  return flag === undefined ? true : flag !== 'false';
-};
+const toUser = (sessionUser: SessionUser): User => ({
+  id: String(sessionUser.id),
+  email: sessionUser.email,
+  role: sessionUser.role,
+  companyId: sessionUser.companyId ?? null,
+  companyRole: sessionUser.companyRole ?? null,
+  twoFactorEnabled: !!sessionUser.twoFactorEnabled,
+  name: getDisplayName(sessionUser.email),
+  companyName:
+    sessionUser.role === 'company' ? sessionUser.companyName || getDisplayName(sessionUser.email) : undefined,
+});
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(() => !!localStorage.getItem('authToken'));
+  const [sessionError, setSessionError] = useState<Error | null>(null);
+  const [restoreAttempt, setRestoreAttempt] = useState(0);
+  const [impersonatedCompany, setImpersonatedCompany] = useState<ImpersonatedCompany | null>(readImpersonatedCompany);
+  const [isTwoFactorPolicyPending, setIsTwoFactorPolicyPending] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Cached API data belongs to whoever was signed in when it was fetched.
+  const startSession = (result: SessionResponse) => {
+    queryClient.clear();
+    localStorage.setItem('authToken', result.token);
+    setSessionError(null);
+    setUser(toUser(result.user));
+    setIsTwoFactorPolicyPending(!!result.twoFactorSetupRequired);
+  };
 
-  const login = async (email: string, password: string) => {
-    try {
-      const result = await apiFetch<{
-        token: string;
-        user: { id: string; email: string; role: UserRole; companyId?: string | number | null };
-      }>('/api/auth/login', {
-        method: 'POST',
-        body: JSON.stringify({ email, password }),
-      });
+  // Accounts with 2FA get a challenge token instead of a session; verifyTwoFactor completes the login.
+  const login = async (email: string, password: string): Promise<LoginResult> => {
+    stopImpersonation();
 
-      localStorage.setItem('authToken', result.token);
+    const result = await apiFetch('/api/auth/login', {
+      method: 'POST',
+      body: JSON.stringify({ email, password } satisfies LoginRequest),
+      schema: loginResponseSchema,
+    });
 
-      setUser({
-        id: result.user.id,
-        email: result.user.email,
-        role: result.user.role,
-        companyId: result.user.companyId ?? null,
-        name: getDisplayName(result.user.email),
-        companyName: result.user.role === 'company' ? getDisplayName(result.user.email) : undefined,
-      });
-    } catch (error) {
-      if (!isDemoAuthEnabled()) {
-        throw error;
-      }
-
-      const demoRole: UserRole = 'company';
-      localStorage.setItem('authToken', 'demo-token');
-      setUser({
-        id: `demo-${Date.now()}`,
-        email,
-        role: demoRole,
-        companyId: demoRole === 'company' ? 'demo-company' : null,
-        name: getDisplayName(email),
-        companyName: demoRole === 'company' ? getDisplayName(email) : undefined,
-      });
+    if (isTwoFactorChallenge(result)) {
+      return { status: 'two_factor', challengeToken: result.challengeToken };
     }
+
+    startSession(result);
+    return { status: 'authenticated' };
   };
 
-  const logout = () => {
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    const result = await apiFetch('/api/auth/login/2fa', {
+      method: 'POST',
+      body: JSON.stringify({ challengeToken, code } satisfies TwoFactorLoginRequest),
+      schema: sessionResponseSchema,
+    });
+
+    startSession(result);
+  };
+
+  const setTwoFactorEnabled = (enabled: boolean) => {
+    setUser((current) => (current ? { ...current, twoFactorEnabled: enabled } : current));
+  };
+
+  // Forget the session locally, without asking the API to revoke it.
+  const endSession = () => {
+    queryClient.clear();
     localStorage.removeItem('authToken');
+    stopImpersonation();
     setUser(null);
+    setSessionError(null);
+    setIsTwoFactorPolicyPending(false);
+  };
+
+  // Restore the session from the stored token so a page refresh keeps the user signed in. Only a 401
+  // means the token is no longer valid, and onUnauthorized already ends the session then; any other
+  // failure keeps the token so the user can retry once the API is back.
+  useEffect(() => {
+    if (!localStorage.getItem('authToken')) return;
+
+    const controller = new AbortController();
+
+    apiFetch('/api/auth/me', { schema: meResponseSchema, signal: controller.signal })
+      .then((result) => {
+        setUser(toUser(result.user));
+        setIsTwoFactorPolicyPending(!!result.twoFactorSetupRequired);
+      })
+      .catch((error) => {
+        if (isAbortError(error) || (error instanceof ApiError && error.status === 401)) return;
+        console.error('Failed to restore session', error);
+        setSessionError(error instanceof Error ? error : new Error(String(error)));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+
+    return () => controller.abort();
+  }, [restoreAttempt]);
+
+  const retrySession = () => {
+    setSessionError(null);
+    setIsLoading(true);
+    setRestoreAttempt((attempt) => attempt + 1);
+  };
+
+  // An expired or revoked token signs the user out wherever the rejected request came from.
+  useEffect(() => onUnauthorized(endSession), []);
+
+  const startImpersonation = (company: ImpersonatedCompany) => {
+    if (user?.role !== 'admin') return;
+    localStorage.setItem(IMPERSONATION_STORAGE_KEY, JSON.stringify(company));
+    setImpersonatedCompany(company);
+  };
+
+  const stopImpersonation = () => {
+    localStorage.removeItem(IMPERSONATION_STORAGE_KEY);
+    setImpersonatedCompany(null);
+  };
+
+  const logout = () => {
+    // Revoke the session server-side; the local sign-out must not wait for (or depend on) it.
+    if (localStorage.getItem('authToken')) {
+      apiFetch('/api/auth/logout', { method: 'POST', schema: okResponseSchema }).catch((error) => {
+        console.error('Failed to revoke session', error);
+      });
+    }
+    endSession();
   };
 
   const switchRole = (role: UserRole) => {
@@ -95,14 +210,34 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  const ownCompanyId = user?.companyId !== undefined && user?.companyId !== null ? Number(user.companyId) : NaN;
+  const actingCompanyId =
+    user?.role === 'admin' && impersonatedCompany
+      ? impersonatedCompany.id
+      : Number.isFinite(ownCompanyId)
+        ? ownCompanyId
+        : null;
+
   return (
     <AuthContext.Provider
       value={{
         user,
         isAuthenticated: !!user,
+        isLoading,
+        sessionError,
+        retrySession,
         login,
+        verifyTwoFactor,
+        setTwoFactorEnabled,
+        twoFactorSetupRequired: isTwoFactorPolicyPending && !!user && !user.twoFactorEnabled,
         logout,
         switchRole,
+        impersonatedCompany: user?.role === 'admin' ? impersonatedCompany : null,
+        actingCompanyId,
+        // Admins manage whichever company they act as with owner rights, mirroring the API.
+        companyRole: user?.role === 'admin' ? 'owner' : (user?.companyRole ?? null),
+        startImpersonation,
+        stopImpersonation,
       }}
     >
       {children}
@@ -0,0 +1,177 @@
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  adminCompaniesResponseSchema,
+  companySchema,
+  createCompanyResponseSchema,
+  deletedPostsResponseSchema,
+  deletedResponseSchema,
+  inviteCompanyResponseSchema,
+  loginAttemptsResponseSchema,
+  schemaDescriptionSchema,
+  securityPolicySchema,
+  type AdminCompany,
+  type CreateCompanyRequest,
+  type DeletedPost,
+  type SecurityPolicy,
+  type UpdateCompanyRequest,
+} from '@cyberparc/shared';
+import { apiFetch } from '@/lib/api';
+import { queryKeys } from './keys';
+
+// Companies show up in the admin list, the directory and the dashboard counters.
+const invalidateCompanies = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.adminCompanies });
+  queryClient.invalidateQueries({ queryKey: queryKeys.companies });
+  queryClient.invalidateQueries({ queryKey: queryKeys.dashboardSummary });
+};
+
+export const useAdminCompanies = ({ enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({
+    queryKey: queryKeys.adminCompanies,
+    queryFn: ({ signal }) => apiFetch('/api/admin/companies', { schema: adminCompaniesResponseSchema, signal }),
+    enabled,
+  });
+
+export const useCreateCompany = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CreateCompanyRequest) =>
+      apiFetch('/api/admin/companies', {
+        method: 'POST',
+        body: JSON.stringify(request),
+        schema: createCompanyResponseSchema,
+      }),
+    onSuccess: () => invalidateCompanies(queryClient),
+  });
+};
+
+export const useUpdateCompany = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...request }: UpdateCompanyRequest & { id: number }) =>
+      apiFetch(`/api/admin/companies/${id}`, { method: 'PUT', body: JSON.stringify(request), schema: companySchema }),
+    onSuccess: () => invalidateCompanies(queryClient),
+  });
+};
+
+export const useDeleteCompany = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (companyId: number) =>
+      apiFetch(`/api/admin/companies/${companyId}`, { method: 'DELETE', schema: deletedResponseSchema }),
+    onMutate: async (companyId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.adminCompanies });
+      const previous = queryClient.getQueryData<AdminCompany[]>(queryKeys.adminCompanies);
+      queryClient.setQueryData<AdminCompany[]>(queryKeys.adminCompanies, (companies) =>
+        companies?.filter((company) => company.id !== companyId)
+      );
+      return { previous };
+    },
+    onError: (_error, _companyId, context) => {
+      queryClient.setQueryData(queryKeys.adminCompanies, context?.previous);
+    },
+    onSettled: () => invalidateCompanies(queryClient),
+  });
+};
+
+export const useInviteCompany = () =>
+  useMutation({
+    mutationFn: (companyId: number) =>
+      apiFetch(`/api/admin/companies/${companyId}/invite`, { method: 'POST', schema: inviteCompanyResponseSchema }),
+  });
+
+// Restoring or purging a post changes the trash, and restoring also the feed and the dashboard.
+const invalidatePosts = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.deletedPosts });
+  queryClient.invalidateQueries({ queryKey: queryKeys.forumPosts });
+  queryClient.invalidateQueries({ queryKey: queryKeys.dashboardSummary });
+};
+
+export const useDeletedPosts = ({ enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({
+    queryKey: queryKeys.deletedPosts,
+    queryFn: ({ signal }) => apiFetch('/api/admin/posts/trash', { schema: deletedPostsResponseSchema, signal }),
+    enabled,
+  });
+
+export const useRestorePost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (postId: number) =>
+      apiFetch(`/api/admin/posts/${postId}/restore`, { method: 'POST', schema: deletedResponseSchema }),
+    onSuccess: () => invalidatePosts(queryClient),
+  });
+};
+
+export const usePurgePost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (postId: number) =>
+      apiFetch(`/api/admin/posts/${postId}`, { method: 'DELETE', schema: deletedResponseSchema }),
+    onMutate: async (postId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.deletedPosts });
+      const previous = queryClient.getQueryData<DeletedPost[]>(queryKeys.deletedPosts);
+      queryClient.setQueryData<DeletedPost[]>(queryKeys.deletedPosts, (posts) =>
+        posts?.filter((post) => post.id !== postId)
+      );
+      return { previous };
+    },
+    onError: (_error, _postId, context) => {
+      queryClient.setQueryData(queryKeys.deletedPosts, context?.previous);
+    },
+    onSettled: () => invalidatePosts(queryClient),
+  });
+};
+
+export const useSecurityPolicy = ({ enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({
+    queryKey: queryKeys.securityPolicy,
+    queryFn: ({ signal }) => apiFetch('/api/admin/security-policy', { schema: securityPolicySchema, signal }),
+    enabled,
+  });
+
+export const useUpdateSecurityPolicy = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (policy: SecurityPolicy) =>
+      apiFetch('/api/admin/security-policy', {
+        method: 'PUT',
+        body: JSON.stringify(policy),
+        schema: securityPolicySchema,
+      }),
+    onSuccess: (policy) => {
+      queryClient.setQueryData(queryKeys.securityPolicy, policy);
+    },
+  });
+};
+
+export const useFailedLoginAttempts = () =>
+  useQuery({
+    queryKey: queryKeys.loginAttempts,
+    queryFn: ({ signal }) =>
+      apiFetch('/api/admin/login-attempts?status=failed&limit=50', { schema: loginAttemptsResponseSchema, signal }),
+  });
+
+export const useSchemaDescription = () =>
+  useQuery({
+    queryKey: queryKeys.schemaDescription,
+    queryFn: ({ signal }) => apiFetch('/api/admin/schema', { schema: schemaDescriptionSchema, signal }),
+  });
+
+// The API keeps the schema it read at startup until asked to read it again.
+export const useRefreshSchema = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => apiFetch('/api/admin/schema/refresh', { method: 'POST', schema: schemaDescriptionSchema }),
+    onSuccess: (schema) => {
+      queryClient.setQueryData(queryKeys.schemaDescription, schema);
+    },
+  });
+};
@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { companiesResponseSchema } from '@cyberparc/shared';
+import { apiFetch } from '@/lib/api';
+import { queryKeys } from './keys';
+
+export const useCompanies = ({ enabled = true }: { enabled?: boolean } = {}) =>
+  useQuery({
+    queryKey: queryKeys.companies,
+    queryFn: ({ signal }) => apiFetch('/api/companies', { schema: companiesResponseSchema, signal }),
+    enabled,
+  });
@@ -0,0 +1,10 @@
+import { useQuery } from '@tanstack/react-query';
+import { summarySchema } from '@cyberparc/shared';
+import { apiFetch } from '@/lib/api';
+import { queryKeys } from './keys';
+
+export const useDashboardSummary = () =>
+  useQuery({
+    queryKey: queryKeys.dashboardSummary,
+    queryFn: ({ signal }) => apiFetch('/api/dashboard/summary', { schema: summarySchema, signal }),
+  });
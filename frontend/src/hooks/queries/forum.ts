@@ -0,0 +1,350 @@
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  commentRevisionsResponseSchema,
+  createCommentResponseSchema,
+  deletedResponseSchema,
+  forumCommentSchema,
+  forumCommentsResponseSchema,
+  forumPostSchema,
+  forumPostsResponseSchema,
+  postRevisionsResponseSchema,
+  reactionsResponseSchema,
+  type CreateCommentRequest,
+  type CreatePostRequest,
+  type ForumComment,
+  type ForumPost,
+  type ReactionSummary,
+  type ReactionType,
+  type Summary,
+  type UpdateCommentRequest,
+  type UpdatePostRequest,
+} from '@cyberparc/shared';
+import { useAuth } from '@/context/AuthContext';
+import { apiFetch } from '@/lib/api';
+import { queryKeys } from './keys';
+
+// Optimistic entries get a negative id until the API returns the real one.
+const temporaryId = () => -Date.now();
+
+export const useForumPosts = () =>
+  useQuery({
+    queryKey: queryKeys.forumPosts,
+    queryFn: ({ signal }) => apiFetch('/api/forum/posts', { schema: forumPostsResponseSchema, signal }),
+  });
+
+export const useComments = (postId: number | null) =>
+  useQuery({
+    queryKey: queryKeys.comments(postId ?? 0),
+    queryFn: ({ signal }) =>
+      apiFetch(`/api/forum/posts/${postId}/comments`, { schema: forumCommentsResponseSchema, signal }),
+    enabled: postId !== null,
+  });
+
+// The posting company as the API will report it, for optimistic entries.
+const useActingCompany = () => {
+  const { user, impersonatedCompany, actingCompanyId } = useAuth();
+  return { id: actingCompanyId ?? 0, name: impersonatedCompany?.name || user?.companyName || '' };
+};
+
+export const useCreatePost = () => {
+  const queryClient = useQueryClient();
+  const company = useActingCompany();
+
+  return useMutation({
+    mutationFn: (request: CreatePostRequest) =>
+      apiFetch('/api/forum/posts', { method: 'POST', body: JSON.stringify(request), schema: forumPostSchema }),
+    onMutate: async (request) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.forumPosts });
+      const previous = queryClient.getQueryData<ForumPost[]>(queryKeys.forumPosts);
+      const optimistic: ForumPost = {
+        id: temporaryId(),
+        title: request.title,
+        content: request.content ?? '',
+        mentions: [],
+        category: request.category ?? null,
+        createdAt: new Date().toISOString(),
+        company: company.name,
+        companyId: company.id,
+        comments: 0,
+        likes: 0,
+        liked: false,
+        reactions: [],
+        isPinned: false,
+        pinnedUntil: null,
+        isAnnouncement: false,
+        editedAt: null,
+      };
+      queryClient.setQueryData<ForumPost[]>(queryKeys.forumPosts, (posts) => (posts ? [optimistic, ...posts] : posts));
+      return { previous };
+    },
+    onError: (_error, _request, context) => {
+      queryClient.setQueryData(queryKeys.forumPosts, context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.forumPosts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardSummary });
+    },
+  });
+};
+
+// Edits and pins change both the forum feed and the dashboard's recent posts.
+export const useUpdatePost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...request }: UpdatePostRequest & { id: number }) =>
+      apiFetch(`/api/forum/posts/${id}`, { method: 'PATCH', body: JSON.stringify(request), schema: forumPostSchema }),
+    onSuccess: (post) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.forumPosts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardSummary });
+      queryClient.invalidateQueries({ queryKey: queryKeys.postRevisions(post.id) });
+    },
+  });
+};
+
+// Earlier versions are only served to admins.
+export const usePostRevisions = (postId: number, { enabled = true } = {}) =>
+  useQuery({
+    queryKey: queryKeys.postRevisions(postId),
+    queryFn: ({ signal }) =>
+      apiFetch(`/api/forum/posts/${postId}/revisions`, { schema: postRevisionsResponseSchema, signal }),
+    enabled,
+  });
+
+export const useCommentRevisions = (commentId: number, { enabled = true } = {}) =>
+  useQuery({
+    queryKey: queryKeys.commentRevisions(commentId),
+    queryFn: ({ signal }) =>
+      apiFetch(`/api/forum/comments/${commentId}/revisions`, { schema: commentRevisionsResponseSchema, signal }),
+    enabled,
+  });
+
+export const useDeletePost = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (postId: number) =>
+      apiFetch(`/api/forum/posts/${postId}`, { method: 'DELETE', schema: deletedResponseSchema }),
+    onMutate: async (postId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.forumPosts });
+      const previous = queryClient.getQueryData<ForumPost[]>(queryKeys.forumPosts);
+      queryClient.setQueryData<ForumPost[]>(queryKeys.forumPosts, (posts) =>
+        posts?.filter((post) => post.id !== postId)
+      );
+      return { previous };
+    },
+    onError: (_error, _postId, context) => {
+      queryClient.setQueryData(queryKeys.forumPosts, context?.previous);
+    },
+    onSettled: (_result, _error, postId) => {
+      queryClient.removeQueries({ queryKey: queryKeys.comments(postId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.forumPosts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardSummary });
+      queryClient.invalidateQueries({ queryKey: queryKeys.deletedPosts });
+    },
+  });
+};
+
+// Replies carry the id of the comment they answer, so the optimistic entry lands in its thread.
+type CreateCommentVariables = CreateCommentRequest & { parentId?: number };
+
+export const useCreateComment = (postId: number) => {
+  const queryClient = useQueryClient();
+  const company = useActingCompany();
+
+  return useMutation({
+    mutationFn: (request: CreateCommentVariables) =>
+      apiFetch(`/api/forum/posts/${postId}/comments`, {
+        method: 'POST',
+        body: JSON.stringify(request),
+        schema: createCommentResponseSchema,
+      }),
+    onMutate: async (request) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.comments(postId) });
+      const previous = queryClient.getQueryData<ForumComment[]>(queryKeys.comments(postId));
+      const optimistic: ForumComment = {
+        id: temporaryId(),
+        content: request.content,
+        mentions: [],
+        createdAt: new Date().toISOString(),
+        companyId: company.id,
+        company: company.name,
+        reactions: [],
+        editedAt: null,
+        parentId: request.parentId ?? null,
+      };
+      queryClient.setQueryData<ForumComment[]>(queryKeys.comments(postId), (comments) => [...(comments ?? []), optimistic]);
+      return { previous };
+    },
+    onError: (_error, _request, context) => {
+      queryClient.setQueryData(queryKeys.comments(postId), context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.comments(postId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.forumPosts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardSummary });
+    },
+  });
+};
+
+export const useUpdateComment = (postId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, ...request }: UpdateCommentRequest & { id: number }) =>
+      apiFetch(`/api/forum/comments/${id}`, { method: 'PATCH', body: JSON.stringify(request), schema: forumCommentSchema }),
+    onSuccess: (comment) => {
+      queryClient.setQueryData<ForumComment[]>(queryKeys.comments(postId), (comments) =>
+        comments?.map((item) => (item.id === comment.id ? comment : item))
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.commentRevisions(comment.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardSummary });
+    },
+  });
+};
+
+export const useDeleteComment = (postId: number) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (commentId: number) =>
+      apiFetch(`/api/forum/comments/${commentId}`, { method: 'DELETE', schema: deletedResponseSchema }),
+    onMutate: async (commentId) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.comments(postId) });
+      const previous = queryClient.getQueryData<ForumComment[]>(queryKeys.comments(postId));
+      // Replies to the deleted comment move up to the top level, as the API does.
+      queryClient.setQueryData<ForumComment[]>(queryKeys.comments(postId), (comments) =>
+        comments
+          ?.filter((comment) => comment.id !== commentId)
+          .map((comment) => (comment.parentId === commentId ? { ...comment, parentId: null } : comment))
+      );
+      return { previous };
+    },
+    onError: (_error, _commentId, context) => {
+      queryClient.setQueryData(queryKeys.comments(postId), context?.previous);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.comments(postId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.forumPosts });
+      queryClient.invalidateQueries({ queryKey: queryKeys.dashboardSummary });
+    },
+  });
+};
+
+// The reactions of a post or comment once the caller's reaction of `type` is added or removed.
+const applyReaction = (
+  reactions: ReactionSummary[],
+  type: ReactionType,
+  reacted: boolean,
+  companyName: string
+): ReactionSummary[] => {
+  const current = reactions.find((reaction) => reaction.type === type);
+  if ((current?.reacted ?? false) === reacted) return reactions;
+
+  const count = (current?.count ?? 0) + (reacted ? 1 : -1);
+  const companies = current?.companies ?? [];
+  const others = reactions.filter((reaction) => reaction.type !== type);
+  if (count <= 0) return others;
+
+  return [
+    ...others,
+    {
+      type,
+      count,
+      reacted,
+      companies: reacted && companyName && !companies.includes(companyName) ? [...companies, companyName] : companies,
+    },
+  ];
+};
+
+const likesOf = (reactions: ReactionSummary[]) => {
+  const like = reactions.find((reaction) => reaction.type === 'like');
+  return { likes: like?.count ?? 0, liked: like?.reacted ?? false };
+};
+
+// Posts are listed both by the forum and in the dashboard summary, which only knows about likes.
+const setPostReactions = (queryClient: QueryClient, id: number, reactions: ReactionSummary[]) => {
+  queryClient.setQueryData<ForumPost[]>(queryKeys.forumPosts, (posts) =>
+    posts?.map((post) => (post.id === id ? { ...post, ...likesOf(reactions), reactions } : post))
+  );
+  queryClient.setQueryData<Summary>(queryKeys.dashboardSummary, (summary) =>
+    summary && {
+      ...summary,
+      recentPosts: summary.recentPosts.map((post) => (post.id === id ? { ...post, ...likesOf(reactions) } : post)),
+    }
+  );
+};
+
+interface ReactionVariables {
+  id: number;
+  type: ReactionType;
+  reacted: boolean;
+}
+
+const reactionRequest = (path: string, { type, reacted }: ReactionVariables) =>
+  apiFetch(`${path}/reactions/${type}`, { method: reacted ? 'POST' : 'DELETE', schema: reactionsResponseSchema });
+
+export const useTogglePostReaction = () => {
+  const queryClient = useQueryClient();
+  const company = useActingCompany();
+
+  return useMutation({
+    mutationFn: (variables: ReactionVariables) => reactionRequest(`/api/forum/posts/${variables.id}`, variables),
+    onMutate: async ({ id, type, reacted }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.forumPosts });
+      await queryClient.cancelQueries({ queryKey: queryKeys.dashboardSummary });
+      const previousPosts = queryClient.getQueryData<ForumPost[]>(queryKeys.forumPosts);
+      const previousSummary = queryClient.getQueryData<Summary>(queryKeys.dashboardSummary);
+
+      queryClient.setQueryData<ForumPost[]>(queryKeys.forumPosts, (posts) =>
+        posts?.map((post) => {
+          if (post.id !== id) return post;
+          const reactions = applyReaction(post.reactions, type, reacted, company.name);
+          return { ...post, ...likesOf(reactions), reactions };
+        })
+      );
+      if (type === 'like') {
+        queryClient.setQueryData<Summary>(queryKeys.dashboardSummary, (summary) =>
+          summary && {
+            ...summary,
+            recentPosts: summary.recentPosts.map((post) =>
+              post.id === id && post.liked !== reacted
+                ? { ...post, likes: post.likes + (reacted ? 1 : -1), liked: reacted }
+                : post
+            ),
+          }
+        );
+      }
+      return { previousPosts, previousSummary };
+    },
+    onSuccess: ({ id, reactions }) => setPostReactions(queryClient, id, reactions),
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(queryKeys.forumPosts, context?.previousPosts);
+      queryClient.setQueryData(queryKeys.dashboardSummary, context?.previousSummary);
+    },
+  });
+};
+
+export const useToggleCommentReaction = (postId: number) => {
+  const queryClient = useQueryClient();
+  const company = useActingCompany();
+
+  const setReactions = (id: number, update: (reactions: ReactionSummary[]) => ReactionSummary[]) =>
+    queryClient.setQueryData<ForumComment[]>(queryKeys.comments(postId), (comments) =>
+      comments?.map((comment) => (comment.id === id ? { ...comment, reactions: update(comment.reactions) } : comment))
+    );
+
+  return useMutation({
+    mutationFn: (variables: ReactionVariables) => reactionRequest(`/api/forum/comments/${variables.id}`, variables),
+    onMutate: async ({ id, type, reacted }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.comments(postId) });
+      const previous = queryClient.getQueryData<ForumComment[]>(queryKeys.comments(postId));
+      setReactions(id, (reactions) => applyReaction(reactions, type, reacted, company.name));
+      return { previous };
+    },
+    onSuccess: ({ id, reactions }) => setReactions(id, () => reactions),
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData(queryKeys.comments(postId), context?.previous);
+    },
+  });
+};
@@ -0,0 +1,24 @@
+// Cache keys shared by every page: one fetch of a resource serves them all, and a mutation
+// invalidates it everywhere. Data that depends on the acting company is keyed by it.
+export const queryKeys = {
+  companies: ['companies'] as const,
+  forumPosts: ['forum', 'posts'] as const,
+  comments: (postId: number) => ['forum', 'comments', postId] as const,
+  postRevisions: (postId: number) => ['forum', 'revisions', 'post', postId] as const,
+  commentRevisions: (commentId: number) => ['forum', 'revisions', 'comment', commentId] as const,
+  messages: (companyId: number | null) => ['messages', companyId] as const,
+  inbox: (companyId: number | null) => ['notifications', companyId] as const,
+  dashboardSummary: ['dashboard', 'summary'] as const,
+  profiles: ['profile'] as const,
+  profile: (companyId: number | null) => ['profile', companyId] as const,
+  notifications: ['settings', 'notifications'] as const,
+  teams: ['team'] as const,
+  team: (companyId: number | null) => ['team', companyId] as const,
+  sessions: ['auth', 'sessions'] as const,
+  twoFactor: ['auth', '2fa'] as const,
+  adminCompanies: ['admin', 'companies'] as const,
+  deletedPosts: ['admin', 'posts', 'trash'] as const,
+  securityPolicy: ['admin', 'security-policy'] as const,
+  loginAttempts: ['admin', 'login-attempts'] as const,
+  schemaDescription: ['admin', 'schema'] as const,
+};
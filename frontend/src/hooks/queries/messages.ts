@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  messageSchema,
+  messagesResponseSchema,
+  type ConversationMessage,
+  type SendMessageRequest,
+} from '@cyberparc/shared';
+import { useAuth } from '@/context/AuthContext';
+import { apiFetch } from '@/lib/api';
+import { queryKeys } from './keys';
+
+// Messages of the acting company; companyId only keys the cache, the API reads it from the session.
+export const useMessages = (companyId: number | null) =>
+  useQuery({
+    queryKey: queryKeys.messages(companyId),
+    queryFn: ({ signal }) => apiFetch('/api/messages', { schema: messagesResponseSchema, signal }),
+    enabled: !!companyId,
+  });
+
+interface SendMessageVariables extends SendMessageRequest {
+  // Shown on the optimistic entry until the API confirms the message.
+  receiverName: string;
+}
+
+export const useSendMessage = (companyId: number | null) => {
+  const queryClient = useQueryClient();
+  const { user, impersonatedCompany } = useAuth();
+  const queryKey = queryKeys.messages(companyId);
+  const senderName = impersonatedCompany?.name || user?.companyName || 'Moi';
+
+  return useMutation({
+    mutationFn: ({ receiverCompanyId, content }: SendMessageVariables) =>
+      apiFetch('/api/messages', {
+        method: 'POST',
+        body: JSON.stringify({ receiverCompanyId, content } satisfies SendMessageRequest),
+        schema: messageSchema,
+      }),
+    onMutate: async ({ receiverCompanyId, content, receiverName }) => {
+      await queryClient.cancelQueries({ queryKey });
+      const optimistic: ConversationMessage = {
+        id: -Date.now(),
+        senderCompanyId: companyId ?? 0,
+        receiverCompanyId: Number(receiverCompanyId),
+        content,
+        mentions: [],
+        createdAt: new Date().toISOString(),
+        senderName,
+        receiverName,
+      };
+      queryClient.setQueryData<ConversationMessage[]>(queryKey, (messages) => [...(messages ?? []), optimistic]);
+      return { optimisticId: optimistic.id };
+    },
+    onSuccess: (created, { receiverName }, context) => {
+      queryClient.setQueryData<ConversationMessage[]>(queryKey, (messages) =>
+        messages?.map((message) =>
+          message.id === context?.optimisticId ? { ...created, senderName, receiverName } : message
+        )
+      );
+    },
+    onError: (_error, _variables, context) => {
+      queryClient.setQueryData<ConversationMessage[]>(queryKey, (messages) =>
+        messages?.filter((message) => message.id !== context?.optimisticId)
+      );
+    },
+  });
+};
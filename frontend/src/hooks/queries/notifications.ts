@@ -0,0 +1,33 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { inboxResponseSchema, okResponseSchema, type InboxNotification } from '@cyberparc/shared';
+import { useAuth } from '@/context/AuthContext';
+import { apiFetch } from '@/lib/api';
+import { queryKeys } from './keys';
+
+// Notifications of the acting company, refreshed every minute while the app is open.
+export const useInbox = () => {
+  const { user, actingCompanyId } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.inbox(actingCompanyId),
+    queryFn: ({ signal }) => apiFetch('/api/notifications', { schema: inboxResponseSchema, signal }),
+    enabled: !!user,
+    refetchInterval: 60_000,
+  });
+};
+
+export const useMarkNotificationsRead = () => {
+  const queryClient = useQueryClient();
+  const { actingCompanyId } = useAuth();
+
+  return useMutation({
+    mutationFn: () => apiFetch('/api/notifications/read', { method: 'POST', schema: okResponseSchema }),
+    onMutate: () => {
+      const readAt = new Date().toISOString();
+      queryClient.setQueryData<InboxNotification[]>(queryKeys.inbox(actingCompanyId), (notifications) =>
+        notifications?.map((notification) => ({ ...notification, readAt: notification.readAt ?? readAt }))
+      );
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.inbox(actingCompanyId) }),
+  });
+};
@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  notificationsResponseSchema,
+  profileSchema,
+  updateProfileResponseSchema,
+  type Notifications,
+  type UpdateProfileRequest,
+} from '@cyberparc/shared';
+import { useAuth } from '@/context/AuthContext';
+import { apiFetch } from '@/lib/api';
+import { queryKeys } from './keys';
+
+// The caller's profile together with the company they act for.
+export const useProfile = () => {
+  const { user, actingCompanyId } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.profile(actingCompanyId),
+    queryFn: ({ signal }) => apiFetch('/api/profile', { schema: profileSchema, signal }),
+    enabled: !!user,
+  });
+};
+
+export const useUpdateProfile = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: UpdateProfileRequest) =>
+      apiFetch('/api/profile', { method: 'PUT', body: JSON.stringify(request), schema: updateProfileResponseSchema }),
+    onSuccess: (_result, request) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.profiles });
+      // The company profile also feeds the directory and the admin list.
+      if (request.company) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.companies });
+        queryClient.invalidateQueries({ queryKey: queryKeys.adminCompanies });
+      }
+    },
+  });
+};
+
+export const useNotifications = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.notifications,
+    queryFn: ({ signal }) => apiFetch('/api/settings/notifications', { schema: notificationsResponseSchema, signal }),
+    select: (data) => data.notifications,
+    enabled: !!user,
+  });
+};
+
+export const useUpdateNotifications = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (notifications: Notifications) =>
+      apiFetch('/api/settings/notifications', {
+        method: 'PUT',
+        body: JSON.stringify({ notifications }),
+        schema: notificationsResponseSchema,
+      }),
+    onSuccess: (result) => {
+      queryClient.setQueryData(queryKeys.notifications, result);
+    },
+  });
+};
@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  activeSessionsResponseSchema,
+  okResponseSchema,
+  recoveryCodesResponseSchema,
+  revokeSessionResponseSchema,
+  revokeSessionsResponseSchema,
+  twoFactorSetupSchema,
+  twoFactorStatusSchema,
+  type ChangePasswordRequest,
+  type DisableTwoFactorRequest,
+  type TwoFactorCodeRequest,
+} from '@cyberparc/shared';
+import { useAuth } from '@/context/AuthContext';
+import { apiFetch } from '@/lib/api';
+import { queryKeys } from './keys';
+
+export const useSessions = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.sessions,
+    queryFn: ({ signal }) => apiFetch('/api/auth/sessions', { schema: activeSessionsResponseSchema, signal }),
+    enabled: !!user,
+  });
+};
+
+// Changing the password signs out every other session.
+export const useChangePassword = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: ChangePasswordRequest) =>
+      apiFetch('/api/auth/change-password', {
+        method: 'POST',
+        body: JSON.stringify(request),
+        schema: okResponseSchema,
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.sessions }),
+  });
+};
+
+export const useRevokeSession = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (sessionId: string) =>
+      apiFetch(`/api/auth/sessions/${sessionId}`, { method: 'DELETE', schema: revokeSessionResponseSchema }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.sessions }),
+  });
+};
+
+export const useRevokeOtherSessions = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => apiFetch('/api/auth/sessions', { method: 'DELETE', schema: revokeSessionsResponseSchema }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.sessions }),
+  });
+};
+
+export const useTwoFactorStatus = () => {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.twoFactor,
+    queryFn: ({ signal }) => apiFetch('/api/auth/2fa', { schema: twoFactorStatusSchema, signal }),
+    enabled: !!user,
+  });
+};
+
+// Returns a new secret and QR code; two-factor stays off until useEnableTwoFactor confirms a code.
+export const useStartTwoFactorSetup = () =>
+  useMutation({
+    mutationFn: () => apiFetch('/api/auth/2fa/setup', { method: 'POST', schema: twoFactorSetupSchema }),
+  });
+
+export const useEnableTwoFactor = () => {
+  const queryClient = useQueryClient();
+  const { setTwoFactorEnabled } = useAuth();
+
+  return useMutation({
+    mutationFn: (request: TwoFactorCodeRequest) =>
+      apiFetch('/api/auth/2fa/enable', {
+        method: 'POST',
+        body: JSON.stringify(request),
+        schema: recoveryCodesResponseSchema,
+      }),
+    onSuccess: () => {
+      setTwoFactorEnabled(true);
+      queryClient.invalidateQueries({ queryKey: queryKeys.twoFactor });
+    },
+  });
+};
+
+export const useRegenerateRecoveryCodes = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: TwoFactorCodeRequest) =>
+      apiFetch('/api/auth/2fa/recovery-codes', {
+        method: 'POST',
+        body: JSON.stringify(request),
+        schema: recoveryCodesResponseSchema,
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.twoFactor }),
+  });
+};
+
+export const useDisableTwoFactor = () => {
+  const queryClient = useQueryClient();
+  const { setTwoFactorEnabled } = useAuth();
+
+  return useMutation({
+    mutationFn: (request: DisableTwoFactorRequest) =>
+      apiFetch('/api/auth/2fa/disable', {
+        method: 'POST',
+        body: JSON.stringify(request),
+        schema: okResponseSchema,
+      }),
+    onSuccess: () => {
+      setTwoFactorEnabled(false);
+      queryClient.invalidateQueries({ queryKey: queryKeys.twoFactor });
+    },
+  });
+};
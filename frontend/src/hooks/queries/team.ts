@@ -0,0 +1,68 @@
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  deletedResponseSchema,
+  inviteMemberResponseSchema,
+  teamResponseSchema,
+  updateMemberRoleResponseSchema,
+  type InviteMemberRequest,
+  type UpdateMemberRoleRequest,
+} from '@cyberparc/shared';
+import { useAuth } from '@/context/AuthContext';
+import { apiFetch } from '@/lib/api';
+import { queryKeys } from './keys';
+
+// Members of the acting company; companyId only keys the cache, the API reads it from the session.
+export const useTeam = () => {
+  const { user, actingCompanyId } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.team(actingCompanyId),
+    queryFn: ({ signal }) => apiFetch('/api/team', { schema: teamResponseSchema, signal }),
+    enabled: !!user,
+  });
+};
+
+// The team size is also the employee count of the directory, the admin list and the dashboard.
+const invalidateTeam = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.teams });
+  queryClient.invalidateQueries({ queryKey: queryKeys.companies });
+  queryClient.invalidateQueries({ queryKey: queryKeys.adminCompanies });
+  queryClient.invalidateQueries({ queryKey: queryKeys.dashboardSummary });
+};
+
+export const useInviteMember = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: InviteMemberRequest) =>
+      apiFetch('/api/team/invitations', {
+        method: 'POST',
+        body: JSON.stringify(request),
+        schema: inviteMemberResponseSchema,
+      }),
+    onSuccess: () => invalidateTeam(queryClient),
+  });
+};
+
+export const useUpdateMemberRole = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ userId, ...request }: UpdateMemberRoleRequest & { userId: number }) =>
+      apiFetch(`/api/team/${userId}`, {
+        method: 'PATCH',
+        body: JSON.stringify(request),
+        schema: updateMemberRoleResponseSchema,
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.teams }),
+  });
+};
+
+export const useRemoveMember = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: number) => apiFetch(`/api/team/${userId}`, { method: 'DELETE', schema: deletedResponseSchema }),
+    onSuccess: () => invalidateTeam(queryClient),
+  });
+};
@@ -1,8 +1,197 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import { errorResponseSchema, type FieldErrors } from '@cyberparc/shared';
+import { isDemoMode, mockApiFetch } from '@/lib/mock-api';
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8080';
 
-export async function apiFetch<T>(path: string, options: RequestInit = {}): Promise<T> {
+export const IMPERSONATION_STORAGE_KEY = 'impersonatedCompany';
+
+const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// GETs are retried by default; other methods only run once since they may not be idempotent.
+const DEFAULT_GET_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 300;
+
+// A failed request. status is 0 when the API could not be reached at all.
+export class ApiError extends Error {
+  status: number;
+  body: unknown;
+  code: string | null;
+  // Per-field messages of a rejected request (422), keyed by dotted path such as "user.email".
+  fieldErrors: FieldErrors;
+  // Id the API logged the request under, to quote when reporting a problem.
+  requestId: string | null;
+
+  constructor(message: string, status: number, body: unknown = null, requestId: string | null = null) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.body = body;
+
+    const parsed = errorResponseSchema.safeParse(body);
+    this.code = (parsed.success && parsed.data.code) || null;
+    this.fieldErrors = (parsed.success && parsed.data.fieldErrors) || {};
+    this.requestId = requestId ?? ((parsed.success && parsed.data.requestId) || null);
+  }
+}
+
+// The response did not match the shared contract: the API and this build disagree on its shape.
+export class ApiContractError extends Error {
+  issues: string[];
+
+  constructor(message: string, issues: string[]) {
+    super(message);
+    this.name = 'ApiContractError';
+    this.issues = issues;
+  }
+}
+
+export interface ApiFetchOptions<T> extends RequestInit {
+  // Contract schema from @cyberparc/shared the response is parsed with; it also types the result.
+  schema?: ZodType<T, ZodTypeDef, unknown>;
+  // Extra attempts after a network failure or a 5xx. Only GET requests are retried.
+  retries?: number;
+  // Wait before the first retry, doubled for each following one.
+  retryDelayMs?: number;
+}
+
+type UnauthorizedListener = (error: ApiError) => void;
+
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+// Called when the API rejects the stored token (expired or revoked session); returns an unsubscribe.
+export const onUnauthorized = (listener: UnauthorizedListener) => {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+};
+
+export interface ImpersonatedCompany {
+  id: number;
+  name: string;
+}
+
+export function readImpersonatedCompany(): ImpersonatedCompany | null {
+  const raw = localStorage.getItem(IMPERSONATION_STORAGE_KEY);
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed.id === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+export const isForbiddenError = (error: unknown) => error instanceof ApiError && error.status === 403;
+
+export const isNetworkError = (error: unknown) => error instanceof ApiError && error.status === 0;
+
+// The request was cancelled through its AbortSignal; callers usually ignore these.
+export const isAbortError = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+
+// Seconds until a rate-limited request may be retried (the server's retryAfter), 0 otherwise.
+export const getRetryAfterSeconds = (error: unknown) =>
+  error instanceof ApiError && error.status === 429
+    ? Number((error.body as { retryAfter?: number } | null)?.retryAfter) || 0
+    : 0;
+
+export const isTwoFactorRequiredError = (error: unknown) =>
+  error instanceof ApiError && error.status === 403 && error.code === 'TWO_FACTOR_REQUIRED';
+
+// Field messages of a rejected request, renamed through `aliases` where a form names its inputs
+// differently from the API (e.g. { industry: 'sector' }).
+export const getFieldErrors = (error: unknown, aliases: Record<string, string> = {}): FieldErrors =>
+  error instanceof ApiError
+    ? Object.fromEntries(Object.entries(error.fieldErrors).map(([field, message]) => [aliases[field] ?? field, message]))
+    : {};
+
+const parseResponse = <T>(path: string, method: string, data: unknown, schema?: ZodType<T, ZodTypeDef, unknown>): T => {
+  if (!schema) return data as T;
+
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  throw new ApiContractError(`Unexpected response from ${method} ${path}: ${issues.join('; ')}`, issues);
+};
+
+const isRetryable = (error: unknown) =>
+  error instanceof ApiError && (error.status === 0 || error.status === 408 || error.status >= 500);
+
+const throwIfAborted = (signal?: AbortSignal | null) => {
+  if (signal?.aborted) {
+    throw signal.reason ?? new DOMException('The request was aborted.', 'AbortError');
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException('The request was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+const readError = async (response: Response) => {
+  const contentType = response.headers.get('content-type') || '';
+  const raw = await response.text();
+  let message = raw || 'Request failed';
+  let body: unknown = null;
+
+  if (contentType.includes('application/json')) {
+    try {
+      const parsed = raw ? JSON.parse(raw) : null;
+      body = parsed;
+      if (parsed && typeof parsed.message === 'string') {
+        message = parsed.message;
+      }
+    } catch {
+      // ignore JSON parse errors
+    }
+  }
+
+  return new ApiError(message, response.status, body, response.headers.get(REQUEST_ID_HEADER));
+};
+
+const send = async (path: string, url: string, init: RequestInit): Promise<unknown> => {
+  if (isDemoMode()) {
+    const data = await mockApiFetch<unknown>(path, init);
+    throwIfAborted(init.signal);
+    return data;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    const message = 'Unable to reach the server.';
+    throw new ApiError(message, 0, { message, code: 'NETWORK_ERROR' });
+  }
+
+  if (!response.ok) {
+    throw await readError(response);
+  }
+
+  return response.json();
+};
+
+export async function apiFetch<T = unknown>(
+  path: string,
+  { schema, retries, retryDelayMs = DEFAULT_RETRY_DELAY_MS, ...options }: ApiFetchOptions<T> = {}
+): Promise<T> {
+  const method = (options.method || 'GET').toUpperCase();
   const url = path.startsWith('http') ? path : `${API_BASE_URL}${path}`;
   const token = localStorage.getItem('authToken');
+  const impersonatedCompany = readImpersonatedCompany();
 
   const headers = new Headers(options.headers || {});
   if (!headers.has('Content-Type') && options.body) {
@@ -11,30 +200,23 @@ export async function apiFetch<T>(path: string, options: RequestInit = {}): Prom
   if (token) {
     headers.set('Authorization', `Bearer ${token}`);
   }
+  if (impersonatedCompany && !headers.has('X-Act-As-Company')) {
+    headers.set('X-Act-As-Company', String(impersonatedCompany.id));
+  }
 
-  const response = await fetch(url, {
-    ...options,
-    headers,
-  });
+  const maxRetries = method === 'GET' ? (retries ?? DEFAULT_GET_RETRIES) : 0;
 
-  if (!response.ok) {
-    const contentType = response.headers.get('content-type') || '';
-    const raw = await response.text();
-    let message = raw || 'Request failed';
-
-    if (contentType.includes('application/json')) {
-      try {
-        const parsed = raw ? JSON.parse(raw) : null;
-        if (parsed && typeof parsed.message === 'string') {
-          message = parsed.message;
-        }
-      } catch {
-        // ignore JSON parse errors
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return parseResponse(path, method, await send(path, url, { ...options, method, headers }), schema);
+    } catch (error) {
+      // Only a request that carried a token means the session is gone; a failed login is a plain 401.
+      if (token && error instanceof ApiError && error.status === 401) {
+        unauthorizedListeners.forEach((listener) => listener(error));
       }
-    }
+      if (attempt >= maxRetries || !isRetryable(error)) throw error;
 
-    throw new Error(message);
+      await wait(retryDelayMs * 2 ** attempt, options.signal);
+    }
   }
-
-  return response.json() as Promise<T>;
 }
@@ -0,0 +1,219 @@
+// Seed data served by the mock API when the app runs in demo mode (VITE_DEMO_MODE=true).
+
+export const DEMO_PASSWORD = 'demo1234';
+
+export interface DemoCompany {
+  id: number;
+  name: string;
+  industry: string | null;
+  location: string | null;
+  website: string | null;
+  email: string | null;
+  phone: string | null;
+  status: string | null;
+  description: string | null;
+}
+
+export interface DemoUser {
+  id: number;
+  email: string;
+  role: 'admin' | 'company';
+  companyId: number | null;
+  companyRole: 'owner' | 'manager' | 'member' | null;
+  name: string | null;
+  phone: string | null;
+}
+
+export interface DemoPost {
+  id: number;
+  title: string;
+  content: string;
+  category: string | null;
+  createdAt: string;
+  companyId: number;
+  isPinned: boolean;
+  pinnedUntil: string | null;
+  isAnnouncement: boolean;
+  editedAt?: string;
+  deletedAt?: string;
+  deletedById?: number | null;
+}
+
+export interface DemoComment {
+  id: number;
+  postId: number;
+  content: string;
+  createdAt: string;
+  companyId: number;
+  editedAt?: string;
+  parentId: number | null;
+}
+
+export interface DemoNotification {
+  id: number;
+  companyId: number;
+  type: 'commentReply' | 'mention';
+  actorCompanyId: number | null;
+  postId: number | null;
+  commentId: number | null;
+  createdAt: string;
+  readAt: string | null;
+}
+
+export interface DemoMessage {
+  id: number;
+  senderCompanyId: number;
+  receiverCompanyId: number;
+  content: string;
+  createdAt: string;
+}
+
+const hoursAgo = (hours: number) => new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+export const demoCompanies: DemoCompany[] = [
+  {
+    id: 1,
+    name: 'Admin',
+    industry: null,
+    location: 'Cyber Parc, Administration',
+    website: null,
+    email: 'admin@cyberparc.demo',
+    phone: null,
+    status: 'active',
+    description: 'Administration du Cyber Parc.',
+  },
+  {
+    id: 2,
+    name: 'TechStart',
+    industry: 'Tech & IT',
+    location: 'Cyber Parc, Bâtiment A',
+    website: 'https://techstart.demo',
+    email: 'contact@techstart.demo',
+    phone: '+212 5 22 00 00 01',
+    status: 'active',
+    description: 'Solutions de gestion cloud pour les PME.',
+  },
+  {
+    id: 3,
+    name: 'DataFlow',
+    industry: 'Data & IA',
+    location: 'Cyber Parc, Bâtiment B',
+    website: 'https://dataflow.demo',
+    email: 'contact@dataflow.demo',
+    phone: '+212 5 22 00 00 02',
+    status: 'active',
+    description: 'Analyse de données et machine learning.',
+  },
+  {
+    id: 4,
+    name: 'GreenEnergy',
+    industry: 'GreenTech',
+    location: 'Cyber Parc, Bâtiment C',
+    website: 'https://greenenergy.demo',
+    email: 'contact@greenenergy.demo',
+    phone: '+212 5 22 00 00 03',
+    status: 'active',
+    description: 'Énergies renouvelables pour les bâtiments tertiaires.',
+  },
+];
+
+export const demoUsers: DemoUser[] = [
+  {
+    id: 1,
+    email: 'admin@cyberparc.demo',
+    role: 'admin',
+    companyId: 1,
+    companyRole: 'owner',
+    name: 'Admin Cyber Parc',
+    phone: null,
+  },
+  {
+    id: 2,
+    email: 'contact@techstart.demo',
+    role: 'company',
+    companyId: 2,
+    companyRole: 'owner',
+    name: 'TechStart',
+    phone: null,
+  },
+  {
+    id: 3,
+    email: 'contact@dataflow.demo',
+    role: 'company',
+    companyId: 3,
+    companyRole: 'owner',
+    name: 'DataFlow',
+    phone: null,
+  },
+  {
+    id: 4,
+    email: 'contact@greenenergy.demo',
+    role: 'company',
+    companyId: 4,
+    companyRole: 'owner',
+    name: 'GreenEnergy',
+    phone: null,
+  },
+  {
+    id: 5,
+    email: 'equipe@techstart.demo',
+    role: 'company',
+    companyId: 2,
+    companyRole: 'member',
+    name: 'Sara Benali',
+    phone: null,
+  },
+];
+
+export const demoPosts: DemoPost[] = [
+  {
+    id: 1,
+    title: 'Nouvelle solution de gestion cloud',
+    content: "Nous sommes ravis d'annoncer notre nouvelle solution de gestion cloud ! N'hésitez pas à nous contacter pour une démo.",
+    category: 'announcements',
+    createdAt: hoursAgo(2),
+    companyId: 2,
+    isPinned: false,
+    pinnedUntil: null,
+    isAnnouncement: false,
+  },
+  {
+    id: 2,
+    title: 'Meetup IA & Machine Learning',
+    content: "Qui serait intéressé par un meetup sur l'IA et le Machine Learning le mois prochain ? On pourrait organiser ça dans les locaux du Cyber Parc.",
+    category: 'events',
+    createdAt: hoursAgo(5),
+    companyId: 3,
+    isPinned: false,
+    pinnedUntil: null,
+    isAnnouncement: false,
+  },
+  {
+    id: 3,
+    title: 'Retour sur le hackathon',
+    content: 'Félicitations à tous les participants du hackathon de la semaine dernière ! Les projets étaient vraiment impressionnants.',
+    category: 'announcements',
+    createdAt: hoursAgo(26),
+    companyId: 4,
+    isPinned: true,
+    pinnedUntil: null,
+    isAnnouncement: true,
+  },
+];
+
+export const demoComments: DemoComment[] = [
+  { id: 1, postId: 2, content: 'Partants ! Nous pouvons présenter un retour d’expérience.', createdAt: hoursAgo(4), companyId: 2, parentId: null },
+  { id: 2, postId: 2, content: 'Excellente idée @DataFlow, comptez sur nous.', createdAt: hoursAgo(3), companyId: 4, parentId: null },
+  { id: 3, postId: 1, content: 'Intéressant, nous vous contactons cette semaine.', createdAt: hoursAgo(1), companyId: 3, parentId: null },
+  { id: 4, postId: 2, content: 'Merci, nous vous réservons un créneau pour la démo.', createdAt: hoursAgo(2), companyId: 3, parentId: 1 },
+];
+
+export const demoNotifications: DemoNotification[] = [
+  { id: 1, companyId: 2, type: 'commentReply', actorCompanyId: 3, postId: 2, commentId: 4, createdAt: hoursAgo(2), readAt: null },
+];
+
+export const demoMessages: DemoMessage[] = [
+  { id: 1, senderCompanyId: 3, receiverCompanyId: 2, content: 'Bonjour, seriez-vous disponibles pour un appel ?', createdAt: hoursAgo(6) },
+  { id: 2, senderCompanyId: 2, receiverCompanyId: 3, content: 'Avec plaisir, demain à 10h ?', createdAt: hoursAgo(5) },
+  { id: 3, senderCompanyId: 4, receiverCompanyId: 2, content: 'Merci pour la présentation de la semaine dernière.', createdAt: hoursAgo(30) },
+];
@@ -0,0 +1,1214 @@
+import type { ZodType, ZodTypeDef } from 'zod';
+import {
+  changePasswordRequestSchema,
+  companyRoleSchema,
+  createCommentRequestSchema,
+  createCompanyRequestSchema,
+  createPostRequestSchema,
+  findMentions,
+  inviteMemberRequestSchema,
+  loginAttemptsQuerySchema,
+  loginRequestSchema,
+  reactionParamsSchema,
+  reactionTypeSchema,
+  securityPolicySchema,
+  sendMessageRequestSchema,
+  updateCompanyRequestSchema,
+  updateMemberRoleRequestSchema,
+  updateCommentRequestSchema,
+  updateNotificationsRequestSchema,
+  updatePostRequestSchema,
+  updateProfileRequestSchema,
+  toFieldErrors,
+  type ReactionType,
+} from '@cyberparc/shared';
+import { ApiError } from '@/lib/api';
+import {
+  DEMO_PASSWORD,
+  demoComments,
+  demoCompanies,
+  demoMessages,
+  demoNotifications,
+  demoPosts,
+  demoUsers,
+  DemoComment,
+  DemoCompany,
+  DemoMessage,
+  DemoNotification,
+  DemoPost,
+  DemoUser,
+} from '@/lib/demo-fixtures';
+
+const DEMO_TOKEN_PREFIX = 'demo-token:';
+
+export const isDemoMode = () => import.meta.env.VITE_DEMO_MODE === 'true';
+
+interface MockRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  headers: Headers;
+}
+
+interface Actor {
+  user: DemoUser;
+  companyId: number | null;
+  sessionId: string;
+}
+
+interface DemoSession {
+  id: string;
+  userId: number;
+  userAgent: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  revoked: boolean;
+}
+
+interface DemoReaction {
+  target: 'post' | 'comment';
+  targetId: number;
+  userId: number;
+  companyId: number | null;
+  type: ReactionType;
+}
+
+interface DemoMention {
+  target: 'post' | 'comment' | 'message';
+  targetId: number;
+  companyId: number;
+}
+
+interface DemoPostRevision {
+  id: number;
+  postId: number;
+  title: string;
+  content: string;
+  category: string | null;
+  replacedAt: string;
+  editedById: number | null;
+}
+
+interface DemoCommentRevision {
+  id: number;
+  commentId: number;
+  content: string;
+  replacedAt: string;
+  editedById: number | null;
+}
+
+type MockHandler = (request: MockRequest, params: string[]) => unknown;
+
+// The demo store is seeded once per page load and mutated in memory, so changes vanish on refresh.
+const store = {
+  companies: demoCompanies.map((company) => ({ ...company })),
+  users: demoUsers.map((user) => ({ ...user })),
+  posts: demoPosts.map((post) => ({ ...post })),
+  comments: demoComments.map((comment) => ({ ...comment })),
+  messages: demoMessages.map((message) => ({ ...message })),
+  // In-app notifications; `notifications` below holds the users' notification preferences.
+  inbox: demoNotifications.map((notification) => ({ ...notification })),
+  reactions: [] as DemoReaction[],
+  mentions: [] as DemoMention[],
+  postRevisions: [] as DemoPostRevision[],
+  commentRevisions: [] as DemoCommentRevision[],
+  notifications: new Map<number, Record<string, boolean>>(),
+  sessions: [] as DemoSession[],
+  loginAttempts: [] as Array<{ id: number; email: string; success: boolean; reason: string | null; createdAt: string }>,
+  // Every demo account starts with DEMO_PASSWORD; changed passwords live here until the page reloads.
+  passwords: new Map<number, string>(),
+};
+
+const passwordOf = (userId: number) => store.passwords.get(userId) ?? DEMO_PASSWORD;
+
+// The demo store has no database; describe its collections the way the schema registry would.
+const describeDemoSchema = () => ({
+  schemaVersion: null,
+  loadedAt: new Date().toISOString(),
+  tables: (
+    [
+      ['Comment', store.comments],
+      ['Company', store.companies],
+      ['Message', store.messages],
+      ['Post', store.posts],
+      ['User', store.users],
+    ] as Array<[string, object[]]>
+  ).map(([name, rows]) => ({ name, columns: Object.keys(rows[0] ?? {}).sort() })),
+});
+
+const toSessionRow = (session: DemoSession, currentId: string) => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  ipAddress: null,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  current: session.id === currentId,
+});
+
+const nextId = (rows: Array<{ id: number }>) => rows.reduce((max, row) => Math.max(max, row.id), 0) + 1;
+
+const fail = (status: number, message: string): never => {
+  throw new ApiError(message, status, { message });
+};
+
+// Same contract check as the API's validate middleware, with the same 422 response.
+const parseContract = <T>(schema: ZodType<T, ZodTypeDef, unknown>, value: unknown): T => {
+  const result = schema.safeParse(value);
+  if (result.success) return result.data;
+
+  const fieldErrors = toFieldErrors(result.error);
+  const message = Object.values(fieldErrors)[0] || 'Invalid request.';
+  throw new ApiError(message, 422, { message, code: 'VALIDATION_FAILED', fieldErrors });
+};
+
+const parseBody = <T>(schema: ZodType<T, ZodTypeDef, unknown>, request: MockRequest): T =>
+  parseContract(schema, request.body);
+
+const parseQuery = <T>(schema: ZodType<T, ZodTypeDef, unknown>, request: MockRequest): T =>
+  parseContract(schema, Object.fromEntries(request.query));
+
+const toSessionUser = (user: DemoUser) => ({
+  id: user.id,
+  email: user.email,
+  role: user.role,
+  companyId: user.companyId,
+  companyName: store.companies.find((company) => company.id === user.companyId)?.name ?? null,
+  companyRole: user.companyRole,
+});
+
+const requireActor = (request: MockRequest): Actor => {
+  const token = (request.headers.get('Authorization') || '').replace(/^Bearer /, '');
+  const sessionId = token.startsWith(DEMO_TOKEN_PREFIX) ? token.slice(DEMO_TOKEN_PREFIX.length) : '';
+  const session = store.sessions.find((item) => item.id === sessionId);
+  const user = session && store.users.find((item) => item.id === session.userId);
+
+  if (!session || !user) {
+    return fail(401, 'Authentication required.');
+  }
+
+  if (session.revoked) {
+    return fail(401, 'Session revoked.');
+  }
+
+  session.lastSeenAt = new Date().toISOString();
+
+  const actAs = request.headers.get('X-Act-As-Company');
+
+  if (actAs) {
+    if (user.role !== 'admin') {
+      return fail(403, 'Only admins can act on behalf of another company.');
+    }
+    return { user, companyId: Number(actAs), sessionId };
+  }
+
+  return { user, companyId: user.companyId, sessionId };
+};
+
+const requireAdmin = (request: MockRequest) => {
+  const actor = requireActor(request);
+  if (actor.user.role !== 'admin') {
+    fail(403, 'You do not have access to this resource.');
+  }
+  return actor;
+};
+
+type CompanyRole = NonNullable<DemoUser['companyRole']>;
+
+const companyRoles: CompanyRole[] = companyRoleSchema.options;
+
+const requireCompanyRole = (request: MockRequest, roles: CompanyRole[]) => {
+  const actor = requireActor(request);
+  const companyRole = actor.user.role === 'admin' ? 'owner' : actor.user.companyRole;
+  if (!actor.companyId || !companyRole || !roles.includes(companyRole)) {
+    fail(403, 'Your company role does not allow this action.');
+  }
+  return { ...actor, companyId: actor.companyId as number, companyRole: companyRole as CompanyRole };
+};
+
+const findTeamMember = (companyId: number, id: string) =>
+  store.users.find((user) => user.id === Number(id) && user.companyId === companyId) ??
+  fail(404, 'Team member not found.');
+
+const isLastOwner = (member: DemoUser) =>
+  member.companyRole === 'owner' &&
+  store.users.filter((user) => user.companyId === member.companyId && user.companyRole === 'owner').length <= 1;
+
+const toTeamMember = (user: DemoUser) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  companyRole: user.companyRole,
+  invitationPending: false,
+});
+
+const companyName = (companyId: number) => store.companies.find((company) => company.id === companyId)?.name ?? '—';
+
+const formatActivityTime = (value: string) =>
+  new Date(value).toLocaleString('fr-FR', { hour: '2-digit', minute: '2-digit', day: '2-digit', month: 'short' });
+
+const toCompanyRow = (company: DemoCompany) => ({
+  ...company,
+  employees: store.users.filter((user) => user.companyId === company.id).length,
+});
+
+const reactionsOf = (target: DemoReaction['target'], targetId: number, userId: number) =>
+  reactionTypeSchema.options.flatMap((type) => {
+    const rows = store.reactions.filter(
+      (reaction) => reaction.target === target && reaction.targetId === targetId && reaction.type === type
+    );
+    if (!rows.length) return [];
+    return [
+      {
+        type,
+        count: rows.length,
+        reacted: rows.some((reaction) => reaction.userId === userId),
+        companies: [...new Set(rows.filter((reaction) => reaction.companyId).map((reaction) => companyName(reaction.companyId as number)))],
+      },
+    ];
+  });
+
+const postLikes = (postId: number, userId: number) => {
+  const like = reactionsOf('post', postId, userId).find((reaction) => reaction.type === 'like');
+  return { id: postId, likes: like?.count ?? 0, liked: like?.reacted ?? false };
+};
+
+const setReaction = (reaction: DemoReaction, react: boolean) => {
+  const isSame = (other: DemoReaction) =>
+    other.target === reaction.target &&
+    other.targetId === reaction.targetId &&
+    other.userId === reaction.userId &&
+    other.type === reaction.type;
+
+  store.reactions = store.reactions.filter((other) => !isSame(other));
+  if (react) store.reactions.push(reaction);
+};
+
+// Same rule as the API: posts in the trash, and the comments under them, are hidden everywhere else.
+const livePosts = () => store.posts.filter((post) => !post.deletedAt);
+
+const liveComments = () => {
+  const postIds = new Set(livePosts().map((post) => post.id));
+  return store.comments.filter((comment) => postIds.has(comment.postId));
+};
+
+const toggleReaction =
+  (target: DemoReaction['target'], react: boolean): MockHandler =>
+  (request, [rawId, rawType]) => {
+    const { user, companyId } = requireActor(request);
+    const { id, type } = parseContract(reactionParamsSchema, { id: rawId, type: rawType });
+    const rows: Array<{ id: number }> = target === 'post' ? livePosts() : liveComments();
+    if (!rows.some((row) => row.id === id)) return fail(404, target === 'post' ? 'Post not found.' : 'Comment not found.');
+
+    setReaction({ target, targetId: id, userId: user.id, companyId, type }, react);
+    return { id, reactions: reactionsOf(target, id, user.id) };
+  };
+
+// Same rule as the API: an expired pin reads as unpinned.
+const isPinnedNow = (post: DemoPost) =>
+  post.isPinned && (!post.pinnedUntil || Date.parse(post.pinnedUntil) > Date.now());
+
+const byFeedOrder = (a: DemoPost, b: DemoPost) =>
+  Number(isPinnedNow(b)) - Number(isPinnedNow(a)) || b.createdAt.localeCompare(a.createdAt);
+
+const mentionsOf = (target: DemoMention['target'], targetId: number) =>
+  store.mentions
+    .filter((mention) => mention.target === target && mention.targetId === targetId)
+    .map((mention) => ({ id: mention.companyId, name: companyName(mention.companyId) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+// Same as the API: resolves the mentions of `content` and returns the companies mentioned for the first time.
+const saveMentions = (target: DemoMention['target'], targetId: number, content: string) => {
+  const before = new Set(mentionsOf(target, targetId).map((mention) => mention.id));
+  const mentioned = findMentions(content, store.companies).map((company) => company.id);
+  store.mentions = store.mentions
+    .filter((mention) => mention.target !== target || mention.targetId !== targetId)
+    .concat(mentioned.map((companyId) => ({ target, targetId, companyId })));
+  return mentioned.filter((companyId) => !before.has(companyId));
+};
+
+// Mentions in the seed content are resolved as if it had been written through the API.
+store.posts.forEach((post) => saveMentions('post', post.id, post.content));
+store.comments.forEach((comment) => saveMentions('comment', comment.id, comment.content));
+store.messages.forEach((message) => saveMentions('message', message.id, message.content));
+
+const notifyMentioned = (
+  companyIds: number[],
+  source: { actorCompanyId: number | null; postId: number | null; commentId: number | null }
+) =>
+  companyIds
+    .filter((companyId) => companyId !== source.actorCompanyId)
+    .forEach((companyId) =>
+      store.inbox.push({
+        id: nextId(store.inbox),
+        companyId,
+        type: 'mention',
+        ...source,
+        createdAt: new Date().toISOString(),
+        readAt: null,
+      })
+    );
+
+const toPostRow = (post: DemoPost, userId: number) => ({
+  id: post.id,
+  title: post.title,
+  content: post.content,
+  mentions: mentionsOf('post', post.id),
+  category: post.category,
+  createdAt: post.createdAt,
+  company: companyName(post.companyId),
+  companyId: post.companyId,
+  comments: store.comments.filter((comment) => comment.postId === post.id).length,
+  ...postLikes(post.id, userId),
+  reactions: reactionsOf('post', post.id, userId),
+  isPinned: isPinnedNow(post),
+  pinnedUntil: isPinnedNow(post) ? post.pinnedUntil : null,
+  isAnnouncement: post.isAnnouncement,
+  editedAt: post.editedAt ?? null,
+});
+
+const toCommentRow = (comment: DemoComment, userId: number) => ({
+  id: comment.id,
+  content: comment.content,
+  mentions: mentionsOf('comment', comment.id),
+  createdAt: comment.createdAt,
+  company: companyName(comment.companyId),
+  companyId: comment.companyId,
+  reactions: reactionsOf('comment', comment.id, userId),
+  editedAt: comment.editedAt ?? null,
+  parentId: comment.parentId,
+});
+
+const toNotificationRow = (notification: DemoNotification) => ({
+  id: notification.id,
+  type: notification.type,
+  actor: store.companies.find((company) => company.id === notification.actorCompanyId)?.name ?? null,
+  actorId: notification.actorCompanyId,
+  postId: notification.postId,
+  postTitle: store.posts.find((post) => post.id === notification.postId)?.title ?? null,
+  commentId: notification.commentId,
+  createdAt: notification.createdAt,
+  readAt: notification.readAt,
+});
+
+// Same rule as the API: authors edit and delete their own posts and comments, admins any of them.
+const requireModerator = (request: MockRequest, authorId: number, message: string) => {
+  const actor = requireActor(request);
+  if (actor.user.role !== 'admin' && actor.companyId !== authorId) fail(403, message);
+  return actor;
+};
+
+const newestFirst = <T extends { id: number; replacedAt: string }>(a: T, b: T) =>
+  b.replacedAt.localeCompare(a.replacedAt) || b.id - a.id;
+
+const toMessageRow = (message: DemoMessage) => ({
+  ...message,
+  mentions: mentionsOf('message', message.id),
+  senderName: companyName(message.senderCompanyId),
+  receiverName: companyName(message.receiverCompanyId),
+});
+
+const companyFields = ['name', 'industry', 'location', 'website', 'email', 'phone', 'status', 'description'] as const;
+
+const applyCompanyFields = (company: DemoCompany, body: Record<string, unknown>) => {
+  companyFields.forEach((field) => {
+    if (!Object.prototype.hasOwnProperty.call(body, field)) return;
+    const value = body[field];
+    (company as unknown as Record<string, unknown>)[field] = value === '' ? null : value;
+  });
+};
+
+const summary = (userId: number) => {
+  const posts = livePosts().sort(byFeedOrder);
+  const comments = liveComments().sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return {
+    stats: {
+      users: store.users.length,
+      companies: store.companies.length,
+      posts: posts.length,
+      comments: comments.length,
+    },
+    activity: comments.slice(0, 5).map((comment) => ({
+      title: companyName(comment.companyId),
+      note: comment.content,
+      time: formatActivityTime(comment.createdAt),
+      tag: store.posts.find((post) => post.id === comment.postId)?.title,
+    })),
+    recentPosts: posts.slice(0, 4).map((post) => {
+      const { id, title, content, mentions, company, createdAt, comments, likes, liked, isPinned, isAnnouncement } =
+        toPostRow(post, userId);
+      return { id, title, content, mentions, company, createdAt, comments, likes, liked, isPinned, isAnnouncement };
+    }),
+  };
+};
+
+const routes: Array<[string, RegExp, MockHandler]> = [
+  ['GET', /^\/api\/health$/, () => ({ ok: true })],
+  [
+    'POST',
+    /^\/api\/auth\/login$/,
+    (request) => {
+      const { email, password } = parseBody(loginRequestSchema, request);
+      const user = store.users.find((item) => item.email === email);
+
+      const recordAttempt = (success: boolean, reason: string | null) =>
+        store.loginAttempts.push({
+          id: nextId(store.loginAttempts),
+          email,
+          success,
+          reason,
+          createdAt: new Date().toISOString(),
+        });
+
+      if (!user || password !== passwordOf(user.id)) {
+        recordAttempt(false, user ? 'invalid_password' : 'unknown_account');
+        return fail(401, 'Invalid credentials.');
+      }
+
+      recordAttempt(true, null);
+
+      const now = new Date().toISOString();
+      const session: DemoSession = {
+        id: crypto.randomUUID(),
+        userId: user.id,
+        userAgent: typeof navigator === 'undefined' ? null : navigator.userAgent,
+        createdAt: now,
+        lastSeenAt: now,
+        revoked: false,
+      };
+      store.sessions.push(session);
+
+      return { token: `${DEMO_TOKEN_PREFIX}${session.id}`, user: toSessionUser(user) };
+    },
+  ],
+  ['POST', /^\/api\/auth\/forgot-password$/, () => ({ ok: true })],
+  ['GET', /^\/api\/auth\/me$/, (request) => ({ user: toSessionUser(requireActor(request).user) })],
+  [
+    'POST',
+    /^\/api\/auth\/logout$/,
+    (request) => {
+      const { sessionId } = requireActor(request);
+      store.sessions.forEach((session) => {
+        if (session.id === sessionId) session.revoked = true;
+      });
+      return { ok: true };
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/auth\/change-password$/,
+    (request) => {
+      const { user, sessionId } = requireActor(request);
+      const { currentPassword, newPassword } = parseBody(changePasswordRequestSchema, request);
+
+      if (currentPassword !== passwordOf(user.id)) return fail(400, 'Current password is incorrect.');
+
+      store.passwords.set(user.id, newPassword);
+      store.sessions.forEach((session) => {
+        if (session.userId === user.id && session.id !== sessionId) session.revoked = true;
+      });
+      return { ok: true };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/auth\/sessions$/,
+    (request) => {
+      const { user, sessionId } = requireActor(request);
+      return store.sessions
+        .filter((session) => session.userId === user.id && !session.revoked)
+        .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt))
+        .map((session) => toSessionRow(session, sessionId));
+    },
+  ],
+  [
+    'DELETE',
+    /^\/api\/auth\/sessions$/,
+    (request) => {
+      const { user, sessionId } = requireActor(request);
+      const others = store.sessions.filter(
+        (session) => session.userId === user.id && session.id !== sessionId && !session.revoked
+      );
+      others.forEach((session) => {
+        session.revoked = true;
+      });
+      return { revoked: others.length };
+    },
+  ],
+  [
+    'DELETE',
+    /^\/api\/auth\/sessions\/([\w-]+)$/,
+    (request, [id]) => {
+      const { user, sessionId } = requireActor(request);
+      const session =
+        store.sessions.find((item) => item.id === id && item.userId === user.id && !item.revoked) ??
+        fail(404, 'Session not found.');
+      session.revoked = true;
+      return { ok: true, current: id === sessionId };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/auth\/2fa$/,
+    (request) => {
+      requireActor(request);
+      // TOTP enrollment needs the server; demo accounts always report 2FA as off.
+      return { enabled: false, recoveryCodesRemaining: 0, required: false };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/dashboard\/summary$/,
+    (request) => {
+      const { user } = requireActor(request);
+      return summary(user.id);
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/admin\/summary$/,
+    (request) => {
+      const { user } = requireAdmin(request);
+      return summary(user.id);
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/admin\/login-attempts$/,
+    (request) => {
+      requireAdmin(request);
+      const { limit, status } = parseQuery(loginAttemptsQuerySchema, request);
+      return store.loginAttempts
+        .filter((attempt) => status !== 'failed' || !attempt.success)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .slice(0, limit)
+        .map((attempt) => ({ ...attempt, ipAddress: null }));
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/admin\/security-policy$/,
+    (request) => {
+      requireAdmin(request);
+      return { requireAdminTwoFactor: false };
+    },
+  ],
+  [
+    'PUT',
+    /^\/api\/admin\/security-policy$/,
+    (request) => {
+      requireAdmin(request);
+      if (parseBody(securityPolicySchema, request).requireAdminTwoFactor) {
+        return fail(409, 'Enable two-factor authentication on your own account first.');
+      }
+      return { requireAdminTwoFactor: false };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/admin\/schema$/,
+    (request) => {
+      requireAdmin(request);
+      return describeDemoSchema();
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/admin\/schema\/refresh$/,
+    (request) => {
+      requireAdmin(request);
+      return describeDemoSchema();
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/admin\/companies$/,
+    (request) => {
+      requireAdmin(request);
+      return store.companies.map((company) => ({
+        ...toCompanyRow(company),
+        admin: store.users.find((user) => user.companyId === company.id)?.email ?? null,
+      }));
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/admin\/companies$/,
+    (request) => {
+      requireAdmin(request);
+      const body = parseBody(createCompanyRequestSchema, request);
+
+      const company: DemoCompany = {
+        id: nextId(store.companies),
+        name: body.name,
+        industry: null,
+        location: null,
+        website: null,
+        email: null,
+        phone: null,
+        status: null,
+        description: null,
+      };
+      applyCompanyFields(company, body);
+      store.companies.push(company);
+
+      if (body.email && body.password) {
+        store.users.push({
+          id: nextId(store.users),
+          email: body.email.toLowerCase(),
+          role: 'company',
+          companyId: company.id,
+          companyRole: 'owner',
+          name: null,
+          phone: null,
+        });
+      }
+
+      return company;
+    },
+  ],
+  [
+    'PUT',
+    /^\/api\/admin\/companies\/(\d+)$/,
+    (request, [id]) => {
+      requireAdmin(request);
+      const body = parseBody(updateCompanyRequestSchema, request);
+      const company = store.companies.find((item) => item.id === Number(id)) ?? fail(404, 'Company not found.');
+      applyCompanyFields(company, body);
+      return company;
+    },
+  ],
+  [
+    'DELETE',
+    /^\/api\/admin\/companies\/(\d+)$/,
+    (request, [id]) => {
+      requireAdmin(request);
+      const companyId = Number(id);
+      if (!store.companies.some((company) => company.id === companyId)) {
+        return fail(404, 'Company not found.');
+      }
+
+      const removedPostIds = store.posts.filter((post) => post.companyId === companyId).map((post) => post.id);
+      store.companies = store.companies.filter((company) => company.id !== companyId);
+      store.users = store.users.filter((user) => user.companyId !== companyId);
+      store.posts = store.posts.filter((post) => post.companyId !== companyId);
+      store.comments = store.comments.filter(
+        (comment) => comment.companyId !== companyId && !removedPostIds.includes(comment.postId)
+      );
+      store.messages = store.messages.filter(
+        (message) => message.senderCompanyId !== companyId && message.receiverCompanyId !== companyId
+      );
+      store.inbox = store.inbox.filter(
+        (notification) => notification.companyId !== companyId && !removedPostIds.includes(notification.postId ?? 0)
+      );
+      return { id: companyId };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/admin\/posts\/trash$/,
+    (request) => {
+      requireAdmin(request);
+      return store.posts
+        .filter((post) => post.deletedAt)
+        .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''))
+        .map((post) => ({
+          id: post.id,
+          title: post.title,
+          category: post.category,
+          createdAt: post.createdAt,
+          deletedAt: post.deletedAt,
+          company: companyName(post.companyId),
+          deletedBy: post.deletedById ? companyName(post.deletedById) : null,
+          comments: store.comments.filter((comment) => comment.postId === post.id).length,
+        }));
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/admin\/posts\/(\d+)\/restore$/,
+    (request, [id]) => {
+      requireAdmin(request);
+      const post =
+        store.posts.find((item) => item.id === Number(id) && item.deletedAt) ?? fail(404, 'Deleted post not found.');
+      delete post.deletedAt;
+      delete post.deletedById;
+      return { id: post.id };
+    },
+  ],
+  [
+    'DELETE',
+    /^\/api\/admin\/posts\/(\d+)$/,
+    (request, [id]) => {
+      requireAdmin(request);
+      const postId = Number(id);
+      if (!store.posts.some((post) => post.id === postId && post.deletedAt)) return fail(404, 'Deleted post not found.');
+      const commentIds = new Set(store.comments.filter((comment) => comment.postId === postId).map((comment) => comment.id));
+      store.posts = store.posts.filter((post) => post.id !== postId);
+      store.comments = store.comments.filter((comment) => comment.postId !== postId);
+      store.reactions = store.reactions.filter((reaction) =>
+        reaction.target === 'post' ? reaction.targetId !== postId : !commentIds.has(reaction.targetId)
+      );
+      store.postRevisions = store.postRevisions.filter((revision) => revision.postId !== postId);
+      store.commentRevisions = store.commentRevisions.filter((revision) => !commentIds.has(revision.commentId));
+      store.inbox = store.inbox.filter((notification) => notification.postId !== postId);
+      return { id: postId };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/companies$/,
+    (request) => {
+      requireActor(request);
+      return [...store.companies].sort((a, b) => a.name.localeCompare(b.name)).map(toCompanyRow);
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/forum\/posts$/,
+    (request) => {
+      const { user } = requireActor(request);
+      return livePosts().sort(byFeedOrder).map((post) => toPostRow(post, user.id));
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/forum\/posts$/,
+    (request) => {
+      const { user, companyId } = requireActor(request);
+      const { title, content, category } = parseBody(createPostRequestSchema, request);
+      if (!companyId) return fail(400, 'Company is required to create a post.');
+
+      const post: DemoPost = {
+        id: nextId(store.posts),
+        title,
+        content,
+        category: category || null,
+        createdAt: new Date().toISOString(),
+        companyId,
+        isPinned: false,
+        pinnedUntil: null,
+        isAnnouncement: false,
+      };
+      store.posts.push(post);
+      notifyMentioned(saveMentions('post', post.id, content), { actorCompanyId: companyId, postId: post.id, commentId: null });
+      return toPostRow(post, user.id);
+    },
+  ],
+  [
+    'PATCH',
+    /^\/api\/forum\/posts\/(\d+)$/,
+    (request, [id]) => {
+      const { user, companyId } = requireActor(request);
+      const { title, content, category, isPinned, pinnedUntil, isAnnouncement } = parseBody(updatePostRequestSchema, request);
+      const editsPin = [isPinned, pinnedUntil, isAnnouncement].some((value) => value !== undefined);
+      if (editsPin && user.role !== 'admin') return fail(403, 'Only admins can pin posts or mark announcements.');
+
+      const post = livePosts().find((item) => item.id === Number(id)) ?? fail(404, 'Post not found.');
+      const edits = Object.entries({ title, content, category: category === '' ? null : category }).filter(
+        ([field, value]) => value !== undefined && post[field as 'title' | 'content' | 'category'] !== value
+      );
+
+      if (edits.length) {
+        requireModerator(request, post.companyId, 'Only the authoring company can edit this post.');
+        const now = new Date().toISOString();
+        store.postRevisions.push({
+          id: nextId(store.postRevisions),
+          postId: post.id,
+          title: post.title,
+          content: post.content,
+          category: post.category,
+          replacedAt: now,
+          editedById: companyId,
+        });
+        Object.assign(post, Object.fromEntries(edits), { editedAt: now });
+      }
+
+      if (content !== undefined && edits.some(([field]) => field === 'content')) {
+        notifyMentioned(saveMentions('post', post.id, content), { actorCompanyId: companyId, postId: post.id, commentId: null });
+      }
+
+      if (isPinned !== undefined) post.isPinned = isPinned;
+      if (isPinned === false) post.pinnedUntil = null;
+      else if (pinnedUntil !== undefined) post.pinnedUntil = pinnedUntil;
+      if (isAnnouncement !== undefined) post.isAnnouncement = isAnnouncement;
+      return toPostRow(post, user.id);
+    },
+  ],
+  [
+    'DELETE',
+    /^\/api\/forum\/posts\/(\d+)$/,
+    (request, [id]) => {
+      const postId = Number(id);
+      const post = livePosts().find((item) => item.id === postId) ?? fail(404, 'Post not found.');
+      const { companyId } = requireModerator(request, post.companyId, 'Only the authoring company can delete this post.');
+      Object.assign(post, { deletedAt: new Date().toISOString(), deletedById: companyId });
+      return { id: postId };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/forum\/posts\/(\d+)\/revisions$/,
+    (request, [id]) => {
+      requireAdmin(request);
+      const postId = Number(id);
+      if (!livePosts().some((post) => post.id === postId)) return fail(404, 'Post not found.');
+      return store.postRevisions
+        .filter((revision) => revision.postId === postId)
+        .sort(newestFirst)
+        .map(({ postId: _postId, editedById, ...revision }) => ({
+          ...revision,
+          editedBy: editedById ? companyName(editedById) : null,
+        }));
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/forum\/posts\/(\d+)\/like$/,
+    (request, [id]) => {
+      const { user, companyId } = requireActor(request);
+      const postId = Number(id);
+      if (!livePosts().some((post) => post.id === postId)) return fail(404, 'Post not found.');
+      setReaction({ target: 'post', targetId: postId, userId: user.id, companyId, type: 'like' }, true);
+      return postLikes(postId, user.id);
+    },
+  ],
+  [
+    'DELETE',
+    /^\/api\/forum\/posts\/(\d+)\/like$/,
+    (request, [id]) => {
+      const { user, companyId } = requireActor(request);
+      const postId = Number(id);
+      if (!livePosts().some((post) => post.id === postId)) return fail(404, 'Post not found.');
+      setReaction({ target: 'post', targetId: postId, userId: user.id, companyId, type: 'like' }, false);
+      return postLikes(postId, user.id);
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/forum\/posts\/(\d+)\/comments$/,
+    (request, [id]) => {
+      const { user } = requireActor(request);
+      if (!livePosts().some((post) => post.id === Number(id))) return fail(404, 'Post not found.');
+      return store.comments
+        .filter((comment) => comment.postId === Number(id))
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map((comment) => toCommentRow(comment, user.id));
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/forum\/posts\/(\d+)\/comments$/,
+    (request, [id]) => {
+      const { user, companyId } = requireActor(request);
+      const { content, parentId = null } = parseBody(createCommentRequestSchema, request);
+      if (!companyId) return fail(400, 'Company is required to comment.');
+      if (!livePosts().some((post) => post.id === Number(id))) return fail(404, 'Post not found.');
+
+      const parent = store.comments.find((item) => item.id === parentId);
+      if (parentId !== null && parent?.postId !== Number(id)) return fail(400, 'Parent comment not found on this post.');
+
+      const comment: DemoComment = {
+        id: nextId(store.comments),
+        postId: Number(id),
+        content,
+        createdAt: new Date().toISOString(),
+        companyId,
+        parentId,
+      };
+      store.comments.push(comment);
+
+      // Same rule as the API: replying to one's own company's comment notifies nobody.
+      if (parent && parent.companyId !== companyId) {
+        store.inbox.push({
+          id: nextId(store.inbox),
+          companyId: parent.companyId,
+          type: 'commentReply',
+          actorCompanyId: companyId,
+          postId: comment.postId,
+          commentId: comment.id,
+          createdAt: comment.createdAt,
+          readAt: null,
+        });
+      }
+
+      // The company being replied to already hears about the comment.
+      const mentioned = saveMentions('comment', comment.id, content).filter((other) => other !== parent?.companyId);
+      notifyMentioned(mentioned, { actorCompanyId: companyId, postId: comment.postId, commentId: comment.id });
+      return { ...toCommentRow(comment, user.id), postId: comment.postId };
+    },
+  ],
+  ['POST', /^\/api\/forum\/posts\/(\d+)\/reactions\/(\w+)$/, toggleReaction('post', true)],
+  ['DELETE', /^\/api\/forum\/posts\/(\d+)\/reactions\/(\w+)$/, toggleReaction('post', false)],
+  [
+    'PATCH',
+    /^\/api\/forum\/comments\/(\d+)$/,
+    (request, [id]) => {
+      const { content } = parseBody(updateCommentRequestSchema, request);
+      const comment = liveComments().find((item) => item.id === Number(id)) ?? fail(404, 'Comment not found.');
+      const { user, companyId } = requireModerator(request, comment.companyId, 'Only the authoring company can edit this comment.');
+
+      if (comment.content !== content) {
+        const now = new Date().toISOString();
+        store.commentRevisions.push({
+          id: nextId(store.commentRevisions),
+          commentId: comment.id,
+          content: comment.content,
+          replacedAt: now,
+          editedById: companyId,
+        });
+        Object.assign(comment, { content, editedAt: now });
+        notifyMentioned(saveMentions('comment', comment.id, content), {
+          actorCompanyId: companyId,
+          postId: comment.postId,
+          commentId: comment.id,
+        });
+      }
+
+      return toCommentRow(comment, user.id);
+    },
+  ],
+  [
+    'DELETE',
+    /^\/api\/forum\/comments\/(\d+)$/,
+    (request, [id]) => {
+      const commentId = Number(id);
+      const comment = liveComments().find((item) => item.id === commentId) ?? fail(404, 'Comment not found.');
+      requireModerator(request, comment.companyId, 'Only the authoring company can delete this comment.');
+      store.comments = store.comments.filter((item) => item.id !== commentId);
+      // Replies move up to the top level of the thread, as with the API's ON DELETE SET NULL.
+      store.comments.forEach((item) => {
+        if (item.parentId === commentId) item.parentId = null;
+      });
+      store.inbox = store.inbox.filter((notification) => notification.commentId !== commentId);
+      store.reactions = store.reactions.filter(
+        (reaction) => !(reaction.target === 'comment' && reaction.targetId === commentId)
+      );
+      return { id: commentId };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/forum\/comments\/(\d+)\/revisions$/,
+    (request, [id]) => {
+      requireAdmin(request);
+      const commentId = Number(id);
+      if (!liveComments().some((comment) => comment.id === commentId)) return fail(404, 'Comment not found.');
+      return store.commentRevisions
+        .filter((revision) => revision.commentId === commentId)
+        .sort(newestFirst)
+        .map(({ commentId: _commentId, editedById, ...revision }) => ({
+          ...revision,
+          editedBy: editedById ? companyName(editedById) : null,
+        }));
+    },
+  ],
+  ['POST', /^\/api\/forum\/comments\/(\d+)\/reactions\/(\w+)$/, toggleReaction('comment', true)],
+  ['DELETE', /^\/api\/forum\/comments\/(\d+)\/reactions\/(\w+)$/, toggleReaction('comment', false)],
+  [
+    'GET',
+    /^\/api\/notifications$/,
+    (request) => {
+      const { companyId } = requireActor(request);
+      const livePostIds = new Set(livePosts().map((post) => post.id));
+      return store.inbox
+        .filter((notification) => notification.companyId === companyId)
+        .filter((notification) => notification.postId === null || livePostIds.has(notification.postId))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id)
+        .slice(0, 30)
+        .map(toNotificationRow);
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/notifications\/read$/,
+    (request) => {
+      const { companyId } = requireActor(request);
+      const now = new Date().toISOString();
+      store.inbox.forEach((notification) => {
+        if (notification.companyId === companyId && !notification.readAt) notification.readAt = now;
+      });
+      return { ok: true };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/messages$/,
+    (request) => {
+      const { companyId } = requireActor(request);
+      if (!companyId) return fail(400, 'A company is required to read messages.');
+      return store.messages
+        .filter((message) => message.senderCompanyId === companyId || message.receiverCompanyId === companyId)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(toMessageRow);
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/messages$/,
+    (request) => {
+      const { companyId } = requireActor(request);
+      const { receiverCompanyId, content } = parseBody(sendMessageRequestSchema, request);
+      if (!companyId) return fail(400, 'A company is required to send messages.');
+      if (!store.companies.some((company) => company.id === receiverCompanyId)) {
+        return fail(404, 'Receiver company not found.');
+      }
+
+      const message: DemoMessage = {
+        id: nextId(store.messages),
+        senderCompanyId: companyId,
+        receiverCompanyId,
+        content,
+        createdAt: new Date().toISOString(),
+      };
+      store.messages.push(message);
+
+      // Same rule as the API: only the receiver can read the message, so no one else hears about a mention.
+      const mentioned = saveMentions('message', message.id, content).filter((other) => other === receiverCompanyId);
+      notifyMentioned(mentioned, { actorCompanyId: companyId, postId: null, commentId: null });
+      return { ...message, mentions: mentionsOf('message', message.id) };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/profile$/,
+    (request) => {
+      const { user, companyId } = requireActor(request);
+      const company = store.companies.find((item) => item.id === companyId) ?? null;
+      return {
+        user: { id: user.id, email: user.email, companyId: user.companyId, name: user.name, phone: user.phone, avatar: null },
+        company,
+      };
+    },
+  ],
+  [
+    'PUT',
+    /^\/api\/profile$/,
+    (request) => {
+      const { user, companyId } = requireActor(request);
+      const body = parseBody(updateProfileRequestSchema, request);
+      const userPayload: Record<string, unknown> = body.user || {};
+      const companyPayload = body.company;
+
+      (['name', 'email', 'phone'] as const).forEach((field) => {
+        if (!Object.prototype.hasOwnProperty.call(userPayload, field)) return;
+        const value = userPayload[field];
+        (user as unknown as Record<string, unknown>)[field] = value === '' ? null : value;
+      });
+
+      const company = store.companies.find((item) => item.id === companyId);
+      if (company && companyPayload) {
+        requireCompanyRole(request, ['owner', 'manager']);
+        applyCompanyFields(company, companyPayload);
+      }
+
+      return { ok: true };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/team$/,
+    (request) => {
+      const { companyId, companyRole } = requireCompanyRole(request, companyRoles);
+      const members = store.users
+        .filter((user) => user.companyId === companyId)
+        .sort(
+          (a, b) =>
+            companyRoles.indexOf(a.companyRole ?? 'member') - companyRoles.indexOf(b.companyRole ?? 'member') ||
+            a.email.localeCompare(b.email)
+        );
+      return { members: members.map(toTeamMember), companyRole };
+    },
+  ],
+  [
+    'POST',
+    /^\/api\/team\/invitations$/,
+    (request) => {
+      const { companyId } = requireCompanyRole(request, ['owner']);
+      const { email, companyRole } = parseBody(inviteMemberRequestSchema, request);
+
+      if (store.users.some((user) => user.email === email)) return fail(409, 'Email already exists.');
+
+      const member: DemoUser = {
+        id: nextId(store.users),
+        email,
+        role: 'company',
+        companyId,
+        companyRole,
+        name: null,
+        phone: null,
+      };
+      store.users.push(member);
+      return { ...toTeamMember(member), invitationPending: true, invitationSent: true };
+    },
+  ],
+  [
+    'PATCH',
+    /^\/api\/team\/(\d+)$/,
+    (request, [id]) => {
+      const { companyId } = requireCompanyRole(request, ['owner']);
+      const { companyRole } = parseBody(updateMemberRoleRequestSchema, request);
+
+      const member = findTeamMember(companyId, id);
+      if (isLastOwner(member) && companyRole !== 'owner') {
+        return fail(409, 'A company must keep at least one owner.');
+      }
+
+      member.companyRole = companyRole;
+      return toTeamMember(member);
+    },
+  ],
+  [
+    'DELETE',
+    /^\/api\/team\/(\d+)$/,
+    (request, [id]) => {
+      const { companyId } = requireCompanyRole(request, ['owner']);
+      const member = findTeamMember(companyId, id);
+      if (isLastOwner(member)) return fail(409, 'A company must keep at least one owner.');
+
+      store.users = store.users.filter((user) => user.id !== member.id);
+      return { id: member.id };
+    },
+  ],
+  [
+    'GET',
+    /^\/api\/settings\/notifications$/,
+    (request) => ({ notifications: store.notifications.get(requireActor(request).user.id) || {} }),
+  ],
+  [
+    'PUT',
+    /^\/api\/settings\/notifications$/,
+    (request) => {
+      const { user } = requireActor(request);
+      const { notifications } = parseBody(updateNotificationsRequestSchema, request);
+      store.notifications.set(user.id, notifications);
+      return { notifications };
+    },
+  ],
+];
+
+// Serves apiFetch calls from the in-memory demo store instead of the backend.
+export async function mockApiFetch<T>(path: string, options: RequestInit = {}): Promise<T> {
+  const url = new URL(path, 'http://demo.local');
+  const method = (options.method || 'GET').toUpperCase();
+  const request: MockRequest = {
+    method,
+    path: url.pathname,
+    query: url.searchParams,
+    body: typeof options.body === 'string' && options.body ? JSON.parse(options.body) : {},
+    headers: new Headers(options.headers || {}),
+  };
+
+  // Keep a small delay so loading states behave as they do against the real API.
+  await new Promise((resolve) => setTimeout(resolve, 150));
+
+  for (const [routeMethod, pattern, handler] of routes) {
+    if (routeMethod !== method) continue;
+    const match = pattern.exec(request.path);
+    if (!match) continue;
+    return structuredClone(handler(request, match.slice(1))) as T;
+  }
+
+  return fail(404, 'This feature is not available in demo mode.');
+}
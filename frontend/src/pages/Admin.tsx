@@ -1,12 +1,27 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useMemo, useState } from 'react';
+import type { FieldErrors } from '@cyberparc/shared';
 import { MainLayout } from '@/components/layout/MainLayout';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FieldError, invalidFieldProps } from '@/components/FieldError';
+import { ForbiddenState } from '@/components/ForbiddenState';
+import { LoginAttemptsCard } from '@/components/admin/LoginAttemptsCard';
+import { PostTrashCard } from '@/components/admin/PostTrashCard';
+import { SchemaCard } from '@/components/admin/SchemaCard';
 import { useAuth } from '@/context/AuthContext';
-import { apiFetch } from '@/lib/api';
-import { Navigate } from 'react-router-dom';
+import {
+  useAdminCompanies,
+  useCreateCompany,
+  useDeleteCompany,
+  useInviteCompany,
+  useSecurityPolicy,
+  useUpdateCompany,
+  useUpdateSecurityPolicy,
+} from '@/hooks/queries/admin';
+import { getFieldErrors, isForbiddenError, isTwoFactorRequiredError } from '@/lib/api';
 
 interface Company {
   id: number;
@@ -18,9 +33,19 @@ interface Company {
   email: string;
 }
 
+// API field names that the company forms label differently.
+const companyFieldAliases = { industry: 'sector', location: 'address' };
+
 export default function Admin() {
-  const { user } = useAuth();
-  const [companies, setCompanies] = useState<Company[]>([]);
+  const { user, twoFactorSetupRequired } = useAuth();
+  const isAdmin = user?.role === 'admin';
+  const companiesQuery = useAdminCompanies({ enabled: isAdmin });
+  const { data: securityPolicy } = useSecurityPolicy({ enabled: isAdmin });
+  const createCompany = useCreateCompany();
+  const updateCompany = useUpdateCompany();
+  const deleteCompany = useDeleteCompany();
+  const inviteCompany = useInviteCompany();
+  const updateSecurityPolicy = useUpdateSecurityPolicy();
   const [form, setForm] = useState({
     name: '',
     email: '',
@@ -30,10 +55,10 @@ export default function Admin() {
     website: '',
     phone: '',
   });
+  const [formErrors, setFormErrors] = useState<FieldErrors>({});
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
   const [confirmDelete, setConfirmDelete] = useState<{ show: boolean; companyId?: number; companyName?: string }>({ show: false });
-  const [loading, setLoading] = useState(true);
-  const [submitting, setSubmitting] = useState(false);
+  const [mutationForbidden, setMutationForbidden] = useState(false);
   const [query, setQuery] = useState('');
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [editingCompany, setEditingCompany] = useState<Company | null>(null);
@@ -45,87 +70,84 @@ export default function Admin() {
     website: '',
     phone: '',
   });
+  const [editErrors, setEditErrors] = useState<FieldErrors>({});
 
-  const fetchCompanies = async () => {
-    try {
-      setLoading(true);
-      const data = await apiFetch<Array<{
-        id: number;
-        name: string;
-        industry?: string | null;
-        location?: string | null;
-        website?: string | null;
-        email?: string | null;
-        phone?: string | null;
-        admin?: string | null;
-      }>>('/api/admin/companies');
+  const companies = useMemo<Company[]>(
+    () =>
+      (companiesQuery.data ?? []).map((company) => ({
+        id: company.id,
+        name: company.name,
+        sector: company.industry || '—',
+        address: company.location || '—',
+        website: company.website || '',
+        phone: company.phone || '',
+        email: company.email || company.admin || '—',
+      })),
+    [companiesQuery.data]
+  );
+  const loading = companiesQuery.isPending;
+  const forbidden = mutationForbidden || isForbiddenError(companiesQuery.error);
+  const twoFactorBlocked = isTwoFactorRequiredError(companiesQuery.error);
 
-      setCompanies(
-        (Array.isArray(data) ? data : []).map((company) => ({
-          id: company.id,
-          name: company.name,
-          sector: company.industry || '—',
-          address: company.location || '—',
-          website: company.website || '',
-          phone: company.phone || '',
-          email: company.email || company.admin || '—',
-        }))
-      );
-    } catch (error) {
-      console.error('Erreur fetch companies:', error);
-      setCompanies([]);
+  const handleToggleTwoFactorPolicy = async (requireAdminTwoFactor: boolean) => {
+    try {
+      const policy = await updateSecurityPolicy.mutateAsync({ requireAdminTwoFactor });
+      setMessage({
+        type: 'success',
+        text: policy.requireAdminTwoFactor
+          ? 'La double authentification est désormais obligatoire pour les administrateurs.'
+          : "La double authentification n'est plus obligatoire pour les administrateurs.",
+      });
+    } catch (err) {
+      const messageText = err instanceof Error ? err.message : 'Impossible de modifier la politique';
+      setMessage({ type: 'error', text: messageText });
     } finally {
-      setLoading(false);
+      setTimeout(() => setMessage(null), 3000);
     }
   };
 
-  useEffect(() => {
-    fetchCompanies();
-  }, []);
-
-  if (user?.role !== 'admin') {
-    return <Navigate to="/dashboard" replace />;
-  }
-
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setForm({ ...form, [e.target.name]: e.target.value });
+    setFormErrors(({ [e.target.name]: _cleared, ...rest }) => rest);
   };
 
   const handleAddCompany = async (e: React.FormEvent) => {
     e.preventDefault();
-    setSubmitting(true);
+    setFormErrors({});
     try {
-      await apiFetch('/api/admin/companies', {
-        method: 'POST',
-        body: JSON.stringify({
-          name: form.name,
-          email: form.email,
-          password: form.password,
-          role: 'company',
-          industry: form.sector,
-          location: form.address,
-          website: form.website,
-          phone: form.phone,
-        }),
+      const created = await createCompany.mutateAsync({
+        name: form.name,
+        email: form.email,
+        password: form.password,
+        role: 'company',
+        industry: form.sector,
+        location: form.address,
+        website: form.website,
+        phone: form.phone,
+      });
+      setMessage({
+        type: 'success',
+        text: created.invitationSent
+          ? `Entreprise ajoutée ! Une invitation a été envoyée à ${form.email}.`
+          : 'Entreprise ajoutée avec succès !',
       });
-      setMessage({ type: 'success', text: 'Entreprise ajoutée avec succès !' });
       setForm({ name: '', email: '', password: '', sector: '', address: '', website: '', phone: '' });
-      fetchCompanies();
     } catch (err) {
+      setMutationForbidden(isForbiddenError(err));
+      setFormErrors(getFieldErrors(err, companyFieldAliases));
       const messageText = err instanceof Error ? err.message : 'Erreur lors de l’ajout';
       setMessage({ type: 'error', text: messageText });
     } finally {
-      setSubmitting(false);
       setTimeout(() => setMessage(null), 3000);
     }
   };
 
   const handleDeleteCompany = async (id: number) => {
     try {
-      await apiFetch(`/api/admin/companies/${id}`, { method: 'DELETE' });
+      await deleteCompany.mutateAsync(id);
       setMessage({ type: 'success', text: 'Entreprise supprimée !' });
-      fetchCompanies();
     } catch (err) {
+      setMutationForbidden(isForbiddenError(err));
       const messageText = err instanceof Error ? err.message : 'Impossible de supprimer';
       setMessage({ type: 'error', text: messageText });
     } finally {
@@ -134,6 +156,19 @@ export default function Admin() {
     }
   };
 
+  const handleInviteCompany = async (company: Company) => {
+    try {
+      const result = await inviteCompany.mutateAsync(company.id);
+      setMessage({ type: 'success', text: `Invitation envoyée à ${result.email}.` });
+    } catch (err) {
+      setMutationForbidden(isForbiddenError(err));
+      const messageText = err instanceof Error ? err.message : 'Impossible d’envoyer l’invitation';
+      setMessage({ type: 'error', text: messageText });
+    } finally {
+      setTimeout(() => setMessage(null), 3000);
+    }
+  };
+
   const openEditCompany = (company: Company) => {
     setEditingCompany(company);
     setEditForm({
@@ -144,11 +179,13 @@ export default function Admin() {
       website: company.website || '',
       phone: company.phone || '',
     });
+    setEditErrors({});
     setIsEditOpen(true);
   };
 
   const handleEditChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setEditForm({ ...editForm, [e.target.name]: e.target.value });
+    setEditErrors(({ [e.target.name]: _cleared, ...rest }) => rest);
   };
 
   const handleUpdateCompany = async (e: React.FormEvent) => {
@@ -156,22 +193,21 @@ export default function Admin() {
     if (!editingCompany) return;
 
     try {
-      await apiFetch(`/api/admin/companies/${editingCompany.id}`, {
-        method: 'PUT',
-        body: JSON.stringify({
-          name: editForm.name,
-          email: editForm.email,
-          industry: editForm.sector,
-          location: editForm.address,
-          website: editForm.website,
-          phone: editForm.phone,
-        }),
+      await updateCompany.mutateAsync({
+        id: editingCompany.id,
+        name: editForm.name,
+        email: editForm.email,
+        industry: editForm.sector,
+        location: editForm.address,
+        website: editForm.website,
+        phone: editForm.phone,
       });
       setMessage({ type: 'success', text: 'Entreprise modifiée avec succès !' });
       setIsEditOpen(false);
       setEditingCompany(null);
-      fetchCompanies();
     } catch (err) {
+      setMutationForbidden(isForbiddenError(err));
+      setEditErrors(getFieldErrors(err, companyFieldAliases));
       const messageText = err instanceof Error ? err.message : 'Erreur lors de la modification';
       setMessage({ type: 'error', text: messageText });
     } finally {
@@ -188,6 +224,27 @@ export default function Admin() {
     );
   }, [companies, query]);
 
+  if (isAdmin && (twoFactorSetupRequired || twoFactorBlocked)) {
+    return (
+      <MainLayout title="Administration des entreprises" subtitle="Gestion des entreprises">
+        <ForbiddenState
+          title="Double authentification requise"
+          description="Activez la double authentification sur votre compte pour accéder à l'administration."
+          actionLabel="Configurer la double authentification"
+          actionTo="/settings?tab=security"
+        />
+      </MainLayout>
+    );
+  }
+
+  if (!isAdmin || forbidden) {
+    return (
+      <MainLayout title="Administration des entreprises" subtitle="Gestion des entreprises">
+        <ForbiddenState description="Cette section est réservée aux administrateurs du Cyber Parc." />
+      </MainLayout>
+    );
+  }
+
   return (
     <MainLayout title="Administration des entreprises" subtitle="Gestion des entreprises">
       <div className="space-y-6">
@@ -203,21 +260,96 @@ export default function Admin() {
           <CardContent className="p-6 space-y-4">
             <h2 className="text-lg font-semibold">Ajouter une entreprise</h2>
             <form className="grid grid-cols-1 md:grid-cols-2 gap-4" onSubmit={handleAddCompany}>
-              <Input type="text" name="name" placeholder="Nom de l'entreprise" value={form.name} onChange={handleChange} required />
-              <Input type="email" name="email" placeholder="Email" value={form.email} onChange={handleChange} required />
-              <Input type="password" name="password" placeholder="Mot de passe" value={form.password} onChange={handleChange} required />
-              <Input type="text" name="sector" placeholder="Secteur" value={form.sector} onChange={handleChange} />
-              <Input type="text" name="address" placeholder="Adresse" value={form.address} onChange={handleChange} />
-              <Input type="text" name="website" placeholder="Site Web" value={form.website} onChange={handleChange} />
-              <Input type="text" name="phone" placeholder="Téléphone" value={form.phone} onChange={handleChange} />
+              <div>
+                <Input
+                  type="text"
+                  name="name"
+                  placeholder="Nom de l'entreprise"
+                  value={form.name}
+                  onChange={handleChange}
+                  required
+                  {...invalidFieldProps(formErrors, 'name')}
+                />
+                <FieldError errors={formErrors} field="name" />
+              </div>
+              <div>
+                <Input
+                  type="email"
+                  name="email"
+                  placeholder="Email"
+                  value={form.email}
+                  onChange={handleChange}
+                  required
+                  {...invalidFieldProps(formErrors, 'email')}
+                />
+                <FieldError errors={formErrors} field="email" />
+              </div>
+              <div>
+                <Input
+                  type="password"
+                  name="password"
+                  placeholder="Mot de passe (vide = envoyer une invitation)"
+                  value={form.password}
+                  onChange={handleChange}
+                  {...invalidFieldProps(formErrors, 'password')}
+                />
+                <FieldError errors={formErrors} field="password" />
+              </div>
+              <div>
+                <Input
+                  type="text"
+                  name="sector"
+                  placeholder="Secteur"
+                  value={form.sector}
+                  onChange={handleChange}
+                  {...invalidFieldProps(formErrors, 'sector')}
+                />
+                <FieldError errors={formErrors} field="sector" />
+              </div>
+              <div>
+                <Input
+                  type="text"
+                  name="address"
+                  placeholder="Adresse"
+                  value={form.address}
+                  onChange={handleChange}
+                  {...invalidFieldProps(formErrors, 'address')}
+                />
+                <FieldError errors={formErrors} field="address" />
+              </div>
+              <div>
+                <Input
+                  type="text"
+                  name="website"
+                  placeholder="Site Web"
+                  value={form.website}
+                  onChange={handleChange}
+                  {...invalidFieldProps(formErrors, 'website')}
+                />
+                <FieldError errors={formErrors} field="website" />
+              </div>
+              <div>
+                <Input
+                  type="text"
+                  name="phone"
+                  placeholder="Téléphone"
+                  value={form.phone}
+                  onChange={handleChange}
+                  {...invalidFieldProps(formErrors, 'phone')}
+                />
+                <FieldError errors={formErrors} field="phone" />
+              </div>
               <div className="md:col-span-2 flex gap-2">
-                <Button type="submit" disabled={submitting}>
-                  {submitting ? 'Ajout...' : "Ajouter l'entreprise"}
+                <Button type="submit" disabled={createCompany.isPending}>
+                  {createCompany.isPending ? 'Ajout...' : "Ajouter l'entreprise"}
                 </Button>
                 <Button
                   type="button"
                   variant="outline"
-                  onClick={() => setForm({ name: '', email: '', password: '', sector: '', address: '', website: '', phone: '' })}
+                  onClick={() => {
+                    setForm({ name: '', email: '', password: '', sector: '', address: '', website: '', phone: '' });
+                    setFormErrors({});
+                  }}
                 >
                   Réinitialiser
                 </Button>
@@ -299,6 +431,14 @@ export default function Admin() {
                           >
                             Modifier
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="ml-2"
+                            onClick={() => handleInviteCompany(company)}
+                          >
+                            Inviter
+                          </Button>
                         </td>
                       </tr>
                     ))}
@@ -308,6 +448,29 @@ export default function Admin() {
             )}
           </CardContent>
         </Card>
+
+        {securityPolicy && (
+          <Card>
+            <CardContent className="p-6 flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-lg font-semibold">Sécurité</h2>
+                <p className="text-sm text-muted-foreground">
+                  Exiger la double authentification pour tous les comptes administrateurs
+                </p>
+              </div>
+              <Switch
+                checked={securityPolicy.requireAdminTwoFactor}
+                onCheckedChange={handleToggleTwoFactorPolicy}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <PostTrashCard />
+
+        <LoginAttemptsCard />
+
+        <SchemaCard />
       </div>
 
       <Dialog open={confirmDelete.show} onOpenChange={(open) => setConfirmDelete({ show: open })}>
@@ -336,12 +499,74 @@ export default function Admin() {
             <DialogTitle>Modifier l'entreprise</DialogTitle>
           </DialogHeader>
           <form className="grid grid-cols-1 md:grid-cols-2 gap-4" onSubmit={handleUpdateCompany}>
-            <Input type="text" name="name" placeholder="Nom" value={editForm.name} onChange={handleEditChange} required />
-            <Input type="email" name="email" placeholder="Email" value={editForm.email} onChange={handleEditChange} required />
-            <Input type="text" name="sector" placeholder="Secteur" value={editForm.sector} onChange={handleEditChange} />
-            <Input type="text" name="address" placeholder="Adresse" value={editForm.address} onChange={handleEditChange} />
-            <Input type="text" name="website" placeholder="Site Web" value={editForm.website} onChange={handleEditChange} />
-            <Input type="text" name="phone" placeholder="Téléphone" value={editForm.phone} onChange={handleEditChange} />
+            <div>
+              <Input
+                type="text"
+                name="name"
+                placeholder="Nom"
+                value={editForm.name}
+                onChange={handleEditChange}
+                required
+                {...invalidFieldProps(editErrors, 'name')}
+              />
+              <FieldError errors={editErrors} field="name" />
+            </div>
+            <div>
+              <Input
+                type="email"
+                name="email"
+                placeholder="Email"
+                value={editForm.email}
+                onChange={handleEditChange}
+                required
+                {...invalidFieldProps(editErrors, 'email')}
+              />
+              <FieldError errors={editErrors} field="email" />
+            </div>
+            <div>
+              <Input
+                type="text"
+                name="sector"
+                placeholder="Secteur"
+                value={editForm.sector}
+                onChange={handleEditChange}
+                {...invalidFieldProps(editErrors, 'sector')}
+              />
+              <FieldError errors={editErrors} field="sector" />
+            </div>
+            <div>
+              <Input
+                type="text"
+                name="address"
+                placeholder="Adresse"
+                value={editForm.address}
+                onChange={handleEditChange}
+                {...invalidFieldProps(editErrors, 'address')}
+              />
+              <FieldError errors={editErrors} field="address" />
+            </div>
+            <div>
+              <Input
+                type="text"
+                name="website"
+                placeholder="Site Web"
+                value={editForm.website}
+                onChange={handleEditChange}
+                {...invalidFieldProps(editErrors, 'website')}
+              />
+              <FieldError errors={editErrors} field="website" />
+            </div>
+            <div>
+              <Input
+                type="text"
+                name="phone"
+                placeholder="Téléphone"
+                value={editForm.phone}
+                onChange={handleEditChange}
+                {...invalidFieldProps(editErrors, 'phone')}
+              />
+              <FieldError errors={editErrors} field="phone" />
+            </div>
             <div className="md:col-span-2 flex justify-end gap-2">
               <Button type="button" variant="outline" onClick={() => setIsEditOpen(false)}>Annuler</Button>
               <Button type="submit">Enregistrer</Button>
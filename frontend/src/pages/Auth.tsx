@@ -1,40 +1,104 @@
-import { useState } from 'react';
-import { Navigate, useNavigate } from 'react-router-dom';
-import { motion } from 'framer-motion';
-import { Building2, Mail, Lock, Loader2, ArrowRight } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { Link, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { Mail, Lock, Loader2, ArrowLeft, ArrowRight, AlertCircle, FlaskConical, ShieldCheck, Timer } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AuthLayout } from '@/components/layout/AuthLayout';
+import { SessionLoader } from '@/components/RequireAuth';
+import { OtpCodeInput } from '@/components/OtpCodeInput';
 import { useAuth } from '@/context/AuthContext';
 import { useToast } from '@/hooks/use-toast';
+import { getRetryAfterSeconds } from '@/lib/api';
+import { DEMO_PASSWORD, demoUsers } from '@/lib/demo-fixtures';
+import { isDemoMode } from '@/lib/mock-api';
+
+const formatLockout = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return minutes > 0 ? `${minutes} min ${String(rest).padStart(2, '0')} s` : `${rest} s`;
+};
 
 export default function Auth() {
   const [isLoading, setIsLoading] = useState(false);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const { login, isAuthenticated } = useAuth();
+  const [loginError, setLoginError] = useState('');
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [lockoutRemaining, setLockoutRemaining] = useState(0);
+  const { login, verifyTwoFactor, isAuthenticated, isLoading: isSessionLoading } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
   const { toast } = useToast();
+  const redirectTo = (location.state as { from?: { pathname?: string } } | null)?.from?.pathname || '/dashboard';
+
+  useEffect(() => {
+    if (!lockedUntil) return;
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((lockedUntil - Date.now()) / 1000));
+      setLockoutRemaining(remaining);
+      if (remaining === 0) setLockedUntil(null);
+    };
+
+    tick();
+    const interval = window.setInterval(tick, 1000);
+    return () => window.clearInterval(interval);
+  }, [lockedUntil]);
+
+  const isLockedOut = lockoutRemaining > 0;
+
+  // A 429 carries the lockout length; show it as a countdown instead of a generic error.
+  const handleLockout = (error: unknown) => {
+    const retryAfter = getRetryAfterSeconds(error);
+    if (!retryAfter) return false;
+    setLoginError('');
+    setLockedUntil(Date.now() + retryAfter * 1000);
+    setLockoutRemaining(retryAfter);
+    return true;
+  };
+
+  if (isSessionLoading) {
+    return <SessionLoader />;
+  }
 
   // Redirect if already authenticated
   if (isAuthenticated) {
-    return <Navigate to="/dashboard" replace />;
+    return <Navigate to={redirectTo} replace />;
   }
 
+  const completeLogin = () => {
+    toast({
+      title: 'Connexion réussie',
+      description: `Bienvenue sur Cyber Parc Intranet`,
+    });
+    navigate(redirectTo, { replace: true });
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
+    setLoginError('');
 
     try {
-      await login(email, password);
-      toast({
-        title: 'Connexion réussie',
-        description: `Bienvenue sur Cyber Parc Intranet`,
-      });
-      navigate('/dashboard');
+      const result = await login(email, password);
+
+      if (result.status === 'two_factor') {
+        setChallengeToken(result.challengeToken);
+        setCode('');
+        return;
+      }
+
+      completeLogin();
     } catch (error) {
+      if (handleLockout(error)) return;
       const message = error instanceof Error ? error.message : 'Vérifiez vos identifiants';
+      setLoginError(message || 'Vérifiez vos identifiants');
       toast({
         title: 'Erreur de connexion',
         description: message || 'Vérifiez vos identifiants',
@@ -45,165 +109,243 @@ export default function Auth() {
     }
   };
 
+  const handleVerifyCode = async (value = code) => {
+    if (!challengeToken || !value) return;
+
+    setIsLoading(true);
+    setLoginError('');
+
+    try {
+      await verifyTwoFactor(challengeToken, value);
+      completeLogin();
+    } catch (error) {
+      setCode('');
+      if (handleLockout(error)) return;
+      const message = error instanceof Error ? error.message : 'Code invalide';
+      setLoginError(message || 'Code invalide');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const lockoutAlert = (
+    <Alert variant="destructive">
+      <Timer className="w-4 h-4" />
+      <AlertDescription>
+        Trop de tentatives de connexion échouées. Réessayez dans{' '}
+        <strong>{formatLockout(lockoutRemaining)}</strong>.
+      </AlertDescription>
+    </Alert>
+  );
+
+  const cancelTwoFactor = () => {
+    setChallengeToken(null);
+    setCode('');
+    setUseRecoveryCode(false);
+    setLoginError('');
+    setPassword('');
+  };
+
+  if (challengeToken) {
+    return (
+      <AuthLayout>
+        <Card className="border-border/50 shadow-xl">
+          <CardHeader className="text-center pb-4">
+            <ShieldCheck className="w-10 h-10 text-accent mx-auto mb-2" />
+            <CardTitle className="text-2xl font-bold">Vérification en deux étapes</CardTitle>
+            <CardDescription>
+              {useRecoveryCode
+                ? 'Saisissez un de vos codes de récupération'
+                : "Saisissez le code à 6 chiffres de votre application d'authentification"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleVerifyCode();
+              }}
+              className="space-y-4"
+            >
+              {loginError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="w-4 h-4" />
+                  <AlertDescription>{loginError}</AlertDescription>
+                </Alert>
+              )}
+
+              {isLockedOut && lockoutAlert}
+
+              {useRecoveryCode ? (
+                <Input
+                  placeholder="xxxxx-xxxxx"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="off"
+                  autoFocus
+                />
+              ) : (
+                <OtpCodeInput
+                  value={code}
+                  onChange={setCode}
+                  onComplete={handleVerifyCode}
+                  disabled={isLoading || isLockedOut}
+                  autoFocus
+                />
+              )}
+
+              <Button
+                type="submit"
+                className="w-full bg-accent hover:bg-accent/90 text-accent-foreground gap-2"
+                disabled={isLoading || isLockedOut || !code}
+              >
+                {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+                Vérifier
+              </Button>
+            </form>
+
+            <div className="mt-6 flex items-center justify-between text-sm">
+              <button
+                type="button"
+                onClick={cancelTwoFactor}
+                className="text-muted-foreground hover:text-foreground inline-flex items-center gap-1"
+              >
+                <ArrowLeft className="w-4 h-4" />
+                Retour
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode('');
+                  setLoginError('');
+                }}
+                className="text-accent hover:underline font-medium"
+              >
+                {useRecoveryCode ? "Utiliser l'application" : 'Utiliser un code de récupération'}
+              </button>
+            </div>
+          </CardContent>
+        </Card>
+      </AuthLayout>
+    );
+  }
+
   return (
-    <div className="min-h-screen flex">
-      {/* Left panel - Branding */}
-      <div className="hidden lg:flex lg:flex-1 bg-primary relative overflow-hidden">
-        <div className="absolute inset-0 bg-gradient-to-br from-primary via-primary to-accent/20" />
-        <div className="absolute inset-0 opacity-10">
-          <div className="absolute inset-0" style={{
-            backgroundImage: `url("data:image/svg+xml,%3Csvg width='60' height='60' viewBox='0 0 60 60' xmlns='http://www.w3.org/2000/svg'%3E%3Cg fill='none' fill-rule='evenodd'%3E%3Cg fill='%23ffffff' fill-opacity='0.4'%3E%3Cpath d='M36 34v-4h-2v4h-4v2h4v4h2v-4h4v-2h-4zm0-30V0h-2v4h-4v2h4v4h2V6h4V4h-4zM6 34v-4H4v4H0v2h4v4h2v-4h4v-2H6zM6 4V0H4v4H0v2h4v4h2V6h4V4H6z'/%3E%3C/g%3E%3C/g%3E%3C/svg%3E")`,
-          }} />
-        </div>
-        
-        <div className="relative z-10 flex flex-col justify-center px-12 text-primary-foreground">
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.6 }}
-          >
-            <div className="flex items-center gap-4 mb-8">
-              <div className="w-16 h-16 rounded-2xl bg-accent flex items-center justify-center">
-                <Building2 className="w-8 h-8 text-accent-foreground" />
-              </div>
-              <div>
-                <h1 className="text-3xl font-bold">Cyber Parc</h1>
-                <p className="text-primary-foreground/70">Intranet</p>
+    <AuthLayout>
+      <Card className="border-border/50 shadow-xl">
+        <CardHeader className="text-center pb-4">
+          <CardTitle className="text-2xl font-bold">Connexion</CardTitle>
+          <CardDescription>
+            Accédez à votre espace Cyber Parc
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleLogin} className="space-y-4">
+            {loginError && (
+              <Alert variant="destructive">
+                <AlertCircle className="w-4 h-4" />
+                <AlertDescription>{loginError}</AlertDescription>
+              </Alert>
+            )}
+
+            {isLockedOut && lockoutAlert}
+
+            <div className="space-y-2">
+              <Label htmlFor="email">Adresse email</Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="votre@email.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className="pl-10"
+                  required
+                />
               </div>
             </div>
-            
-            <h2 className="text-4xl font-bold leading-tight mb-6">
-              Votre espace de<br />
-              collaboration<br />
-              <span className="text-accent">entreprises.</span>
-            </h2>
-            
-            <p className="text-lg text-primary-foreground/80 max-w-md">
-              Connectez-vous avec les entreprises du Cyber Parc, partagez vos idées et développez votre réseau professionnel.
-            </p>
-          </motion.div>
-          
-          <motion.div
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            transition={{ delay: 0.4, duration: 0.6 }}
-            className="mt-12 flex items-center gap-6"
-          >
-            <div className="flex -space-x-3">
-              {[1, 2, 3, 4].map((i) => (
-                <div
-                  key={i}
-                  className="w-10 h-10 rounded-full bg-accent/20 border-2 border-primary flex items-center justify-center text-sm font-medium"
-                >
-                  {String.fromCharCode(64 + i)}
-                </div>
-              ))}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Mot de passe</Label>
+                <Link to="/forgot-password" className="text-xs text-accent hover:underline">
+                  Mot de passe oublié ?
+                </Link>
+              </div>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="••••••••"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="pl-10"
+                  required
+                />
+              </div>
             </div>
-            <p className="text-sm text-primary-foreground/70">
-              +50 entreprises actives
+
+            <Button
+              type="submit"
+              className="w-full bg-accent hover:bg-accent/90 text-accent-foreground gap-2 group"
+              disabled={isLoading || isLockedOut}
+            >
+              {isLoading ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Connexion en cours...
+                </>
+              ) : (
+                <>
+                  Se connecter
+                  <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
+                </>
+              )}
+            </Button>
+          </form>
+
+          <div className="mt-6 text-center">
+            <p className="text-sm text-muted-foreground">
+              Pas encore de compte?{' '}
+              <a href="#" className="text-accent hover:underline font-medium">
+                Demander un accès
+              </a>
             </p>
-          </motion.div>
-        </div>
-      </div>
-
-      {/* Right panel - Form */}
-      <div className="flex-1 flex items-center justify-center p-6 lg:p-12 bg-background">
-        <motion.div
-          initial={{ opacity: 0, x: 20 }}
-          animate={{ opacity: 1, x: 0 }}
-          transition={{ duration: 0.4 }}
-          className="w-full max-w-md"
-        >
-          {/* Mobile logo */}
-          <div className="lg:hidden flex items-center gap-3 mb-8 justify-center">
-            <div className="w-12 h-12 rounded-xl bg-primary flex items-center justify-center">
-              <Building2 className="w-6 h-6 text-primary-foreground" />
-            </div>
-            <div>
-              <h1 className="text-xl font-bold text-foreground">Cyber Parc</h1>
-              <p className="text-xs text-muted-foreground">Intranet</p>
-            </div>
           </div>
 
-          <Card className="border-border/50 shadow-xl">
-            <CardHeader className="text-center pb-4">
-              <CardTitle className="text-2xl font-bold">Connexion</CardTitle>
-              <CardDescription>
-                Accédez à votre espace Cyber Parc
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <form onSubmit={handleLogin} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="email">Adresse email</Label>
-                  <div className="relative">
-                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                    <Input
-                      id="email"
-                      type="email"
-                      placeholder="votre@email.com"
-                      value={email}
-                      onChange={(e) => setEmail(e.target.value)}
-                      className="pl-10"
-                      required
-                    />
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="password">Mot de passe</Label>
-                  <div className="relative">
-                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                    <Input
-                      id="password"
-                      type="password"
-                      placeholder="••••••••"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      className="pl-10"
-                      required
-                    />
-                  </div>
-                </div>
-
-                <Button
-                  type="submit"
-                  className="w-full bg-accent hover:bg-accent/90 text-accent-foreground gap-2 group"
-                  disabled={isLoading}
-                >
-                  {isLoading ? (
-                    <>
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                      Connexion en cours...
-                    </>
-                  ) : (
-                    <>
-                      Se connecter
-                      <ArrowRight className="w-4 h-4 group-hover:translate-x-1 transition-transform" />
-                    </>
-                  )}
-                </Button>
-              </form>
-
-              <div className="mt-6 text-center">
-                <p className="text-sm text-muted-foreground">
-                  Pas encore de compte?{' '}
-                  <a href="#" className="text-accent hover:underline font-medium">
-                    Demander un accès
-                  </a>
-                </p>
-              </div>
-
-              {/* Demo hint */}
-              <div className="mt-6 p-3 rounded-lg bg-muted/50 border border-border/50">
-                <p className="text-xs text-muted-foreground text-center">
-                  <strong>Démo:</strong> Entrez n'importe quel email/mot de passe et sélectionnez votre rôle
-                </p>
-              </div>
-            </CardContent>
-          </Card>
-        </motion.div>
-      </div>
-    </div>
+          {isDemoMode() && (
+            <div className="mt-6 p-3 rounded-lg bg-warning/10 border border-warning/30 space-y-2">
+              <p className="text-xs font-semibold text-warning flex items-center gap-2">
+                <FlaskConical className="w-4 h-4" />
+                Mode démo : données fictives, aucune connexion au serveur
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Mot de passe pour tous les comptes : <code>{DEMO_PASSWORD}</code>
+              </p>
+              <ul className="text-xs text-muted-foreground space-y-1">
+                {demoUsers.map((demoUser) => (
+                  <li key={demoUser.id}>
+                    <button
+                      type="button"
+                      className="hover:text-foreground hover:underline"
+                      onClick={() => {
+                        setEmail(demoUser.email);
+                        setPassword(DEMO_PASSWORD);
+                      }}
+                    >
+                      {demoUser.email}
+                    </button>{' '}
+                    <span className="capitalize">({demoUser.role})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </AuthLayout>
   );
 }
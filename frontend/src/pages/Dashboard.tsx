@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useMemo, useState } from 'react';
 import { motion } from 'framer-motion';
 import {
   Building2,
@@ -12,15 +12,19 @@ import {
   Share2,
   MoreHorizontal,
   Send,
+  Pin,
+  Megaphone,
 } from 'lucide-react';
 import { MainLayout } from '@/components/layout/MainLayout';
+import { Markdown } from '@/components/Markdown';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
-import { Textarea } from '@/components/ui/textarea';
 import { useAuth } from '@/context/AuthContext';
-import { apiFetch } from '@/lib/api';
+import { useDashboardSummary } from '@/hooks/queries/dashboard';
+import { useCreatePost, useTogglePostReaction } from '@/hooks/queries/forum';
 import { cn } from '@/lib/utils';
 
 const stats = [
@@ -39,6 +43,9 @@ const forumPosts = [
     likes: 24,
     comments: 8,
     liked: false,
+    isPinned: false,
+    isAnnouncement: false,
+    mentions: [],
   },
   {
     id: 2,
@@ -48,6 +55,9 @@ const forumPosts = [
     likes: 42,
     comments: 15,
     liked: true,
+    isPinned: false,
+    isAnnouncement: false,
+    mentions: [],
   },
   {
     id: 3,
@@ -57,6 +67,9 @@ const forumPosts = [
     likes: 67,
     comments: 23,
     liked: false,
+    isPinned: false,
+    isAnnouncement: false,
+    mentions: [],
   },
 ];
 
@@ -68,105 +81,71 @@ const activityFeed = [
 ];
 
 export default function Dashboard() {
-  const { user } = useAuth();
+  const { user, actingCompanyId } = useAuth();
   const [newPost, setNewPost] = useState('');
-  const [posts, setPosts] = useState(forumPosts);
-  const [dashboardStats, setDashboardStats] = useState(stats);
-  const [dashboardActivity, setDashboardActivity] = useState(activityFeed);
+  const { data: summary } = useDashboardSummary();
+  const createPost = useCreatePost();
+  const togglePostReaction = useTogglePostReaction();
 
-  const refreshSummary = async () => {
-    const data = await apiFetch<{
-      stats: { users: number; companies: number; posts: number; comments: number };
-      activity: Array<{ title: string; note: string; time: string; tag?: string }>;
-      recentPosts: Array<{ id: number; title: string; company: string; createdAt: string }>;
-    }>('/api/admin/summary');
+  const dashboardStats = summary
+    ? [
+        { label: 'Entreprises', value: String(summary.stats.companies), change: '', icon: Building2, color: 'text-accent' },
+        { label: 'Messages', value: String(summary.stats.comments), change: '', icon: MessageSquare, color: 'text-info' },
+        { label: 'Membres actifs', value: String(summary.stats.users), change: '', icon: Users, color: 'text-success' },
+        { label: 'Posts', value: String(summary.stats.posts), change: '', icon: TrendingUp, color: 'text-warning' },
+      ]
+    : stats;
 
-    setDashboardStats([
-      { label: 'Entreprises', value: String(data.stats.companies), change: '', icon: Building2, color: 'text-accent' },
-      { label: 'Messages', value: String(data.stats.comments), change: '', icon: MessageSquare, color: 'text-info' },
-      { label: 'Membres actifs', value: String(data.stats.users), change: '', icon: Users, color: 'text-success' },
-      { label: 'Posts', value: String(data.stats.posts), change: '', icon: TrendingUp, color: 'text-warning' },
-    ]);
-
-    setDashboardActivity(
-      data.activity.map((item, index) => ({
+  const dashboardActivity = summary
+    ? summary.activity.map((item, index) => ({
         id: index + 1,
         company: item.title,
         action: item.note,
         time: item.time,
       }))
-    );
-
-    if (data.recentPosts?.length) {
-      setPosts(
-        data.recentPosts.map((post) => ({
-          id: post.id,
-          author: { name: post.company, avatar: '', role: 'Entreprise' },
-          content: post.title,
-          time: new Date(post.createdAt).toLocaleString('fr-FR', {
-            hour: '2-digit',
-            minute: '2-digit',
-            day: '2-digit',
-            month: 'short',
-          }),
-          likes: 0,
-          comments: 0,
-          liked: false,
-        }))
-      );
-    }
-  };
+    : activityFeed;
 
-  useEffect(() => {
-    let isMounted = true;
-
-    const loadSummary = async () => {
-      try {
-        await refreshSummary();
-      } catch (error) {
-        if (isMounted) {
-          console.error('Failed to load dashboard summary', error);
-        }
-      }
-    };
-
-    loadSummary();
-
-    return () => {
-      isMounted = false;
-    };
-  }, []);
+  const recentPosts = useMemo(
+    () =>
+      summary?.recentPosts?.length
+        ? summary.recentPosts.map((post) => ({
+            id: post.id,
+            author: { name: post.company, avatar: '', role: 'Entreprise' },
+            content: post.content,
+            mentions: post.mentions,
+            time: new Date(post.createdAt).toLocaleString('fr-FR', {
+              hour: '2-digit',
+              minute: '2-digit',
+              day: '2-digit',
+              month: 'short',
+            }),
+            likes: post.likes,
+            comments: post.comments,
+            liked: post.liked,
+            isPinned: post.isPinned,
+            isAnnouncement: post.isAnnouncement,
+          }))
+        : forumPosts,
+    [summary]
+  );
 
   const handleLike = (postId: number) => {
-    setPosts(posts.map(post => {
-      if (post.id === postId) {
-        return {
-          ...post,
-          liked: !post.liked,
-          likes: post.liked ? post.likes - 1 : post.likes + 1
-        };
-      }
-      return post;
-    }));
+    // The placeholder posts shown before the summary loads are not stored anywhere.
+    const post = summary?.recentPosts.find((item) => item.id === postId);
+    if (post) togglePostReaction.mutate({ id: postId, type: 'like', reacted: !post.liked });
   };
 
   const handlePost = async () => {
-    if (!newPost.trim() || !user?.companyId) return;
+    if (!newPost.trim() || !actingCompanyId) return;
 
     try {
-      await apiFetch('/api/forum/posts', {
-        method: 'POST',
-        body: JSON.stringify({
-          title: newPost.slice(0, 80),
-          content: newPost,
-          category: 'announcements',
-          companyId: user.companyId,
-          userId: user.id,
-        }),
+      await createPost.mutateAsync({
+        title: newPost.slice(0, 80),
+        content: newPost,
+        category: 'announcements',
       });
 
       setNewPost('');
-      await refreshSummary();
     } catch (error) {
       console.error('Failed to create dashboard post', error);
     }
@@ -223,10 +202,10 @@ export default function Dashboard() {
                   </AvatarFallback>
                 </Avatar>
                 <div className="flex-1 space-y-3">
-                  <Textarea
+                  <MarkdownEditor
                     placeholder="Partagez quelque chose avec la communauté..."
                     value={newPost}
-                    onChange={(e) => setNewPost(e.target.value)}
+                    onChange={setNewPost}
                     className="min-h-[80px] resize-none"
                   />
                   <div className="flex justify-end">
@@ -245,7 +224,7 @@ export default function Dashboard() {
           </Card>
 
           {/* Posts */}
-          {posts.map((post, index) => (
+          {recentPosts.map((post, index) => (
             <motion.div
               key={post.id}
               initial={{ opacity: 0, y: 20 }}
@@ -263,14 +242,25 @@ export default function Dashboard() {
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center justify-between mb-2">
                       <div>
-                        <h4 className="font-semibold text-foreground">{post.author.name}</h4>
+                        <h4 className="font-semibold text-foreground flex items-center gap-2">
+                          {post.author.name}
+                          {post.isPinned && <Pin className="w-3.5 h-3.5 text-accent" aria-label="Épinglé" />}
+                          {post.isAnnouncement && (
+                            <Badge className="gap-1 bg-info text-info-foreground">
+                              <Megaphone className="w-3 h-3" />
+                              Annonce officielle
+                            </Badge>
+                          )}
+                        </h4>
                         <p className="text-sm text-muted-foreground">{post.author.role} • {post.time}</p>
                       </div>
                       <Button variant="ghost" size="icon" className="text-muted-foreground">
                         <MoreHorizontal className="w-4 h-4" />
                       </Button>
                     </div>
-                    <p className="text-foreground mb-4 whitespace-pre-wrap">{post.content}</p>
+                    <Markdown mentions={post.mentions} className="text-foreground mb-4">
+                      {post.content}
+                    </Markdown>
                     <div className="flex items-center gap-4">
                       <Button
                         variant="ghost"
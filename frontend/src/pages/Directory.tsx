@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import {
   Search,
@@ -33,7 +34,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { apiFetch } from '@/lib/api';
+import { useCompanies } from '@/hooks/queries/companies';
 import { cn } from '@/lib/utils';
 
 const sectors = [
@@ -64,59 +65,43 @@ interface Company {
 }
 
 export default function Directory() {
-  const [companies, setCompanies] = useState<Company[]>([]);
+  const { data } = useCompanies();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedSector, setSelectedSector] = useState('Tous les secteurs');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [selectedCompany, setSelectedCompany] = useState<Company | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
 
-  useEffect(() => {
-    let isMounted = true;
-
-    const loadCompanies = async () => {
-      try {
-        const data = await apiFetch<Array<{
-          id: number;
-          name: string;
-          industry?: string | null;
-          location?: string | null;
-          website?: string | null;
-          email?: string | null;
-          phone?: string | null;
-          status?: string | null;
-          description?: string | null;
-          employees?: number | null;
-        }>>('/api/companies');
-
-        if (!isMounted) return;
-
-        setCompanies(
-          data.map((company) => ({
-            id: company.id,
-            name: company.name,
-            logo: '',
-            sector: company.industry || company.location || 'Autre',
-            description: company.description || 'Description non disponible.',
-            email: company.email || '—',
-            phone: company.phone || '—',
-            website: company.website || '—',
-            location: company.location || '—',
-            founded: null,
-            employees: company.employees ?? '—',
-            status: company.status || 'active',
-          }))
-        );
-      } catch (error) {
-        console.error('Failed to load companies', error);
-      }
-    };
+  const companies = useMemo<Company[]>(
+    () =>
+      (data ?? []).map((company) => ({
+        id: company.id,
+        name: company.name,
+        logo: '',
+        sector: company.industry || company.location || 'Autre',
+        description: company.description || 'Description non disponible.',
+        email: company.email || '—',
+        phone: company.phone || '—',
+        website: company.website || '—',
+        location: company.location || '—',
+        founded: null,
+        employees: company.employees ?? '—',
+        status: company.status || 'active',
+      })),
+    [data]
+  );
 
-    loadCompanies();
+  // Mentions link here with ?company=<id> to open that company's profile.
+  useEffect(() => {
+    const companyId = Number(searchParams.get('company'));
+    const company = companies.find((item) => item.id === companyId);
+    if (company) setSelectedCompany(company);
+  }, [searchParams, companies]);
 
-    return () => {
-      isMounted = false;
-    };
-  }, []);
+  const closeCompany = () => {
+    setSelectedCompany(null);
+    if (searchParams.has('company')) setSearchParams({}, { replace: true });
+  };
 
   const filteredCompanies = companies.filter(company => {
     const matchesSearch = company.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -287,7 +272,7 @@ export default function Directory() {
       )}
 
       {/* Company Detail Dialog */}
-      <Dialog open={!!selectedCompany} onOpenChange={() => setSelectedCompany(null)}>
+      <Dialog open={!!selectedCompany} onOpenChange={closeCompany}>
         <DialogContent className="max-w-2xl">
           {selectedCompany && (
             <>
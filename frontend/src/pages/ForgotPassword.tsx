@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { okResponseSchema, type ForgotPasswordRequest } from '@cyberparc/shared';
+import { Link } from 'react-router-dom';
+import { Mail, Loader2, ArrowLeft, MailCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AuthLayout } from '@/components/layout/AuthLayout';
+import { useToast } from '@/hooks/use-toast';
+import { apiFetch } from '@/lib/api';
+
+export default function ForgotPassword() {
+  const [email, setEmail] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+  const { toast } = useToast();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      await apiFetch('/api/auth/forgot-password', {
+        method: 'POST',
+        body: JSON.stringify({ email } satisfies ForgotPasswordRequest),
+        schema: okResponseSchema,
+      });
+      setIsSent(true);
+    } catch (error) {
+      toast({
+        title: 'Demande impossible',
+        description: error instanceof Error && error.message ? error.message : 'Erreur lors de la demande.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AuthLayout>
+      <Card className="border-border/50 shadow-xl">
+        <CardHeader className="text-center pb-4">
+          <CardTitle className="text-2xl font-bold">Mot de passe oublié</CardTitle>
+          <CardDescription>
+            Recevez un lien pour choisir un nouveau mot de passe
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isSent ? (
+            <div className="text-center space-y-3">
+              <MailCheck className="w-10 h-10 text-success mx-auto" />
+              <p className="text-sm text-muted-foreground">
+                Si un compte existe pour <strong className="text-foreground">{email}</strong>, un email contenant un
+                lien de réinitialisation vient d'être envoyé. Le lien est valable une heure.
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Adresse email</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="votre@email.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="pl-10"
+                    required
+                  />
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full bg-accent hover:bg-accent/90 text-accent-foreground gap-2"
+                disabled={isLoading}
+              >
+                {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+                Envoyer le lien
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link to="/auth" className="text-sm text-accent hover:underline font-medium inline-flex items-center gap-1">
+              <ArrowLeft className="w-4 h-4" />
+              Retour à la connexion
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </AuthLayout>
+  );
+}
@@ -1,4 +1,5 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Search,
   Filter,
@@ -6,8 +7,14 @@ import {
   MessageSquare,
   Clock,
   TrendingUp,
+  Pin,
+  Megaphone,
+  Trash2,
 } from 'lucide-react';
+import type { Mention, ReactionSummary, ReactionType } from '@cyberparc/shared';
 import { MainLayout } from '@/components/layout/MainLayout';
+import { Markdown } from '@/components/Markdown';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -22,11 +29,24 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
-import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { CommentComposer } from '@/components/forum/CommentComposer';
+import { CommentThread } from '@/components/forum/CommentThread';
+import { PostEditDialog } from '@/components/forum/PostEditDialog';
+import { PostPinDialog } from '@/components/forum/PostPinDialog';
+import { ReactionBar } from '@/components/forum/ReactionBar';
+import { RevisionHistoryDialog } from '@/components/forum/RevisionHistoryDialog';
 import { useAuth } from '@/context/AuthContext';
+import { useCompanies } from '@/hooks/queries/companies';
+import {
+  useComments,
+  useCreatePost,
+  useDeletePost,
+  useForumPosts,
+  useToggleCommentReaction,
+  useTogglePostReaction,
+} from '@/hooks/queries/forum';
 import { useToast } from '@/hooks/use-toast';
-import { apiFetch } from '@/lib/api';
 import { cn } from '@/lib/utils';
 
 const categories = [
@@ -39,52 +59,81 @@ const categories = [
 
 interface ForumPost {
   id: number;
+  companyId: number;
   author: { name: string; avatar: string; role: string; isAdmin: boolean };
   title: string;
   content: string;
+  mentions: Mention[];
   category: string;
   time: string;
+  editedAt: string | null;
   likes: number;
   comments: number;
   isPinned: boolean;
+  pinnedUntil: string | null;
+  isAnnouncement: boolean;
   liked: boolean;
+  reactions: ReactionSummary[];
 }
 
-interface ForumComment {
-  id: number;
-  content: string;
-  createdAt: string;
-  company: string;
-  companyId: number;
-}
-
-interface Company {
-  id: number;
-  name: string;
-}
 
 export default function Forum() {
-  const { user } = useAuth();
+  const { user, impersonatedCompany, actingCompanyId, startImpersonation } = useAuth();
   const { toast } = useToast();
-  const [posts, setPosts] = useState<ForumPost[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [isNewPostOpen, setIsNewPostOpen] = useState(false);
   const [newPostTitle, setNewPostTitle] = useState('');
   const [newPostContent, setNewPostContent] = useState('');
   const [newPostCategory, setNewPostCategory] = useState('announcements');
-  const [isLoading, setIsLoading] = useState(false);
-  const [loadError, setLoadError] = useState('');
+  const [searchParams] = useSearchParams();
   const [activePostId, setActivePostId] = useState<number | null>(null);
-  const [commentsByPost, setCommentsByPost] = useState<Record<number, ForumComment[]>>({});
-  const [commentsLoading, setCommentsLoading] = useState<Record<number, boolean>>({});
-  const [commentsError, setCommentsError] = useState<Record<number, string>>({});
-  const [companies, setCompanies] = useState<Company[]>([]);
-  const [adminCompanyId, setAdminCompanyId] = useState<number | null>(null);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
 
   const isAdmin = user?.role === 'admin';
-  const userCompanyId = typeof user?.companyId === 'number' ? user.companyId : Number(user?.companyId);
-  const effectiveCompanyId = isAdmin ? adminCompanyId : (Number.isFinite(userCompanyId) ? userCompanyId : null);
+  const { data: companies = [] } = useCompanies({ enabled: isAdmin });
+  const postsQuery = useForumPosts();
+  const commentsQuery = useComments(activePostId);
+  const createPost = useCreatePost();
+  const deletePost = useDeletePost();
+  const togglePostReaction = useTogglePostReaction();
+  const toggleCommentReaction = useToggleCommentReaction(activePostId ?? 0);
+
+  // Notifications link here with ?post=<id> to open the discussion they are about.
+  useEffect(() => {
+    const postId = Number(searchParams.get('post'));
+    if (postId) setActivePostId(postId);
+  }, [searchParams]);
+
+  const posts = useMemo<ForumPost[]>(
+    () =>
+      (postsQuery.data ?? []).map((post) => ({
+        id: post.id,
+        companyId: post.companyId,
+        author: { name: post.company, avatar: '', role: 'Entreprise', isAdmin: false },
+        title: post.title,
+        content: post.content,
+        mentions: post.mentions,
+        category: post.category || 'announcements',
+        time: new Date(post.createdAt).toLocaleString('fr-FR', {
+          hour: '2-digit',
+          minute: '2-digit',
+          day: '2-digit',
+          month: 'short',
+        }),
+        editedAt: post.editedAt,
+        likes: post.likes,
+        comments: post.comments ?? 0,
+        isPinned: post.isPinned,
+        pinnedUntil: post.pinnedUntil,
+        isAnnouncement: post.isAnnouncement,
+        liked: post.liked,
+        reactions: post.reactions,
+      })),
+    [postsQuery.data]
+  );
+  const isLoading = postsQuery.isPending;
+  const loadError = postsQuery.error ? postsQuery.error.message || 'Erreur lors du chargement.' : '';
 
   const filteredPosts = posts.filter(post => {
     const matchesSearch = post.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -100,23 +149,13 @@ export default function Forum() {
     return 0;
   });
 
-  const handleLike = (postId: number) => {
-    setPosts(posts.map(post => {
-      if (post.id === postId) {
-        return {
-          ...post,
-          liked: !post.liked,
-          likes: post.liked ? post.likes - 1 : post.likes + 1
-        };
-      }
-      return post;
-    }));
-  };
-
+  // The API keeps deleted posts in the admin trash, so the post can still be restored.
   const handleDelete = (postId: number) => {
-    apiFetch(`/api/forum/posts/${postId}`, { method: 'DELETE' })
-      .then(() => loadPosts())
-      .catch((error) => {
+    setIsDeleteOpen(false);
+    setActivePostId(null);
+    deletePost.mutate(postId, {
+      onSuccess: () => toast({ title: 'Publication supprimée' }),
+      onError: (error) => {
         console.error('Failed to delete post', error);
         const message = error instanceof Error ? error.message : 'Erreur lors de la suppression.';
         toast({
@@ -124,137 +163,45 @@ export default function Forum() {
           description: message || 'Erreur lors de la suppression.',
           variant: 'destructive',
         });
-      });
+      },
+    });
   };
 
-  const loadPosts = async () => {
-    try {
-      setIsLoading(true);
-      setLoadError('');
-      const data = await apiFetch<Array<{
-        id: number;
-        title: string;
-        content: string;
-        category?: string | null;
-        createdAt: string;
-        company: string;
-        comments: number;
-      }>>('/api/forum/posts');
-
-      setPosts(
-        data.map((post) => ({
-          id: post.id,
-          author: { name: post.company, avatar: '', role: 'Entreprise', isAdmin: false },
-          title: post.title,
-          content: post.content,
-          category: post.category || 'announcements',
-          time: new Date(post.createdAt).toLocaleString('fr-FR', {
-            hour: '2-digit',
-            minute: '2-digit',
-            day: '2-digit',
-            month: 'short',
-          }),
-          likes: 0,
-          comments: post.comments ?? 0,
-          isPinned: false,
-          liked: false,
-        }))
-      );
-    } catch (error) {
-      console.error('Failed to load forum posts', error);
-      const message = error instanceof Error ? error.message : 'Erreur lors du chargement.';
-      setLoadError(message || 'Erreur lors du chargement.');
-      toast({
-        title: 'Chargement impossible',
-        description: message || 'Erreur lors du chargement.',
-        variant: 'destructive',
-      });
-    } finally {
-      setIsLoading(false);
-    }
+  const handleReactionError = (error: Error) => {
+    console.error('Failed to save reaction', error);
+    toast({
+      title: 'Action impossible',
+      description: error.message || 'Erreur lors de l’enregistrement de la réaction.',
+      variant: 'destructive',
+    });
   };
 
-  useEffect(() => {
-    loadPosts();
-  }, []);
-
-  useEffect(() => {
-    if (!isAdmin) return;
-
-    let isMounted = true;
-
-    const loadCompanies = async () => {
-      try {
-        const data = await apiFetch<Company[]>('/api/companies');
-        if (!isMounted) return;
-        setCompanies(data);
-        if (!adminCompanyId && data.length) {
-          setAdminCompanyId(data[0].id);
-        }
-      } catch (error) {
-        console.error('Failed to load companies', error);
-      }
-    };
-
-    loadCompanies();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [isAdmin, adminCompanyId]);
-
-  const loadComments = async (postId: number) => {
-    try {
-      setCommentsLoading((prev) => ({ ...prev, [postId]: true }));
-      setCommentsError((prev) => ({ ...prev, [postId]: '' }));
-      const data = await apiFetch<ForumComment[]>(`/api/forum/posts/${postId}/comments`);
-      setCommentsByPost((prev) => ({ ...prev, [postId]: data }));
-    } catch (error) {
-      console.error('Failed to load comments', error);
-      const message = error instanceof Error ? error.message : 'Erreur lors du chargement.';
-      setCommentsError((prev) => ({ ...prev, [postId]: message }));
-      toast({
-        title: 'Chargement impossible',
-        description: message || 'Erreur lors du chargement.',
-        variant: 'destructive',
-      });
-    } finally {
-      setCommentsLoading((prev) => ({ ...prev, [postId]: false }));
-    }
+  const handlePostReaction = (postId: number, type: ReactionType, reacted: boolean) => {
+    togglePostReaction.mutate({ id: postId, type, reacted }, { onError: handleReactionError });
   };
 
-  const openComments = (postId: number) => {
-    setActivePostId(postId);
-    if (!commentsByPost[postId]) {
-      loadComments(postId);
-    }
+  const handleCommentReaction = (commentId: number, type: ReactionType, reacted: boolean) => {
+    toggleCommentReaction.mutate({ id: commentId, type, reacted }, { onError: handleReactionError });
   };
 
-
   const handleNewPost = async () => {
     if (!newPostTitle.trim() || !newPostContent.trim()) return;
-    if (!effectiveCompanyId) {
+    if (!actingCompanyId) {
       toast({
         title: 'Publication impossible',
-        description: isAdmin ? 'Choisissez une entreprise pour publier.' : 'Votre compte doit être lié à une entreprise pour publier.',
+        description: isAdmin ? 'Agissez au nom d’une entreprise pour publier.' : 'Votre compte doit être lié à une entreprise pour publier.',
         variant: 'destructive',
       });
       return;
     }
 
     try {
-      await apiFetch('/api/forum/posts', {
-        method: 'POST',
-        body: JSON.stringify({
-          title: newPostTitle,
-          content: newPostContent,
-          category: newPostCategory,
-          companyId: effectiveCompanyId,
-          userId: user.id,
-        }),
+      await createPost.mutateAsync({
+        title: newPostTitle,
+        content: newPostContent,
+        category: newPostCategory,
       });
 
-      await loadPosts();
       setNewPostTitle('');
       setNewPostContent('');
       setIsNewPostOpen(false);
@@ -273,14 +220,6 @@ export default function Forum() {
     return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
   };
 
-  const formatTimestamp = (value: string) =>
-    new Date(value).toLocaleString('fr-FR', {
-      hour: '2-digit',
-      minute: '2-digit',
-      day: '2-digit',
-      month: 'short',
-    });
-
   const getCategoryColor = (category: string) => {
     switch (category) {
       case 'announcements': return 'bg-info/10 text-info border-info/20';
@@ -302,6 +241,7 @@ export default function Forum() {
   }, {});
   const totalCount = posts.length;
   const activePost = posts.find((post) => post.id === activePostId) || null;
+  const canModerateActivePost = !!activePost && (isAdmin || activePost.companyId === actingCompanyId);
 
   return (
     <MainLayout title="Forum" subtitle="Espace d’échange interactif et collaboratif">
@@ -319,11 +259,14 @@ export default function Forum() {
         <div className="flex gap-2">
           {isAdmin && (
             <Select
-              value={adminCompanyId ? String(adminCompanyId) : ''}
-              onValueChange={(value) => setAdminCompanyId(Number(value))}
+              value={impersonatedCompany ? String(impersonatedCompany.id) : ''}
+              onValueChange={(value) => {
+                const company = companies.find((item) => item.id === Number(value));
+                if (company) startImpersonation({ id: company.id, name: company.name });
+              }}
             >
               <SelectTrigger className="w-[240px]">
-                <SelectValue placeholder="Entreprise" />
+                <SelectValue placeholder="Agir en tant que..." />
               </SelectTrigger>
               <SelectContent>
                 {companies.map((company) => (
@@ -372,11 +315,11 @@ export default function Forum() {
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="post-content">Contenu</Label>
-                  <Textarea
+                  <MarkdownEditor
                     id="post-content"
                     placeholder="Partagez votre message..."
                     value={newPostContent}
-                    onChange={(e) => setNewPostContent(e.target.value)}
+                    onChange={setNewPostContent}
                     className="min-h-[200px]"
                   />
                 </div>
@@ -387,7 +330,7 @@ export default function Forum() {
                   <Button 
                     onClick={handleNewPost}
                     className="bg-accent hover:bg-accent/90 text-accent-foreground"
-                    disabled={!newPostTitle.trim() || !newPostContent.trim() || !user?.companyId}
+                    disabled={!newPostTitle.trim() || !newPostContent.trim() || !actingCompanyId}
                   >
                     Publier
                   </Button>
@@ -461,7 +404,7 @@ export default function Forum() {
                 <div className="p-6 text-center">
                   <TrendingUp className="w-8 h-8 text-muted-foreground mx-auto mb-3" />
                   <p className="text-sm text-muted-foreground mb-3">{loadError}</p>
-                  <Button variant="outline" onClick={loadPosts}>Réessayer</Button>
+                  <Button variant="outline" onClick={() => postsQuery.refetch()}>Réessayer</Button>
                 </div>
               )}
 
@@ -476,7 +419,7 @@ export default function Forum() {
                 <button
                   key={post.id}
                   type="button"
-                  onClick={() => openComments(post.id)}
+                  onClick={() => setActivePostId(post.id)}
                   className={cn(
                     'w-full text-left px-4 py-3 border-b border-border/60 hover:bg-muted/60 transition-colors',
                     activePostId === post.id && 'bg-muted'
@@ -490,7 +433,13 @@ export default function Forum() {
                         </AvatarFallback>
                       </Avatar>
                       <div className="min-w-0">
-                        <p className="text-sm font-semibold text-foreground truncate">{post.title}</p>
+                        <p className="text-sm font-semibold text-foreground truncate flex items-center gap-1">
+                          {post.isPinned && <Pin className="w-3 h-3 shrink-0 text-accent" aria-label="Épinglé" />}
+                          {post.isAnnouncement && (
+                            <Megaphone className="w-3 h-3 shrink-0 text-info" aria-label="Annonce officielle" />
+                          )}
+                          <span className="truncate">{post.title}</span>
+                        </p>
                         <p className="text-xs text-muted-foreground truncate">{post.author.name}</p>
                       </div>
                     </div>
@@ -519,58 +468,108 @@ export default function Forum() {
                   <div className="flex items-start justify-between gap-4">
                     <div>
                       <h3 className="text-lg font-semibold text-foreground">{activePost.title}</h3>
-                      <p className="text-sm text-muted-foreground">{activePost.author.name} • {activePost.time}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {activePost.author.name} • {activePost.time}
+                        {activePost.editedAt && ' • modifié'}
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap items-center justify-end gap-2">
+                      {activePost.isAnnouncement && (
+                        <Badge className="gap-1 bg-info text-info-foreground">
+                          <Megaphone className="w-3 h-3" />
+                          Annonce officielle
+                        </Badge>
+                      )}
+                      {activePost.isPinned && (
+                        <Badge variant="outline" className="gap-1 border-accent/30 text-accent">
+                          <Pin className="w-3 h-3" />
+                          {activePost.pinnedUntil
+                            ? `Épinglé jusqu’au ${new Date(activePost.pinnedUntil).toLocaleDateString('fr-FR')}`
+                            : 'Épinglé'}
+                        </Badge>
+                      )}
+                      <Badge variant="outline" className={getCategoryColor(activePost.category)}>
+                        {getCategoryLabel(activePost.category)}
+                      </Badge>
+                      {canModerateActivePost && <PostEditDialog post={activePost} />}
+                      {canModerateActivePost && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2 text-destructive hover:text-destructive"
+                          onClick={() => setIsDeleteOpen(true)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          Supprimer
+                        </Button>
+                      )}
+                      {isAdmin && activePost.editedAt && <RevisionHistoryDialog target="post" id={activePost.id} />}
+                      {isAdmin && <PostPinDialog post={activePost} />}
                     </div>
-                    <Badge variant="outline" className={getCategoryColor(activePost.category)}>
-                      {getCategoryLabel(activePost.category)}
-                    </Badge>
                   </div>
-                  <p className="text-sm text-foreground/80 mt-3 whitespace-pre-wrap">
+                  <Markdown mentions={activePost.mentions} className="text-sm text-foreground/80 mt-3">
                     {activePost.content}
-                  </p>
+                  </Markdown>
+                  <ReactionBar
+                    reactions={activePost.reactions}
+                    onToggle={(type, reacted) => handlePostReaction(activePost.id, type, reacted)}
+                    className="mt-3"
+                  />
                 </div>
 
                 <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
-                  {commentsLoading[activePost.id] && (
+                  {commentsQuery.isPending && (
                     <div className="text-sm text-muted-foreground">Chargement des commentaires...</div>
                   )}
 
-                  {!commentsLoading[activePost.id] && commentsError[activePost.id] && (
-                    <div className="text-sm text-destructive">{commentsError[activePost.id]}</div>
+                  {commentsQuery.isError && (
+                    <div className="text-sm text-destructive">{commentsQuery.error.message}</div>
                   )}
 
-                  {!commentsLoading[activePost.id] && !commentsError[activePost.id] &&
-                    (commentsByPost[activePost.id]?.length ? (
-                      commentsByPost[activePost.id].map((comment) => (
-                        <div key={comment.id} className="flex items-start gap-3">
-                          <Avatar className="w-9 h-9 shrink-0">
-                            <AvatarFallback className="bg-primary/10 text-primary">
-                              {getInitials(comment.company)}
-                            </AvatarFallback>
-                          </Avatar>
-                          <div className="flex-1">
-                            <div className="flex items-center gap-2">
-                              <span className="text-sm font-semibold text-foreground">
-                                {comment.company}
-                              </span>
-                              <span className="text-xs text-muted-foreground">
-                                {formatTimestamp(comment.createdAt)}
-                              </span>
-                            </div>
-                            <p className="text-sm text-foreground/90 whitespace-pre-wrap">{comment.content}</p>
-                          </div>
-                        </div>
-                      ))
+                  {commentsQuery.isSuccess &&
+                    (commentsQuery.data.length ? (
+                      <CommentThread
+                        comments={commentsQuery.data}
+                        postId={activePost.id}
+                        isAdmin={isAdmin}
+                        actingCompanyId={actingCompanyId}
+                        onReaction={handleCommentReaction}
+                      />
                     ) : (
                       <div className="text-sm text-muted-foreground">Aucun commentaire pour le moment.</div>
                     ))}
                 </div>
 
+                {actingCompanyId && (
+                  <div className="px-6 py-4 border-t border-border">
+                    <CommentComposer key={activePost.id} postId={activePost.id} />
+                  </div>
+                )}
+
               </div>
             )}
           </CardContent>
         </Card>
       </div>
+
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Confirmation</DialogTitle>
+          </DialogHeader>
+          <p>
+            Voulez-vous vraiment supprimer <strong>{activePost?.title}</strong> ?
+          </p>
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="outline" onClick={() => setIsDeleteOpen(false)}>
+              Non
+            </Button>
+            <Button variant="destructive" onClick={() => activePost && handleDelete(activePost.id)}>
+              Oui
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </MainLayout>
   );
 }
@@ -1,4 +1,5 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Search,
@@ -13,7 +14,10 @@ import {
   CheckCheck,
   Circle,
 } from 'lucide-react';
+import type { Mention } from '@cyberparc/shared';
 import { MainLayout } from '@/components/layout/MainLayout';
+import { Markdown } from '@/components/Markdown';
+import { MarkdownEditor } from '@/components/MarkdownEditor';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -21,13 +25,15 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useAuth } from '@/context/AuthContext';
-import { apiFetch } from '@/lib/api';
+import { useCompanies } from '@/hooks/queries/companies';
+import { useMessages, useSendMessage } from '@/hooks/queries/messages';
 import { cn } from '@/lib/utils';
 
 interface Message {
   id: number;
   senderId: string;
   content: string;
+  mentions: Mention[];
   time: string;
   status: 'sent' | 'delivered' | 'read';
 }
@@ -42,149 +48,81 @@ interface Conversation {
   online: boolean;
   messages: Message[];
 }
-interface Company {
-  id: number;
-  name: string;
-  logo?: string | null;
-}
-
-interface DbMessage {
-  id: number;
-  senderCompanyId: number;
-  receiverCompanyId: number;
-  content: string;
-  createdAt: string;
-  senderName: string;
-  receiverName: string;
-}
 
 export default function Messages() {
-  const { user } = useAuth();
-  const [companies, setCompanies] = useState<Company[]>([]);
-  const [messages, setMessages] = useState<DbMessage[]>([]);
-  const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
+  const { user, impersonatedCompany, actingCompanyId, startImpersonation } = useAuth();
+  const [selectedConversationId, setSelectedConversationId] = useState<number | null>(null);
   const [newMessage, setNewMessage] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
-  const [adminCompanyId, setAdminCompanyId] = useState<number | null>(null);
+  const [searchParams] = useSearchParams();
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  const currentCompanyId = typeof user?.companyId === 'number' ? user.companyId : Number(user?.companyId);
   const isAdmin = user?.role === 'admin';
-  const effectiveCompanyId = currentCompanyId || adminCompanyId;
-
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
-
-  useEffect(() => {
-    scrollToBottom();
-  }, [selectedConversation?.messages]);
-
-  useEffect(() => {
-    let isMounted = true;
-
-    const loadCompanies = async () => {
-      try {
-        const companiesData = await apiFetch<Company[]>('/api/companies');
-
-        if (!isMounted) return;
-
-        setCompanies(companiesData);
-        if (isAdmin && !adminCompanyId && companiesData.length) {
-          const adminCompany = companiesData.find((company) => company.name.toLowerCase() === 'admin');
-          setAdminCompanyId(adminCompany ? adminCompany.id : companiesData[0].id);
-        }
-      } catch (error) {
-        console.error('Failed to load companies', error);
-      }
-    };
-
-    loadCompanies();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [isAdmin, adminCompanyId]);
-
-  useEffect(() => {
-    if (!effectiveCompanyId) return;
-
-    let isMounted = true;
-
-    const loadMessages = async () => {
-      try {
-        const messagesData = await apiFetch<DbMessage[]>(`/api/messages?companyId=${effectiveCompanyId}`);
-
-        if (!isMounted) return;
-
-        setMessages(messagesData);
-      } catch (error) {
-        console.error('Failed to load messages', error);
-      }
-    };
-
-    loadMessages();
-
-    return () => {
-      isMounted = false;
-    };
-  }, [effectiveCompanyId]);
-
-  useEffect(() => {
-    if (!effectiveCompanyId) return;
-
-    const otherCompanies = companies.filter((company) => company.id !== effectiveCompanyId);
-
-    const nextConversations = otherCompanies.map((company) => {
-      const convoMessageRecords = messages.filter(
-        (message) =>
-          (message.senderCompanyId === effectiveCompanyId && message.receiverCompanyId === company.id) ||
-          (message.receiverCompanyId === effectiveCompanyId && message.senderCompanyId === company.id)
-      );
+  const effectiveCompanyId = actingCompanyId;
+  const { data: companies = [] } = useCompanies();
+  const { data: messages = [] } = useMessages(effectiveCompanyId);
+  const sendMessage = useSendMessage(effectiveCompanyId);
+
+  const conversations = useMemo<Conversation[]>(() => {
+    if (!effectiveCompanyId) return [];
+
+    return companies
+      .filter((company) => company.id !== effectiveCompanyId)
+      .map((company) => {
+        const convoMessageRecords = messages.filter(
+          (message) =>
+            (message.senderCompanyId === effectiveCompanyId && message.receiverCompanyId === company.id) ||
+            (message.receiverCompanyId === effectiveCompanyId && message.senderCompanyId === company.id)
+        );
 
-      const convoMessages = convoMessageRecords
-        .filter(
-          () => true
-        )
-        .map((message) => ({
+        const convoMessages = convoMessageRecords.map((message) => ({
           id: message.id,
           senderId: message.senderCompanyId === effectiveCompanyId ? 'me' : 'other',
           content: message.content,
+          mentions: message.mentions,
           time: new Date(message.createdAt).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' }),
           status: 'read' as const,
         }));
 
-      const lastRecord = convoMessageRecords[convoMessageRecords.length - 1];
-      const last = convoMessages[convoMessages.length - 1];
+        const lastRecord = convoMessageRecords[convoMessageRecords.length - 1];
+        const last = convoMessages[convoMessages.length - 1];
+
+        return {
+          id: company.id,
+          name: company.name,
+          avatar: '',
+          lastMessage: last?.content || 'Aucun message',
+          time: lastRecord
+            ? new Date(lastRecord.createdAt).toLocaleString('fr-FR', { hour: '2-digit', minute: '2-digit' })
+            : '',
+          unread: 0,
+          online: false,
+          messages: convoMessages,
+        };
+      });
+  }, [companies, messages, effectiveCompanyId]);
+
+  // Start on the first conversation, and again whenever the acting company changes.
+  useEffect(() => {
+    setSelectedConversationId(null);
+  }, [effectiveCompanyId]);
+
+  // Mention notifications link here with ?company=<id> to open the conversation with that company.
+  useEffect(() => {
+    const companyId = Number(searchParams.get('company'));
+    if (companyId) setSelectedConversationId(companyId);
+  }, [searchParams]);
 
-      return {
-        id: company.id,
-        name: company.name,
-        avatar: '',
-        lastMessage: last?.content || 'Aucun message',
-        time: lastRecord
-          ? new Date(lastRecord.createdAt).toLocaleString('fr-FR', { hour: '2-digit', minute: '2-digit' })
-          : '',
-        unread: 0,
-        online: false,
-        messages: convoMessages,
-      };
-    });
+  const selectedConversation =
+    conversations.find((conversation) => conversation.id === selectedConversationId) ?? conversations[0] ?? null;
 
-    setConversations(nextConversations);
-    if (!selectedConversation && nextConversations.length) {
-      setSelectedConversation(nextConversations[0]);
-    }
-  }, [companies, messages, effectiveCompanyId, selectedConversation]);
+  const scrollToBottom = () => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
 
   useEffect(() => {
-    if (!selectedConversation) return;
-    const updated = conversations.find((conv) => conv.id === selectedConversation.id);
-    if (updated && updated.messages.length !== selectedConversation.messages.length) {
-      setSelectedConversation(updated);
-    }
-  }, [conversations, selectedConversation]);
+    scrollToBottom();
+  }, [selectedConversation?.messages]);
 
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
@@ -193,46 +131,11 @@ export default function Messages() {
   const handleSendMessage = () => {
     if (!newMessage.trim() || !selectedConversation || !effectiveCompanyId) return;
 
-    const content = newMessage;
-    const optimisticId = -Date.now();
-    const optimisticMessage: DbMessage = {
-      id: optimisticId,
-      senderCompanyId: effectiveCompanyId,
-      receiverCompanyId: selectedConversation.id,
-      content,
-      createdAt: new Date().toISOString(),
-      senderName: user?.companyName || 'Moi',
-      receiverName: selectedConversation.name,
-    };
-
-    setMessages((prev) => [...prev, optimisticMessage]);
+    sendMessage.mutate(
+      { receiverCompanyId: selectedConversation.id, content: newMessage, receiverName: selectedConversation.name },
+      { onError: (error) => console.error('Failed to send message', error) }
+    );
     setNewMessage('');
-
-    apiFetch<DbMessage>('/api/messages', {
-      method: 'POST',
-      body: JSON.stringify({
-        senderCompanyId: effectiveCompanyId,
-        receiverCompanyId: selectedConversation.id,
-        content,
-      }),
-    })
-      .then((created) => {
-        setMessages((prev) =>
-          prev.map((item) =>
-            item.id === optimisticId
-              ? {
-                  ...created,
-                  senderName: user?.companyName || 'Moi',
-                  receiverName: selectedConversation.name,
-                }
-              : item
-          )
-        );
-      })
-      .catch((error) => {
-        console.error('Failed to send message', error);
-        setMessages((prev) => prev.filter((item) => item.id !== optimisticId));
-      });
   };
 
   const filteredConversations = conversations.filter(conv =>
@@ -258,11 +161,14 @@ export default function Messages() {
           <CardContent className="p-4 flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
             <div>
               <p className="text-sm font-medium text-foreground">Mode admin</p>
-              <p className="text-xs text-muted-foreground">Choisissez une entreprise pour gérer ses messages.</p>
+              <p className="text-xs text-muted-foreground">Agissez au nom d’une entreprise pour gérer ses messages.</p>
             </div>
             <Select
-              value={adminCompanyId ? String(adminCompanyId) : ''}
-              onValueChange={(value) => setAdminCompanyId(Number(value))}
+              value={impersonatedCompany ? String(impersonatedCompany.id) : ''}
+              onValueChange={(value) => {
+                const company = companies.find((item) => item.id === Number(value));
+                if (company) startImpersonation({ id: company.id, name: company.name });
+              }}
             >
               <SelectTrigger className="w-full sm:w-[280px]">
                 <SelectValue placeholder="Sélectionner une entreprise" />
@@ -297,7 +203,7 @@ export default function Messages() {
               {filteredConversations.map((conversation) => (
                 <motion.button
                   key={conversation.id}
-                  onClick={() => setSelectedConversation(conversation)}
+                  onClick={() => setSelectedConversationId(conversation.id)}
                   className={cn(
                     'w-full flex items-center gap-3 p-3 rounded-lg transition-colors text-left',
                     selectedConversation?.id === conversation.id
@@ -405,7 +311,9 @@ export default function Messages() {
                               : 'message-bubble-received'
                           )}
                         >
-                          <p className="text-sm">{message.content}</p>
+                          <Markdown mentions={message.mentions} className="text-sm">
+                            {message.content}
+                          </Markdown>
                           <div className={cn(
                             'flex items-center gap-1 mt-1',
                             message.senderId === 'me' ? 'justify-end' : 'justify-start'
@@ -431,17 +339,27 @@ export default function Messages() {
 
               {/* Message Input */}
               <div className="p-4 border-t border-border">
-                <div className="flex items-center gap-2">
+                <div className="flex items-end gap-2">
                   <Button variant="ghost" size="icon" className="text-muted-foreground shrink-0">
                     <Paperclip className="w-5 h-5" />
                   </Button>
-                  <Input
-                    placeholder="Écrire un message..."
-                    value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && handleSendMessage()}
-                    className="flex-1"
-                  />
+                  <div className="flex-1">
+                    <MarkdownEditor
+                      placeholder="Écrire un message..."
+                      value={newMessage}
+                      onChange={setNewMessage}
+                      suggestionsSide="top"
+                      onKeyDown={(e) => {
+                        // Shift+Enter starts a new line in the message.
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault();
+                          handleSendMessage();
+                        }
+                      }}
+                      rows={1}
+                      className="min-h-[40px] max-h-40 resize-none"
+                    />
+                  </div>
                   <Button variant="ghost" size="icon" className="text-muted-foreground shrink-0">
                     <Smile className="w-5 h-5" />
                   </Button>
@@ -0,0 +1,212 @@
+import { useEffect, useState } from 'react';
+import {
+  minPasswordLength,
+  setPasswordResponseSchema,
+  verifyTokenResponseSchema,
+  type OneTimeTokenPurpose,
+  type SetPasswordRequest,
+  type VerifyTokenRequest,
+} from '@cyberparc/shared';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Lock, Loader2, ArrowLeft, AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AuthLayout } from '@/components/layout/AuthLayout';
+import { useToast } from '@/hooks/use-toast';
+import { apiFetch } from '@/lib/api';
+
+const copy = {
+  reset: {
+    title: 'Nouveau mot de passe',
+    description: 'Choisissez un nouveau mot de passe pour votre compte',
+    submit: 'Réinitialiser le mot de passe',
+    success: 'Votre mot de passe a été réinitialisé. Vous pouvez vous connecter.',
+    endpoint: '/api/auth/reset-password',
+  },
+  activation: {
+    title: 'Activer votre compte',
+    description: 'Choisissez le mot de passe de votre compte Cyber Parc',
+    submit: 'Activer mon compte',
+    success: 'Votre compte est activé. Vous pouvez vous connecter.',
+    endpoint: '/api/auth/activate',
+  },
+};
+
+interface ResetPasswordProps {
+  mode: OneTimeTokenPurpose;
+}
+
+// Serves both the password reset link and the invitation (activation) link sent by email.
+export default function ResetPassword({ mode }: ResetPasswordProps) {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [email, setEmail] = useState<string | null>(null);
+  const [tokenError, setTokenError] = useState('');
+  const [isVerifying, setIsVerifying] = useState(true);
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [formError, setFormError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const text = copy[mode];
+
+  useEffect(() => {
+    if (!token) {
+      setTokenError('Ce lien est incomplet.');
+      setIsVerifying(false);
+      return;
+    }
+
+    let isMounted = true;
+
+    apiFetch('/api/auth/verify-token', {
+      method: 'POST',
+      body: JSON.stringify({ token, purpose: mode } satisfies VerifyTokenRequest),
+      schema: verifyTokenResponseSchema,
+    })
+      .then((result) => {
+        if (isMounted) setEmail(result.email);
+      })
+      .catch((error) => {
+        if (!isMounted) return;
+        const message = error instanceof Error ? error.message : 'Ce lien est invalide ou a expiré.';
+        setTokenError(message || 'Ce lien est invalide ou a expiré.');
+      })
+      .finally(() => {
+        if (isMounted) setIsVerifying(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [token, mode]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+
+    if (password.length < minPasswordLength) {
+      setFormError(`Le mot de passe doit contenir au moins ${minPasswordLength} caractères.`);
+      return;
+    }
+
+    if (password !== confirmation) {
+      setFormError('Les mots de passe ne correspondent pas.');
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      await apiFetch(text.endpoint, {
+        method: 'POST',
+        body: JSON.stringify({ token, password } satisfies SetPasswordRequest),
+        schema: setPasswordResponseSchema,
+      });
+      toast({ title: text.title, description: text.success });
+      navigate('/auth', { replace: true });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Erreur lors de la mise à jour.';
+      setFormError(message || 'Erreur lors de la mise à jour.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <AuthLayout>
+      <Card className="border-border/50 shadow-xl">
+        <CardHeader className="text-center pb-4">
+          <CardTitle className="text-2xl font-bold">{text.title}</CardTitle>
+          <CardDescription>{email ? `${text.description} (${email})` : text.description}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isVerifying && (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+
+          {!isVerifying && tokenError && (
+            <div className="space-y-4">
+              <Alert variant="destructive">
+                <AlertCircle className="w-4 h-4" />
+                <AlertDescription>{tokenError}</AlertDescription>
+              </Alert>
+              {mode === 'reset' && (
+                <Button asChild variant="outline" className="w-full">
+                  <Link to="/forgot-password">Demander un nouveau lien</Link>
+                </Button>
+              )}
+            </div>
+          )}
+
+          {!isVerifying && !tokenError && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {formError && (
+                <Alert variant="destructive">
+                  <AlertCircle className="w-4 h-4" />
+                  <AlertDescription>{formError}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Mot de passe</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pl-10"
+                    autoComplete="new-password"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password-confirmation">Confirmer le mot de passe</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="password-confirmation"
+                    type="password"
+                    placeholder="••••••••"
+                    value={confirmation}
+                    onChange={(e) => setConfirmation(e.target.value)}
+                    className="pl-10"
+                    autoComplete="new-password"
+                    required
+                  />
+                </div>
+              </div>
+
+              <Button
+                type="submit"
+                className="w-full bg-accent hover:bg-accent/90 text-accent-foreground gap-2"
+                disabled={isLoading}
+              >
+                {isLoading && <Loader2 className="w-4 h-4 animate-spin" />}
+                {text.submit}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <Link to="/auth" className="text-sm text-accent hover:underline font-medium inline-flex items-center gap-1">
+              <ArrowLeft className="w-4 h-4" />
+              Retour à la connexion
+            </Link>
+          </div>
+        </CardContent>
+      </Card>
+    </AuthLayout>
+  );
+}
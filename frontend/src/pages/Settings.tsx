@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
+import type { FieldErrors } from '@cyberparc/shared';
 import { motion } from 'framer-motion';
+import { useSearchParams } from 'react-router-dom';
 import {
   User,
   Building2,
@@ -23,15 +25,31 @@ import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
+import { FieldError, invalidFieldProps } from '@/components/FieldError';
+import { SecuritySettings } from '@/components/settings/SecuritySettings';
 import { useAuth } from '@/context/AuthContext';
 import { useTheme } from '@/context/ThemeContext';
+import { useNotifications, useProfile, useUpdateNotifications, useUpdateProfile } from '@/hooks/queries/profile';
 import { useToast } from '@/hooks/use-toast';
-import { apiFetch } from '@/lib/api';
+import { getFieldErrors } from '@/lib/api';
+
+// Fields of the profile request mapped to the inputs that edit them.
+const profileFieldAliases = {
+  'user.name': 'name',
+  'user.email': 'email',
+  'user.phone': 'phone',
+  'company.name': 'company',
+  'company.description': 'description',
+  'company.website': 'website',
+  'company.location': 'location',
+};
 
 export default function Settings() {
-  const { user } = useAuth();
+  const { user, companyRole } = useAuth();
+  const canEditCompany = companyRole === 'owner' || companyRole === 'manager';
   const { theme, setTheme } = useTheme();
   const { toast } = useToast();
+  const [searchParams] = useSearchParams();
   
   const [profile, setProfile] = useState({
     name: user?.name || '',
@@ -42,6 +60,12 @@ export default function Settings() {
     website: 'www.monentreprise.ma',
     location: 'Cyber Parc, Bâtiment A',
   });
+  const [profileErrors, setProfileErrors] = useState<FieldErrors>({});
+
+  const updateProfileField = (field: keyof typeof profile, value: string) => {
+    setProfile((prev) => ({ ...prev, [field]: value }));
+    setProfileErrors(({ [field]: _cleared, ...rest }) => rest);
+  };
 
   const [notifications, setNotifications] = useState({
     emailNotifs: true,
@@ -51,72 +75,35 @@ export default function Settings() {
     companyUpdates: false,
   });
 
-  useEffect(() => {
-    if (!user?.id) return;
-
-    let isMounted = true;
-
-    const loadProfile = async () => {
-      try {
-        const data = await apiFetch<{
-          user: {
-            id: number | string;
-            email: string;
-            name?: string | null;
-            phone?: string | null;
-          };
-          company?: {
-            id: number;
-            name?: string | null;
-            description?: string | null;
-            website?: string | null;
-            location?: string | null;
-            phone?: string | null;
-            email?: string | null;
-          } | null;
-        }>(`/api/profile?userId=${user.id}${user.companyId ? `&companyId=${user.companyId}` : ''}`);
-
-        if (!isMounted) return;
+  const { data: savedProfile } = useProfile();
+  const { data: savedNotifications } = useNotifications();
+  const updateProfile = useUpdateProfile();
+  const updateNotifications = useUpdateNotifications();
 
-        setProfile((prev) => ({
-          ...prev,
-          name: data.user?.name || prev.name,
-          email: data.user?.email || prev.email,
-          phone: data.user?.phone || prev.phone,
-          company: data.company?.name || prev.company,
-          description: data.company?.description || prev.description,
-          website: data.company?.website || prev.website,
-          location: data.company?.location || prev.location,
-        }));
-      } catch (error) {
-        console.error('Failed to load profile', error);
-      }
-    };
-
-    const loadNotifications = async () => {
-      try {
-        const data = await apiFetch<{ notifications: Partial<typeof notifications> }>(
-          `/api/settings/notifications?userId=${user.id}`
-        );
-
-        if (!isMounted) return;
+  // Seed the forms with the saved values once they arrive (and again after another company is picked).
+  useEffect(() => {
+    if (!savedProfile) return;
 
-        setNotifications((prev) => ({
-          ...prev,
-          ...data.notifications,
-        }));
-      } catch (error) {
-        console.error('Failed to load notifications', error);
-      }
-    };
+    setProfile((prev) => ({
+      ...prev,
+      name: savedProfile.user?.name || prev.name,
+      email: savedProfile.user?.email || prev.email,
+      phone: savedProfile.user?.phone || prev.phone,
+      company: savedProfile.company?.name || prev.company,
+      description: savedProfile.company?.description || prev.description,
+      website: savedProfile.company?.website || prev.website,
+      location: savedProfile.company?.location || prev.location,
+    }));
+  }, [savedProfile]);
 
-    loadProfile();
-    loadNotifications();
+  useEffect(() => {
+    if (!savedNotifications) return;
 
-    return () => {
-      isMounted = false;
-    };
-  }, [user?.id, user?.companyId]);
+    setNotifications((prev) => ({
+      ...prev,
+      ...savedNotifications,
+    }));
+  }, [savedNotifications]);
 
   const getInitials = (name: string) => {
     return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
@@ -125,24 +112,23 @@ export default function Settings() {
   const handleSaveProfile = async () => {
     if (!user?.id) return;
 
+    setProfileErrors({});
     try {
-      await apiFetch('/api/profile', {
-        method: 'PUT',
-        body: JSON.stringify({
-          userId: user.id,
-          companyId: user.companyId,
-          user: {
-            name: profile.name,
-            email: profile.email,
-            phone: profile.phone,
-          },
-          company: {
-            name: profile.company,
-            description: profile.description,
-            website: profile.website,
-            location: profile.location,
-          },
-        }),
+      await updateProfile.mutateAsync({
+        user: {
+          name: profile.name,
+          email: profile.email,
+          phone: profile.phone,
+        },
+        // Members cannot edit the company profile; the API would reject the whole request.
+        company: canEditCompany
+          ? {
+              name: profile.company,
+              description: profile.description,
+              website: profile.website,
+              location: profile.location,
+            }
+          : undefined,
       });
 
       toast({
@@ -150,6 +136,7 @@ export default function Settings() {
         description: 'Vos modifications ont été enregistrées',
       });
     } catch (error) {
+      setProfileErrors(getFieldErrors(error, profileFieldAliases));
       const message = error instanceof Error ? error.message : 'Erreur lors de la sauvegarde.';
       toast({
         title: 'Sauvegarde impossible',
@@ -163,13 +150,7 @@ export default function Settings() {
     if (!user?.id) return;
 
     try {
-      await apiFetch('/api/settings/notifications', {
-        method: 'PUT',
-        body: JSON.stringify({
-          userId: user.id,
-          notifications,
-        }),
-      });
+      await updateNotifications.mutateAsync(notifications);
 
       toast({
         title: 'Préférences sauvegardées',
@@ -187,7 +168,7 @@ export default function Settings() {
 
   return (
     <MainLayout title="Paramètres" subtitle="Gérez votre profil et vos préférences">
-      <Tabs defaultValue="profile" className="space-y-6">
+      <Tabs defaultValue={searchParams.get('tab') || 'profile'} className="space-y-6">
         <TabsList>
           <TabsTrigger value="profile" className="gap-2">
             <User className="w-4 h-4" />
@@ -201,6 +182,10 @@ export default function Settings() {
             <Bell className="w-4 h-4" />
             Notifications
           </TabsTrigger>
+          <TabsTrigger value="security" className="gap-2">
+            <Shield className="w-4 h-4" />
+            Sécurité
+          </TabsTrigger>
           <TabsTrigger value="appearance" className="gap-2">
             <Palette className="w-4 h-4" />
             Apparence
@@ -253,8 +238,10 @@ export default function Settings() {
                     <Input
                       id="name"
                       value={profile.name}
-                      onChange={(e) => setProfile({ ...profile, name: e.target.value })}
+                      onChange={(e) => updateProfileField('name', e.target.value)}
+                      {...invalidFieldProps(profileErrors, 'name')}
                     />
+                    <FieldError errors={profileErrors} field="name" />
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="email">Email</Label>
@@ -264,10 +251,11 @@ export default function Settings() {
                         id="email"
                         type="email"
                         value={profile.email}
-                        onChange={(e) => setProfile({ ...profile, email: e.target.value })}
-                        className="pl-10"
+                        onChange={(e) => updateProfileField('email', e.target.value)}
+                        {...invalidFieldProps(profileErrors, 'email', 'pl-10')}
                       />
                     </div>
+                    <FieldError errors={profileErrors} field="email" />
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="phone">Téléphone</Label>
@@ -276,10 +264,11 @@ export default function Settings() {
                       <Input
                         id="phone"
                         value={profile.phone}
-                        onChange={(e) => setProfile({ ...profile, phone: e.target.value })}
-                        className="pl-10"
+                        onChange={(e) => updateProfileField('phone', e.target.value)}
+                        {...invalidFieldProps(profileErrors, 'phone', 'pl-10')}
                       />
                     </div>
+                    <FieldError errors={profileErrors} field="phone" />
                   </div>
                 </div>
 
@@ -304,7 +293,9 @@ export default function Settings() {
               <CardHeader>
                 <CardTitle>Profil de l'entreprise</CardTitle>
                 <CardDescription>
-                  Informations visibles dans l'annuaire
+                  {canEditCompany
+                    ? "Informations visibles dans l'annuaire"
+                    : "Seuls les propriétaires et gestionnaires de l'entreprise peuvent modifier ces informations"}
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
@@ -313,9 +304,12 @@ export default function Settings() {
                     <Label htmlFor="company">Nom de l'entreprise</Label>
                     <Input
                       id="company"
+                      disabled={!canEditCompany}
                       value={profile.company}
-                      onChange={(e) => setProfile({ ...profile, company: e.target.value })}
+                      onChange={(e) => updateProfileField('company', e.target.value)}
+                      {...invalidFieldProps(profileErrors, 'company')}
                     />
+                    <FieldError errors={profileErrors} field="company" />
                   </div>
                   <div className="space-y-2">
                     <Label htmlFor="website">Site web</Label>
@@ -323,11 +317,13 @@ export default function Settings() {
                       <Globe className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                       <Input
                         id="website"
+                        disabled={!canEditCompany}
                         value={profile.website}
-                        onChange={(e) => setProfile({ ...profile, website: e.target.value })}
-                        className="pl-10"
+                        onChange={(e) => updateProfileField('website', e.target.value)}
+                        {...invalidFieldProps(profileErrors, 'website', 'pl-10')}
                       />
                     </div>
+                    <FieldError errors={profileErrors} field="website" />
                   </div>
                   <div className="space-y-2 md:col-span-2">
                     <Label htmlFor="location">Localisation</Label>
@@ -335,29 +331,35 @@ export default function Settings() {
                       <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
                       <Input
                         id="location"
+                        disabled={!canEditCompany}
                         value={profile.location}
-                        onChange={(e) => setProfile({ ...profile, location: e.target.value })}
-                        className="pl-10"
+                        onChange={(e) => updateProfileField('location', e.target.value)}
+                        {...invalidFieldProps(profileErrors, 'location', 'pl-10')}
                       />
                     </div>
+                    <FieldError errors={profileErrors} field="location" />
                   </div>
                   <div className="space-y-2 md:col-span-2">
                     <Label htmlFor="description">Description</Label>
                     <Textarea
                       id="description"
+                      disabled={!canEditCompany}
                       value={profile.description}
-                      onChange={(e) => setProfile({ ...profile, description: e.target.value })}
-                      className="min-h-[100px]"
+                      onChange={(e) => updateProfileField('description', e.target.value)}
+                      {...invalidFieldProps(profileErrors, 'description', 'min-h-[100px]')}
                     />
+                    <FieldError errors={profileErrors} field="description" />
                   </div>
                 </div>
 
-                <div className="flex justify-end">
-                  <Button onClick={handleSaveProfile} className="gap-2 bg-accent hover:bg-accent/90 text-accent-foreground">
-                    <Save className="w-4 h-4" />
-                    Enregistrer
-                  </Button>
-                </div>
+                {canEditCompany && (
+                  <div className="flex justify-end">
+                    <Button onClick={handleSaveProfile} className="gap-2 bg-accent hover:bg-accent/90 text-accent-foreground">
+                      <Save className="w-4 h-4" />
+                      Enregistrer
+                    </Button>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </motion.div>
@@ -445,6 +447,16 @@ export default function Settings() {
           </motion.div>
         </TabsContent>
 
+        {/* Security Tab */}
+        <TabsContent value="security">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <SecuritySettings />
+          </motion.div>
+        </TabsContent>
+
         {/* Appearance Tab */}
         <TabsContent value="appearance">
           <motion.div
@@ -0,0 +1,262 @@
+import { useState } from 'react';
+import type { TeamMember } from '@cyberparc/shared';
+import { motion } from 'framer-motion';
+import { Loader2, Mail, Trash2, UserPlus } from 'lucide-react';
+import { MainLayout } from '@/components/layout/MainLayout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ForbiddenState } from '@/components/ForbiddenState';
+import { CompanyRole, useAuth } from '@/context/AuthContext';
+import { useInviteMember, useRemoveMember, useTeam, useUpdateMemberRole } from '@/hooks/queries/team';
+import { useToast } from '@/hooks/use-toast';
+import { isForbiddenError } from '@/lib/api';
+
+const roleLabels: Record<CompanyRole, string> = {
+  owner: 'Propriétaire',
+  manager: 'Gestionnaire',
+  member: 'Membre',
+};
+
+const roleDescriptions: Record<CompanyRole, string> = {
+  owner: "Gère l'équipe et le profil de l'entreprise",
+  manager: "Modifie le profil de l'entreprise",
+  member: 'Accès standard',
+};
+
+const companyRoleOptions = Object.keys(roleLabels) as CompanyRole[];
+
+export default function Team() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const team = useTeam();
+  const inviteMember = useInviteMember();
+  const updateMemberRole = useUpdateMemberRole();
+  const removeMember = useRemoveMember();
+  const [invite, setInvite] = useState<{ email: string; companyRole: CompanyRole }>({
+    email: '',
+    companyRole: 'member',
+  });
+  const [memberToRemove, setMemberToRemove] = useState<TeamMember | null>(null);
+
+  const members = team.data?.members ?? [];
+  const isOwner = team.data?.companyRole === 'owner';
+
+  const showError = (title: string, error: unknown, fallback: string) => {
+    const message = error instanceof Error ? error.message : fallback;
+    toast({ title, description: message || fallback, variant: 'destructive' });
+  };
+
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    inviteMember.mutate(invite, {
+      onSuccess: (member) => {
+        setInvite({ email: '', companyRole: 'member' });
+        toast({
+          title: 'Invitation envoyée',
+          description: member.invitationSent
+            ? `${member.email} a reçu un lien pour activer son compte`
+            : `Le compte de ${member.email} a été créé, mais l'email n'a pas pu être envoyé`,
+        });
+      },
+      onError: (error) => showError('Invitation impossible', error, "Erreur lors de l'invitation."),
+    });
+  };
+
+  const handleRoleChange = (member: TeamMember, companyRole: CompanyRole) => {
+    updateMemberRole.mutate(
+      { userId: member.id, companyRole },
+      {
+        onSuccess: () =>
+          toast({
+            title: 'Rôle mis à jour',
+            description: `${member.email} est maintenant ${roleLabels[companyRole].toLowerCase()}`,
+          }),
+        onError: (error) => showError('Modification impossible', error, 'Erreur lors du changement de rôle.'),
+      }
+    );
+  };
+
+  const handleRemove = () => {
+    if (!memberToRemove) return;
+
+    removeMember.mutate(memberToRemove.id, {
+      onSuccess: () =>
+        toast({ title: 'Membre retiré', description: `${memberToRemove.email} n'a plus accès à l'intranet` }),
+      onError: (error) => showError('Suppression impossible', error, 'Erreur lors de la suppression.'),
+    });
+    setMemberToRemove(null);
+  };
+
+  if (isForbiddenError(team.error)) {
+    return (
+      <MainLayout title="Équipe" subtitle="Les collaborateurs de votre entreprise">
+        <ForbiddenState description="Votre compte n'est rattaché à aucune entreprise." />
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout title="Équipe" subtitle="Les collaborateurs de votre entreprise">
+      <div className="space-y-6">
+        {isOwner && (
+          <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+            <Card>
+              <CardHeader>
+                <CardTitle>Inviter un collaborateur</CardTitle>
+                <CardDescription>Il recevra un email pour choisir son mot de passe</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleInvite} className="flex flex-col md:flex-row gap-3">
+                  <div className="relative flex-1">
+                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      type="email"
+                      placeholder="collaborateur@entreprise.com"
+                      value={invite.email}
+                      onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                      className="pl-10"
+                      required
+                    />
+                  </div>
+                  <Select
+                    value={invite.companyRole}
+                    onValueChange={(value) => setInvite({ ...invite, companyRole: value as CompanyRole })}
+                  >
+                    <SelectTrigger className="w-full md:w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {companyRoleOptions.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {roleLabels[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="submit"
+                    disabled={inviteMember.isPending}
+                    className="gap-2 bg-accent hover:bg-accent/90 text-accent-foreground"
+                  >
+                    {inviteMember.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+                    Inviter
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }}>
+          <Card>
+            <CardHeader>
+              <CardTitle>Membres</CardTitle>
+              <CardDescription>
+                {companyRoleOptions.map((role) => `${roleLabels[role]} : ${roleDescriptions[role]}`).join(' · ')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {team.isPending ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : team.isError ? (
+                <div className="py-6 text-center">
+                  <p className="text-sm text-muted-foreground mb-3">{team.error.message}</p>
+                  <Button variant="outline" onClick={() => team.refetch()}>
+                    Réessayer
+                  </Button>
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-muted-foreground border-b">
+                        <th className="py-2">Nom</th>
+                        <th className="py-2">Email</th>
+                        <th className="py-2">Rôle</th>
+                        {isOwner && <th className="py-2 text-right">Actions</th>}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {members.map((member) => (
+                        <tr key={member.id} className="border-b last:border-0">
+                          <td className="py-3">
+                            <div className="flex items-center gap-2">
+                              <span>{member.name || '—'}</span>
+                              {member.invitationPending && <Badge variant="secondary">Invitation en attente</Badge>}
+                              {String(member.id) === String(user?.id) && <Badge variant="outline">Vous</Badge>}
+                            </div>
+                          </td>
+                          <td className="py-3">{member.email}</td>
+                          <td className="py-3">
+                            {isOwner && member.companyRole ? (
+                              <Select
+                                value={member.companyRole}
+                                onValueChange={(value) => handleRoleChange(member, value as CompanyRole)}
+                              >
+                                <SelectTrigger className="w-[160px] h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {companyRoleOptions.map((role) => (
+                                    <SelectItem key={role} value={role}>
+                                      {roleLabels[role]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <Badge variant="outline">{member.companyRole ? roleLabels[member.companyRole] : '—'}</Badge>
+                            )}
+                          </td>
+                          {isOwner && (
+                            <td className="py-3 text-right">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setMemberToRemove(member)}
+                                className="text-destructive hover:text-destructive"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+      </div>
+
+      <Dialog open={!!memberToRemove} onOpenChange={(open) => !open && setMemberToRemove(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Retirer ce membre ?</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Le compte <strong className="text-foreground">{memberToRemove?.email}</strong> sera supprimé et ne pourra
+            plus se connecter.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setMemberToRemove(null)}>
+              Annuler
+            </Button>
+            <Button variant="destructive" onClick={handleRemove}>
+              Retirer
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
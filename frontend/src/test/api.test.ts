@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { ApiError, apiFetch, isAbortError, onUnauthorized } from "@/lib/api";
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+
+describe("apiFetch", () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    localStorage.clear();
+  });
+
+  it("exposes the status, code, field errors and request id of a failed request", async () => {
+    fetchMock.mockResolvedValue(
+      json(
+        422,
+        { message: "Invalid email address.", code: "VALIDATION_FAILED", fieldErrors: { email: "Invalid email address." } },
+        { "X-Request-Id": "req-12345678" }
+      )
+    );
+
+    const error = await apiFetch("/api/profile", { method: "PUT", body: "{}" }).catch((caught) => caught);
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      status: 422,
+      code: "VALIDATION_FAILED",
+      fieldErrors: { email: "Invalid email address." },
+      requestId: "req-12345678",
+    });
+  });
+
+  it("retries a GET after a server error, but never a POST", async () => {
+    fetchMock.mockResolvedValueOnce(json(503, { message: "Unavailable" })).mockResolvedValueOnce(json(200, []));
+    await expect(apiFetch("/api/companies", { retryDelayMs: 1 })).resolves.toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(json(503, { message: "Unavailable" }));
+    await expect(apiFetch("/api/forum/posts", { method: "POST", retryDelayMs: 1 })).rejects.toMatchObject({ status: 503 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports an unreachable server as a network error with status 0", async () => {
+    fetchMock.mockRejectedValue(new TypeError("Failed to fetch"));
+    await expect(apiFetch("/api/companies", { retries: 0 })).rejects.toMatchObject({ status: 0, code: "NETWORK_ERROR" });
+  });
+
+  it("notifies listeners when the API rejects the stored token", async () => {
+    localStorage.setItem("authToken", "expired");
+    fetchMock.mockResolvedValue(json(401, { message: "Session revoked." }));
+    const listener = vi.fn();
+    const unsubscribe = onUnauthorized(listener);
+
+    await expect(apiFetch("/api/auth/me")).rejects.toMatchObject({ status: 401 });
+    unsubscribe();
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it("stops waiting for a retry once the request is aborted", async () => {
+    fetchMock.mockResolvedValue(json(503, { message: "Unavailable" }));
+    const controller = new AbortController();
+    const request = apiFetch("/api/companies", { signal: controller.signal, retryDelayMs: 60_000 });
+    setTimeout(() => controller.abort(), 10);
+
+    const error = await request.catch((caught) => caught);
+    expect(isAbortError(error)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { createCommentRequestSchema, sanitizeMarkdown } from "@cyberparc/shared";
+
+describe("sanitizeMarkdown", () => {
+  it("strips raw HTML but keeps the markdown around it", () => {
+    expect(sanitizeMarkdown("**Bonjour** <script>alert(1)</script><!-- note -->à tous")).toBe(
+      "**Bonjour** alert(1)à tous"
+    );
+  });
+
+  it("strips tags rebuilt from nested ones and escapes tags left open", () => {
+    expect(sanitizeMarkdown("<scr<b>ipt>alert(1)</scr</b>ipt>")).toBe("alert(1)");
+    expect(sanitizeMarkdown("<img<b> src=x onerror=alert(1)>Bonjour")).toBe("Bonjour");
+    expect(sanitizeMarkdown("<scr<!-- -->ipt>alert(1)")).toBe("alert(1)");
+    expect(sanitizeMarkdown("<java<b>script:alert(1)>")).toBe("javascript:alert(1)");
+    expect(sanitizeMarkdown("Bonjour <img src=x onerror=alert(1)")).toBe("Bonjour &lt;img src=x onerror=alert(1)");
+    expect(sanitizeMarkdown("<script\nalert(1)")).toBe("&lt;script\nalert(1)");
+    expect(sanitizeMarkdown("1 < 2 <3 <https://techstart.demo>")).toBe("1 < 2 <3 <https://techstart.demo>");
+  });
+
+  it("neutralises links to scripts, however they are spelled", () => {
+    expect(sanitizeMarkdown("[démo](javascript:alert(1))")).toBe("[démo](#)");
+    expect(sanitizeMarkdown("[démo](JavaScript&#58;alert(1))")).toBe("[démo](#)");
+    expect(sanitizeMarkdown("[démo]: data:text/html,x")).toBe("[démo]: #");
+    expect(sanitizeMarkdown("<javascript:alert(1)>")).toBe("javascript:alert(1)");
+    expect(sanitizeMarkdown("[site](https://techstart.demo) <mailto:contact@techstart.demo>")).toBe(
+      "[site](https://techstart.demo) <mailto:contact@techstart.demo>"
+    );
+  });
+
+  it("leaves code untouched", () => {
+    const text = "Utilisez `<div>` :\n```html\n<script src=\"app.js\"></script>\n```";
+    expect(sanitizeMarkdown(text)).toBe(text);
+  });
+
+  it("runs when request bodies are parsed", () => {
+    const comment = createCommentRequestSchema.parse({ content: "<b>Merci</b> [ici](vbscript:x)" });
+    expect(comment.content).toBe("Merci [ici](#)");
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect } from "vitest";
+import { findMentions, linkMentions } from "@cyberparc/shared";
+
+const companies = [
+  { id: 2, name: "TechStart" },
+  { id: 3, name: "Data" },
+  { id: 4, name: "Data Flow" },
+];
+
+describe("mentions", () => {
+  it("resolves each mentioned company once, preferring the longest name", () => {
+    const text = "Merci @techstart et @Data Flow ! Encore @TechStart, mais pas contact@Data ni `@Data`.";
+    expect(findMentions(text, companies).map((company) => company.id)).toEqual([2, 4]);
+    expect(findMentions("@TechStarter", companies)).toEqual([]);
+  });
+
+  it("links resolved mentions to the company profile", () => {
+    expect(linkMentions("Bonjour @Data Flow.", [{ id: 4, name: "Data Flow" }])).toBe(
+      "Bonjour [@Data Flow](/directory?company=4)."
+    );
+    expect(linkMentions("Bonjour @Data Flow.", [])).toBe("Bonjour @Data Flow.");
+  });
+});
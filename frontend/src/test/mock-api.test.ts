@@ -0,0 +1,252 @@
+import { describe, it, expect } from "vitest";
+import {
+  adminCompaniesResponseSchema,
+  companiesResponseSchema,
+  deletedPostsResponseSchema,
+  forumCommentsResponseSchema,
+  forumPostsResponseSchema,
+  inboxResponseSchema,
+  meResponseSchema,
+  messagesResponseSchema,
+  profileSchema,
+  schemaDescriptionSchema,
+  sessionResponseSchema,
+  summarySchema,
+  teamResponseSchema,
+} from "@cyberparc/shared";
+import { ApiError } from "@/lib/api";
+import { DEMO_PASSWORD } from "@/lib/demo-fixtures";
+import { mockApiFetch } from "@/lib/mock-api";
+
+const login = (email: string, password: string) =>
+  mockApiFetch<{ token: string; user: { role: string } }>("/api/auth/login", {
+    method: "POST",
+    body: JSON.stringify({ email, password }),
+  });
+
+describe("mock api", () => {
+  it("logs in seeded demo accounts", async () => {
+    const result = await login("contact@techstart.demo", DEMO_PASSWORD);
+    expect(result.user.role).toBe("company");
+    expect(result.token).toMatch(/^demo-token:/);
+  });
+
+  it("rejects a wrong password instead of falling back to a fake user", async () => {
+    await expect(login("contact@techstart.demo", "wrong")).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("reports invalid request fields as a 422 with one message per field", async () => {
+    const request = login("not-an-email", "");
+    await expect(request).rejects.toMatchObject({ status: 422, code: "VALIDATION_FAILED" });
+    await expect(request).rejects.toHaveProperty("fieldErrors.password");
+  });
+
+  it("keeps admin routes behind the admin role", async () => {
+    const { token } = await login("contact@techstart.demo", DEMO_PASSWORD);
+    const request = mockApiFetch("/api/admin/companies", { headers: { Authorization: `Bearer ${token}` } });
+    await expect(request).rejects.toBeInstanceOf(ApiError);
+    await expect(request).rejects.toMatchObject({ status: 403 });
+  });
+
+  it("stops accepting a token once its session is revoked", async () => {
+    const { token } = await login("contact@dataflow.demo", DEMO_PASSWORD);
+    const headers = { Authorization: `Bearer ${token}` };
+
+    await mockApiFetch("/api/auth/logout", { method: "POST", headers });
+    await expect(mockApiFetch("/api/auth/me", { headers })).rejects.toMatchObject({ status: 401 });
+  });
+
+  it("reserves team management to company owners", async () => {
+    const member = await login("equipe@techstart.demo", DEMO_PASSWORD);
+    const invite = mockApiFetch("/api/team/invitations", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${member.token}` },
+      body: JSON.stringify({ email: "new@techstart.demo", companyRole: "member" }),
+    });
+    await expect(invite).rejects.toMatchObject({ status: 403 });
+
+    const owner = await login("contact@techstart.demo", DEMO_PASSWORD);
+    const demoteLastOwner = mockApiFetch("/api/team/2", {
+      method: "PATCH",
+      headers: { Authorization: `Bearer ${owner.token}` },
+      body: JSON.stringify({ companyRole: "member" }),
+    });
+    await expect(demoteLastOwner).rejects.toMatchObject({ status: 409 });
+  });
+
+  it("keeps one like per user on a post", async () => {
+    const { token } = await login("contact@dataflow.demo", DEMO_PASSWORD);
+    const like = (method: string) =>
+      mockApiFetch<{ likes: number; liked: boolean }>("/api/forum/posts/1/like", {
+        method,
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+    const first = await like("POST");
+    expect(await like("POST")).toEqual(first);
+    expect(first.liked).toBe(true);
+    expect(await like("DELETE")).toMatchObject({ likes: first.likes - 1, liked: false });
+  });
+
+  it("summarises reactions per type with the reacting companies", async () => {
+    const { token } = await login("contact@techstart.demo", DEMO_PASSWORD);
+    const as = { headers: { Authorization: `Bearer ${token}` } };
+
+    const { reactions } = await mockApiFetch<{ reactions: unknown[] }>("/api/forum/comments/1/reactions/celebrate", {
+      method: "POST",
+      ...as,
+    });
+    expect(reactions).toEqual([{ type: "celebrate", count: 1, reacted: true, companies: ["TechStart"] }]);
+
+    const unknownType = mockApiFetch("/api/forum/comments/1/reactions/angry", { method: "POST", ...as });
+    await expect(unknownType).rejects.toMatchObject({ status: 422 });
+  });
+
+  it("lets only admins pin posts, which then lead the feed", async () => {
+    const company = await login("contact@techstart.demo", DEMO_PASSWORD);
+    const admin = await login("admin@cyberparc.demo", DEMO_PASSWORD);
+    const pin = (token: string) =>
+      mockApiFetch("/api/forum/posts/2", {
+        method: "PATCH",
+        headers: { Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ isPinned: true, isAnnouncement: true }),
+      });
+
+    await expect(pin(company.token)).rejects.toMatchObject({ status: 403 });
+    await expect(pin(admin.token)).resolves.toMatchObject({ id: 2, isPinned: true, isAnnouncement: true });
+
+    const posts = await mockApiFetch<Array<{ id: number; isPinned: boolean }>>("/api/forum/posts", {
+      headers: { Authorization: `Bearer ${company.token}` },
+    });
+    expect(posts.findIndex((post) => !post.isPinned)).toBe(posts.filter((post) => post.isPinned).length);
+  });
+
+  it("records the replaced version when the author edits a comment", async () => {
+    const author = await login("contact@techstart.demo", DEMO_PASSWORD);
+    const other = await login("contact@dataflow.demo", DEMO_PASSWORD);
+    const admin = await login("admin@cyberparc.demo", DEMO_PASSWORD);
+    const edit = (token: string) =>
+      mockApiFetch("/api/forum/comments/1", {
+        method: "PATCH",
+        headers: { Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ content: "Partants, avec une démo." }),
+      });
+
+    await expect(edit(other.token)).rejects.toMatchObject({ status: 403 });
+    await expect(edit(author.token)).resolves.toMatchObject({ content: "Partants, avec une démo." });
+
+    const revisions = await mockApiFetch<Array<{ content: string; editedBy: string }>>(
+      "/api/forum/comments/1/revisions",
+      { headers: { Authorization: `Bearer ${admin.token}` } }
+    );
+    expect(revisions).toEqual([
+      expect.objectContaining({ content: "Partants ! Nous pouvons présenter un retour d’expérience.", editedBy: "TechStart" }),
+    ]);
+  });
+
+  it("keeps deleted posts in the admin trash until they are restored", async () => {
+    const author = await login("contact@techstart.demo", DEMO_PASSWORD);
+    const other = await login("contact@dataflow.demo", DEMO_PASSWORD);
+    const admin = await login("admin@cyberparc.demo", DEMO_PASSWORD);
+    const as = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+    const feedIds = async () =>
+      (await mockApiFetch<Array<{ id: number }>>("/api/forum/posts", as(author.token))).map((post) => post.id);
+
+    await expect(mockApiFetch("/api/forum/posts/1", { method: "DELETE", ...as(other.token) })).rejects.toMatchObject({
+      status: 403,
+    });
+    await mockApiFetch("/api/forum/posts/1", { method: "DELETE", ...as(author.token) });
+    expect(await feedIds()).not.toContain(1);
+    await expect(mockApiFetch("/api/forum/posts/1/comments", as(author.token))).rejects.toMatchObject({ status: 404 });
+
+    const trash = await mockApiFetch<Array<{ id: number; deletedBy: string }>>("/api/admin/posts/trash", as(admin.token));
+    expect(trash).toEqual([expect.objectContaining({ id: 1, deletedBy: "TechStart" })]);
+
+    await mockApiFetch("/api/admin/posts/1/restore", { method: "POST", ...as(admin.token) });
+    expect(await feedIds()).toContain(1);
+  });
+
+  it("notifies the company whose comment gets a reply", async () => {
+    const replier = await login("contact@dataflow.demo", DEMO_PASSWORD);
+    const author = await login("contact@greenenergy.demo", DEMO_PASSWORD);
+    const as = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+    const reply = (token: string, content: string) =>
+      mockApiFetch<{ id: number; parentId: number }>("/api/forum/posts/2/comments", {
+        method: "POST",
+        ...as(token),
+        body: JSON.stringify({ content, parentId: 2 }),
+      });
+
+    await expect(reply(replier.token, "Avec plaisir !")).resolves.toMatchObject({ parentId: 2 });
+    await reply(author.token, "Précision : nous viendrons à deux.");
+
+    const inbox = await mockApiFetch<Array<{ type: string; actor: string; postId: number }>>(
+      "/api/notifications",
+      as(author.token)
+    );
+    expect(inbox).toEqual([expect.objectContaining({ type: "commentReply", actor: "DataFlow", postId: 2 })]);
+
+    const replyOnOtherPost = mockApiFetch("/api/forum/posts/1/comments", {
+      method: "POST",
+      ...as(replier.token),
+      body: JSON.stringify({ content: "Hors sujet", parentId: 2 }),
+    });
+    await expect(replyOnOtherPost).rejects.toMatchObject({ status: 400 });
+  });
+
+  it("stores mentions and notifies each mentioned company once", async () => {
+    const author = await login("contact@techstart.demo", DEMO_PASSWORD);
+    const mentioned = await login("contact@greenenergy.demo", DEMO_PASSWORD);
+    const as = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+    const mentionsOf = async () =>
+      (await mockApiFetch<Array<{ type: string }>>("/api/notifications", as(mentioned.token))).filter(
+        (notification) => notification.type === "mention"
+      );
+
+    const post = await mockApiFetch<{ id: number; mentions: unknown[] }>("/api/forum/posts", {
+      method: "POST",
+      ...as(author.token),
+      body: JSON.stringify({ title: "Atelier", content: "Avec @greenenergy et @TechStart" }),
+    });
+    expect(post.mentions).toEqual([
+      { id: 4, name: "GreenEnergy" },
+      { id: 2, name: "TechStart" },
+    ]);
+    expect(await mentionsOf()).toEqual([expect.objectContaining({ actor: "TechStart", postId: post.id })]);
+
+    await mockApiFetch(`/api/forum/posts/${post.id}`, {
+      method: "PATCH",
+      ...as(author.token),
+      body: JSON.stringify({ content: "Avec @GreenEnergy, merci !" }),
+    });
+    expect(await mentionsOf()).toHaveLength(1);
+  });
+
+  it("serves responses that satisfy the shared API contract", async () => {
+    const company = await login("contact@techstart.demo", DEMO_PASSWORD);
+    const admin = await login("admin@cyberparc.demo", DEMO_PASSWORD);
+    const as = (token: string) => ({ headers: { Authorization: `Bearer ${token}` } });
+
+    expect(sessionResponseSchema.safeParse(company).success).toBe(true);
+
+    const contract = [
+      [meResponseSchema, "/api/auth/me", company.token],
+      [companiesResponseSchema, "/api/companies", company.token],
+      [forumPostsResponseSchema, "/api/forum/posts", company.token],
+      [forumCommentsResponseSchema, "/api/forum/posts/1/comments", company.token],
+      [messagesResponseSchema, "/api/messages", company.token],
+      [inboxResponseSchema, "/api/notifications", company.token],
+      [profileSchema, "/api/profile", company.token],
+      [teamResponseSchema, "/api/team", company.token],
+      [summarySchema, "/api/dashboard/summary", company.token],
+      [adminCompaniesResponseSchema, "/api/admin/companies", admin.token],
+      [schemaDescriptionSchema, "/api/admin/schema", admin.token],
+      [deletedPostsResponseSchema, "/api/admin/posts/trash", admin.token],
+    ] as const;
+
+    for (const [schema, path, token] of contract) {
+      const result = schema.safeParse(await mockApiFetch(path, as(token)));
+      expect(result.success, `${path}: ${result.error?.message}`).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { idSchema, okResponseSchema, timestampSchema } from './common';
+import { companyFieldsSchema, companySchema } from './companies';
+import { mentionSchema } from './mentions';
+
+export const recentPostSchema = z.object({
+  id: idSchema,
+  title: z.string(),
+  content: z.string(),
+  mentions: z.array(mentionSchema),
+  company: z.string(),
+  createdAt: timestampSchema,
+  comments: z.number(),
+  likes: z.number(),
+  liked: z.boolean(),
+  isPinned: z.boolean(),
+  isAnnouncement: z.boolean(),
+});
+
+export const summarySchema = z.object({
+  stats: z.object({
+    users: z.number(),
+    companies: z.number(),
+    posts: z.number(),
+    comments: z.number(),
+  }),
+  activity: z.array(
+    z.object({
+      title: z.string(),
+      note: z.string(),
+      time: z.string(),
+      tag: z.string().optional(),
+    })
+  ),
+  recentPosts: z.array(recentPostSchema),
+});
+
+export const loginAttemptSchema = z.object({
+  id: idSchema,
+  email: z.string(),
+  ipAddress: z.string().nullable(),
+  success: z.boolean(),
+  reason: z.string().nullable(),
+  createdAt: timestampSchema,
+});
+
+export const loginAttemptsResponseSchema = z.array(loginAttemptSchema);
+
+export const loginAttemptsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+  status: z.enum(['all', 'failed']).default('all'),
+});
+
+export const securityPolicySchema = z.object({
+  requireAdminTwoFactor: z.boolean({
+    required_error: 'requireAdminTwoFactor must be a boolean.',
+    invalid_type_error: 'requireAdminTwoFactor must be a boolean.',
+  }),
+});
+
+export const schemaDescriptionSchema = z.object({
+  schemaVersion: z.number().nullable(),
+  loadedAt: timestampSchema,
+  tables: z.array(z.object({ name: z.string(), columns: z.array(z.string()) })),
+});
+
+export const adminCompanySchema = companySchema.extend({
+  employees: z.number(),
+  admin: z.string().nullable(),
+});
+
+export const adminCompaniesResponseSchema = z.array(adminCompanySchema);
+
+// Without a password the owner account is created inactive and receives an activation email.
+export const createCompanyRequestSchema = companyFieldsSchema.extend({
+  password: z.string().optional(),
+  role: z.literal('company').optional(),
+});
+
+export const createCompanyResponseSchema = companySchema.extend({
+  invitationSent: z.boolean().optional(),
+});
+
+export const updateCompanyRequestSchema = companyFieldsSchema.partial();
+
+export const inviteCompanyResponseSchema = okResponseSchema.extend({ email: z.string() });
+
+export const adminPostSchema = z.object({
+  id: idSchema,
+  title: z.string(),
+  createdAt: timestampSchema,
+  category: z.string().nullable(),
+  status: z.string().nullable(),
+  views: z.number(),
+  company: z.string(),
+  comments: z.number(),
+});
+
+// A soft-deleted post waiting in the admin trash.
+export const deletedPostSchema = z.object({
+  id: idSchema,
+  title: z.string(),
+  category: z.string().nullable(),
+  createdAt: timestampSchema,
+  deletedAt: timestampSchema,
+  company: z.string(),
+  deletedBy: z.string().nullable(),
+  comments: z.number(),
+});
+
+export const deletedPostsResponseSchema = z.array(deletedPostSchema);
+
+export const adminUserSchema = z.object({
+  id: idSchema,
+  email: z.string(),
+  role: z.string(),
+  name: z.string().nullable(),
+  status: z.string().nullable(),
+  lastActive: timestampSchema.nullable(),
+  company: z.string().nullable(),
+});
+
+export const adminMessageSchema = z.object({
+  id: idSchema,
+  from: z.string(),
+  subject: z.string(),
+  createdAt: timestampSchema,
+  preview: z.string(),
+});
+
+export type RecentPost = z.infer<typeof recentPostSchema>;
+export type Summary = z.infer<typeof summarySchema>;
+export type LoginAttempt = z.infer<typeof loginAttemptSchema>;
+export type SecurityPolicy = z.infer<typeof securityPolicySchema>;
+export type SchemaDescription = z.infer<typeof schemaDescriptionSchema>;
+export type AdminCompany = z.infer<typeof adminCompanySchema>;
+export type CreateCompanyRequest = z.input<typeof createCompanyRequestSchema>;
+export type UpdateCompanyRequest = z.input<typeof updateCompanyRequestSchema>;
+export type AdminPost = z.infer<typeof adminPostSchema>;
+export type DeletedPost = z.infer<typeof deletedPostSchema>;
+export type AdminUser = z.infer<typeof adminUserSchema>;
+export type AdminMessage = z.infer<typeof adminMessageSchema>;
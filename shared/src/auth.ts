@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { idSchema, okResponseSchema, requiredText, timestampSchema } from './common';
+
+export const minPasswordLength = 8;
+
+export const userRoleSchema = z.enum(['admin', 'company']);
+
+export const companyRoleSchema = z.enum(['owner', 'manager', 'member']);
+
+const newPasswordSchema = z
+  .string({ required_error: `Password must be at least ${minPasswordLength} characters.` })
+  .min(minPasswordLength, `Password must be at least ${minPasswordLength} characters.`);
+
+export const sessionUserSchema = z.object({
+  id: idSchema,
+  email: z.string(),
+  role: userRoleSchema,
+  companyId: idSchema.nullable(),
+  companyName: z.string().nullable().optional(),
+  companyRole: companyRoleSchema.nullable(),
+  twoFactorEnabled: z.boolean().optional(),
+});
+
+export const loginRequestSchema = z.object({
+  email: requiredText('Email and password are required.').toLowerCase(),
+  password: z.string({ required_error: 'Email and password are required.' }).min(1, 'Email and password are required.'),
+  role: z.string().optional(),
+});
+
+export const sessionResponseSchema = z.object({
+  token: z.string(),
+  user: sessionUserSchema,
+  twoFactorSetupRequired: z.boolean().optional(),
+});
+
+export const twoFactorChallengeSchema = z.object({
+  twoFactorRequired: z.literal(true),
+  challengeToken: z.string(),
+});
+
+export const loginResponseSchema = z.union([twoFactorChallengeSchema, sessionResponseSchema]);
+
+export const isTwoFactorChallenge = (response: LoginResponse): response is TwoFactorChallenge =>
+  'twoFactorRequired' in response && response.twoFactorRequired === true;
+
+export const twoFactorLoginRequestSchema = z.object({
+  challengeToken: z.string().default(''),
+  code: requiredText('Invalid verification code.'),
+});
+
+export const forgotPasswordRequestSchema = z.object({
+  email: requiredText('Email is required.').toLowerCase().pipe(z.string().email('Invalid email address.')),
+});
+
+export const oneTimeTokenPurposeSchema = z.enum(['reset', 'activation'], {
+  errorMap: () => ({ message: 'Invalid token purpose.' }),
+});
+
+export const verifyTokenRequestSchema = z.object({
+  token: z.string().default(''),
+  purpose: oneTimeTokenPurposeSchema,
+});
+
+export const verifyTokenResponseSchema = z.object({ email: z.string() });
+
+export const setPasswordRequestSchema = z.object({
+  token: z.string().default(''),
+  password: newPasswordSchema,
+});
+
+export const setPasswordResponseSchema = okResponseSchema.extend({ email: z.string() });
+
+export const meResponseSchema = z.object({
+  user: sessionUserSchema,
+  twoFactorSetupRequired: z.boolean().optional(),
+});
+
+export const changePasswordRequestSchema = z.object({
+  currentPassword: requiredText('Current password is required.'),
+  newPassword: newPasswordSchema,
+});
+
+export const activeSessionSchema = z.object({
+  id: z.string(),
+  userAgent: z.string().nullable(),
+  ipAddress: z.string().nullable(),
+  createdAt: timestampSchema,
+  lastSeenAt: timestampSchema,
+  expiresAt: timestampSchema.optional(),
+  current: z.boolean(),
+});
+
+export const activeSessionsResponseSchema = z.array(activeSessionSchema);
+
+export const revokeSessionsResponseSchema = z.object({ revoked: z.number() });
+
+export const sessionParamsSchema = z.object({ id: z.string().uuid('Invalid session id.') });
+
+export const revokeSessionResponseSchema = okResponseSchema.extend({ current: z.boolean() });
+
+export const twoFactorStatusSchema = z.object({
+  enabled: z.boolean(),
+  recoveryCodesRemaining: z.number(),
+  required: z.boolean(),
+});
+
+export const twoFactorSetupSchema = z.object({
+  secret: z.string(),
+  otpauthUrl: z.string(),
+  qrCode: z.string(),
+});
+
+export const twoFactorCodeRequestSchema = z.object({
+  code: requiredText('Invalid verification code.'),
+});
+
+export const recoveryCodesResponseSchema = z.object({ recoveryCodes: z.array(z.string()) });
+
+export const disableTwoFactorRequestSchema = z.object({
+  password: z.string({ required_error: 'Password is required.' }).min(1, 'Password is required.'),
+});
+
+export type UserRole = z.infer<typeof userRoleSchema>;
+export type CompanyRole = z.infer<typeof companyRoleSchema>;
+export type SessionUser = z.infer<typeof sessionUserSchema>;
+export type LoginRequest = z.input<typeof loginRequestSchema>;
+export type SessionResponse = z.infer<typeof sessionResponseSchema>;
+export type TwoFactorChallenge = z.infer<typeof twoFactorChallengeSchema>;
+export type LoginResponse = z.infer<typeof loginResponseSchema>;
+export type TwoFactorLoginRequest = z.input<typeof twoFactorLoginRequestSchema>;
+export type ForgotPasswordRequest = z.input<typeof forgotPasswordRequestSchema>;
+export type OneTimeTokenPurpose = z.infer<typeof oneTimeTokenPurposeSchema>;
+export type VerifyTokenRequest = z.input<typeof verifyTokenRequestSchema>;
+export type SetPasswordRequest = z.input<typeof setPasswordRequestSchema>;
+export type MeResponse = z.infer<typeof meResponseSchema>;
+export type ChangePasswordRequest = z.input<typeof changePasswordRequestSchema>;
+export type ActiveSession = z.infer<typeof activeSessionSchema>;
+export type TwoFactorStatus = z.infer<typeof twoFactorStatusSchema>;
+export type TwoFactorSetup = z.infer<typeof twoFactorSetupSchema>;
+export type TwoFactorCodeRequest = z.input<typeof twoFactorCodeRequestSchema>;
+export type DisableTwoFactorRequest = z.input<typeof disableTwoFactorRequestSchema>;
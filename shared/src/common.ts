@@ -0,0 +1,94 @@
+import { z } from 'zod';
+
+export const idSchema = z.number().int();
+
+// Timestamps travel as ISO 8601 strings (JSON.stringify of a Date).
+export const timestampSchema = z.string();
+
+export const okResponseSchema = z.object({ ok: z.literal(true) });
+
+export const deletedResponseSchema = z.object({ id: idSchema });
+
+// Offending field (dotted path, e.g. "user.email") to the message describing the problem.
+export const fieldErrorsSchema = z.record(z.string());
+
+export const errorResponseSchema = z
+  .object({
+    message: z.string(),
+    code: z.string().optional(),
+    fieldErrors: fieldErrorsSchema.optional(),
+    requestId: z.string().optional(),
+  })
+  .passthrough();
+
+// Upper bounds on free text, so oversized input is rejected up front instead of by the database.
+export const maxLengths = {
+  shortText: 255,
+  title: 200,
+  longText: 5000,
+  comment: 2000,
+  message: 2000,
+  url: 2048,
+};
+
+const invalidIdMessage = 'Must be a positive integer id.';
+
+// Ids from paths, query strings and older clients arrive as strings.
+export const positiveIdSchema = z.coerce
+  .number({ invalid_type_error: invalidIdMessage })
+  .int(invalidIdMessage)
+  .positive(invalidIdMessage);
+
+// Empty values mean "not provided".
+export const optionalIdSchema = z.preprocess(
+  (value) => (value === '' || value === null ? undefined : value),
+  positiveIdSchema.optional()
+);
+
+export const idParamsSchema = z.object({ id: positiveIdSchema });
+
+// Older clients echo the caller's identity in bodies; the API rejects values that do not match the session.
+export const identityFieldsSchema = z.object({
+  userId: optionalIdSchema,
+  companyId: optionalIdSchema,
+});
+
+export const tooLong = (max: number) => `Must be at most ${max} characters.`;
+
+export const requiredText = (message: string, max: number = maxLengths.shortText) =>
+  z
+    .string({ required_error: message, invalid_type_error: message })
+    .trim()
+    .min(1, message)
+    .max(max, tooLong(max));
+
+// Optional profile fields: empty strings are stored as NULL.
+export const optionalText = z.string().trim().max(maxLengths.shortText, tooLong(maxLengths.shortText)).nullable().optional();
+
+export const optionalLongText = z
+  .string()
+  .trim()
+  .max(maxLengths.longText, tooLong(maxLengths.longText))
+  .nullable()
+  .optional();
+
+export const optionalEmail = z
+  .union([z.literal(''), z.string().trim().email('Invalid email address.').max(maxLengths.shortText, tooLong(maxLengths.shortText))])
+  .nullable()
+  .optional();
+
+// Flattens validation issues to one message per field, keeping the first issue reported for each.
+export const toFieldErrors = (error: z.ZodError): Record<string, string> => {
+  const fieldErrors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const field = issue.path.join('.') || '_';
+    fieldErrors[field] ??= issue.message;
+  }
+  return fieldErrors;
+};
+
+export type OkResponse = z.infer<typeof okResponseSchema>;
+export type DeletedResponse = z.infer<typeof deletedResponseSchema>;
+export type FieldErrors = z.infer<typeof fieldErrorsSchema>;
+export type IdParams = z.output<typeof idParamsSchema>;
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { idSchema, optionalEmail, optionalLongText, optionalText, requiredText } from './common';
+
+export const companySchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  industry: z.string().nullable(),
+  location: z.string().nullable(),
+  website: z.string().nullable(),
+  email: z.string().nullable(),
+  phone: z.string().nullable(),
+  status: z.string().nullable(),
+  description: z.string().nullable(),
+});
+
+export const directoryCompanySchema = companySchema.extend({ employees: z.number() });
+
+export const companiesResponseSchema = z.array(directoryCompanySchema);
+
+// Editable company fields, shared by the admin screens and the company's own profile.
+export const companyFieldsSchema = z.object({
+  name: requiredText('name is required.'),
+  industry: optionalText,
+  location: optionalText,
+  website: optionalText,
+  email: optionalEmail,
+  phone: optionalText,
+  status: optionalText,
+  description: optionalLongText,
+});
+
+export type Company = z.infer<typeof companySchema>;
+export type DirectoryCompany = z.infer<typeof directoryCompanySchema>;
+export type CompanyFields = z.input<typeof companyFieldsSchema>;
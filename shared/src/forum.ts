@@ -0,0 +1,143 @@
+import { z } from 'zod';
+import {
+  identityFieldsSchema,
+  idParamsSchema,
+  idSchema,
+  maxLengths,
+  optionalIdSchema,
+  requiredText,
+  timestampSchema,
+  tooLong,
+} from './common';
+import { sanitizeMarkdown } from './markdown';
+import { mentionSchema } from './mentions';
+
+// A like is the 'like' reaction; the frontend draws each type as an emoji.
+export const reactionTypeSchema = z.enum(['like', 'thumbsUp', 'celebrate', 'insight']);
+
+export const reactionSummarySchema = z.object({
+  type: reactionTypeSchema,
+  count: z.number(),
+  reacted: z.boolean(),
+  // Names of the companies whose users left this reaction.
+  companies: z.array(z.string()),
+});
+
+export const reactionParamsSchema = idParamsSchema.extend({ type: reactionTypeSchema });
+
+export const reactionsResponseSchema = z.object({
+  id: idSchema,
+  reactions: z.array(reactionSummarySchema),
+});
+
+export const forumPostSchema = z.object({
+  id: idSchema,
+  title: z.string(),
+  content: z.string(),
+  // Companies mentioned in the content.
+  mentions: z.array(mentionSchema),
+  category: z.string().nullable(),
+  createdAt: timestampSchema,
+  company: z.string(),
+  companyId: idSchema,
+  comments: z.number(),
+  likes: z.number(),
+  liked: z.boolean(),
+  reactions: z.array(reactionSummarySchema),
+  // True only while the pin lasts: an expired pinnedUntil reads as unpinned.
+  isPinned: z.boolean(),
+  pinnedUntil: timestampSchema.nullable(),
+  isAnnouncement: z.boolean(),
+  // Set once the title, content or category was changed after publication.
+  editedAt: timestampSchema.nullable(),
+});
+
+export const forumPostsResponseSchema = z.array(forumPostSchema);
+
+// Post, comment and message bodies are markdown, sanitized as they are parsed.
+export const createPostRequestSchema = identityFieldsSchema.extend({
+  title: requiredText('Title is required.', maxLengths.title),
+  content: z.string().max(maxLengths.longText, tooLong(maxLengths.longText)).default('').transform(sanitizeMarkdown),
+  category: z.string().trim().max(maxLengths.shortText, tooLong(maxLengths.shortText)).nullable().optional(),
+});
+
+// The authoring company (or an admin) edits the text; pinning and announcements are reserved to admins.
+export const updatePostRequestSchema = z.object({
+  title: requiredText('Title is required.', maxLengths.title).optional(),
+  content: z.string().max(maxLengths.longText, tooLong(maxLengths.longText)).transform(sanitizeMarkdown).optional(),
+  category: z.string().trim().max(maxLengths.shortText, tooLong(maxLengths.shortText)).nullable().optional(),
+  isPinned: z.boolean({ invalid_type_error: 'isPinned must be a boolean.' }).optional(),
+  // The post drops back into the feed at this instant; null keeps it pinned until unpinned.
+  pinnedUntil: z
+    .string({ invalid_type_error: 'pinnedUntil must be a date.' })
+    .datetime({ offset: true, message: 'pinnedUntil must be an ISO 8601 date.' })
+    .refine((value) => Date.parse(value) > Date.now(), 'pinnedUntil must be in the future.')
+    .nullable()
+    .optional(),
+  isAnnouncement: z.boolean({ invalid_type_error: 'isAnnouncement must be a boolean.' }).optional(),
+});
+
+// Like count of a post after the caller liked or unliked it.
+export const postLikeResponseSchema = z.object({
+  id: idSchema,
+  likes: z.number(),
+  liked: z.boolean(),
+});
+
+export const forumCommentSchema = z.object({
+  id: idSchema,
+  content: z.string(),
+  mentions: z.array(mentionSchema),
+  createdAt: timestampSchema,
+  company: z.string(),
+  companyId: idSchema,
+  reactions: z.array(reactionSummarySchema),
+  editedAt: timestampSchema.nullable(),
+  // Comment this one replies to; null for the top level of the thread.
+  parentId: idSchema.nullable(),
+});
+
+// Comments of a post in publication order; the frontend nests replies under their parent.
+export const forumCommentsResponseSchema = z.array(forumCommentSchema);
+
+export const createCommentRequestSchema = identityFieldsSchema.extend({
+  content: requiredText('Post and content are required.', maxLengths.comment).transform(sanitizeMarkdown),
+  // Replying to a comment of the same post notifies the company that wrote it.
+  parentId: optionalIdSchema,
+});
+
+export const createCommentResponseSchema = forumCommentSchema.extend({ postId: idSchema });
+
+export const updateCommentRequestSchema = z.object({
+  content: requiredText('Content is required.', maxLengths.comment).transform(sanitizeMarkdown),
+});
+
+// Earlier versions of a post or comment, newest first; each one is what readers saw until `replacedAt`.
+export const postRevisionSchema = z.object({
+  id: idSchema,
+  title: z.string(),
+  content: z.string(),
+  category: z.string().nullable(),
+  replacedAt: timestampSchema,
+  // Company the editor acted for; null once that company is deleted.
+  editedBy: z.string().nullable(),
+});
+
+export const postRevisionsResponseSchema = z.array(postRevisionSchema);
+
+export const commentRevisionSchema = postRevisionSchema.pick({ id: true, content: true, replacedAt: true, editedBy: true });
+
+export const commentRevisionsResponseSchema = z.array(commentRevisionSchema);
+
+export type ReactionType = z.infer<typeof reactionTypeSchema>;
+export type ReactionSummary = z.infer<typeof reactionSummarySchema>;
+export type ReactionParams = z.output<typeof reactionParamsSchema>;
+export type ForumPost = z.infer<typeof forumPostSchema>;
+export type CreatePostRequest = z.input<typeof createPostRequestSchema>;
+export type UpdatePostRequest = z.input<typeof updatePostRequestSchema>;
+export type PostLike = z.infer<typeof postLikeResponseSchema>;
+export type ForumComment = z.infer<typeof forumCommentSchema>;
+export type CreateCommentRequest = z.input<typeof createCommentRequestSchema>;
+export type UpdateCommentRequest = z.input<typeof updateCommentRequestSchema>;
+export type PostRevision = z.infer<typeof postRevisionSchema>;
+export type CommentRevision = z.infer<typeof commentRevisionSchema>;
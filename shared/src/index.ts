@@ -0,0 +1,14 @@
+// Request and response contract of the intranet API, shared by the backend (which validates request
+// bodies against it) and the frontend (which validates responses in apiFetch).
+
+export * from './common';
+export * from './auth';
+export * from './admin';
+export * from './companies';
+export * from './forum';
+export * from './markdown';
+export * from './mentions';
+export * from './messages';
+export * from './notifications';
+export * from './profile';
+export * from './team';
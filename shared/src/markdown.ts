@@ -0,0 +1,73 @@
+// Forum posts, comments and messages are written in markdown. Request schemas run their text through
+// sanitizeMarkdown, so what the API stores has no raw HTML and only links to web, mail or phone
+// addresses, whatever renders it later. Code spans and fenced blocks are kept as written.
+
+const safeSchemes = ['http', 'https', 'mailto', 'tel'];
+
+// Fenced code blocks (up to the closing fence or the end of the text) and single-line code spans.
+const codePattern = /(```|~~~)[\s\S]*?(?:\1|$)|`[^`\n]+`/g;
+
+const htmlCommentPattern = /<!--[\s\S]*?(?:-->|$)/g;
+const htmlTagPattern = /<\/?[a-z][a-z0-9-]*(?:\s[^<>]*)?\/?>/gi;
+const autolinkPattern = /<([a-z][a-z0-9+.-]*:[^\s<>]*)>/gi;
+// What is left of a tag that never closes ("<img src=x onerror=…" at the end of the text), kept
+// apart from the autolinks that survived.
+const tagOpeningPattern = /(<[a-z][a-z0-9+.-]*:[^\s<>]*>)|<(?=[a-z/!?])/gi;
+const inlineLinkPattern = /(\]\(\s*)(<[^>\n]*>|[^\s()]*(?:\([^\s()]*\)[^\s()]*)*)/g;
+const referenceLinkPattern = /^( {0,3}\[[^\]\n]+\]:[ \t]*)(<[^>\n]*>|\S+)/gm;
+
+const namedEntities: Record<string, string> = { colon: ':', tab: '\t', newline: '\n' };
+
+// Markdown decodes character references and backslash escapes in link destinations, so
+// "javascript&#58;" and "javascript\:" must be read as "javascript:".
+const decodeDestination = (destination: string) =>
+  destination
+    .replace(/^<|>$/g, '')
+    .replace(/&#(x[0-9a-f]+|\d+);?/gi, (_match, code: string) =>
+      String.fromCodePoint(code[0].toLowerCase() === 'x' ? parseInt(code.slice(1), 16) : Number(code))
+    )
+    .replace(/&([a-z]+);/gi, (match, name: string) => namedEntities[name.toLowerCase()] ?? match)
+    .replace(/\\(.)/g, '$1')
+    .replace(/[\s\u0000-\u001f\u007f]/g, '');
+
+export const isSafeUrl = (destination: string) => {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(decodeDestination(destination));
+  return !scheme || safeSchemes.includes(scheme[1].toLowerCase());
+};
+
+const stripHtmlOnce = (text: string) =>
+  text
+    .replace(htmlCommentPattern, '')
+    .replace(autolinkPattern, (match, url: string) => (isSafeUrl(url) ? match : url))
+    .replace(htmlTagPattern, '');
+
+// Removing one tag can join the text around it into another ("<scr<b>ipt>"), so tags are stripped
+// until nothing changes, and the opening of any tag left unclosed is escaped.
+const stripHtml = (text: string) => {
+  let stripped = stripHtmlOnce(text);
+  while (stripped !== text) {
+    text = stripped;
+    stripped = stripHtmlOnce(text);
+  }
+  return stripped.replace(tagOpeningPattern, (match, autolink?: string) => autolink ?? '&lt;');
+};
+
+const sanitizeProse = (text: string) =>
+  stripHtml(text)
+    .replace(inlineLinkPattern, (match, opening: string, url: string) => (isSafeUrl(url) ? match : `${opening}#`))
+    .replace(referenceLinkPattern, (match, label: string, url: string) => (isSafeUrl(url) ? match : `${label}#`));
+
+// Applies `transform` to the text between code spans and fenced blocks, which are kept as they are.
+export const mapProse = (text: string, transform: (prose: string) => string) => {
+  let mapped = '';
+  let lastIndex = 0;
+
+  for (const code of text.matchAll(codePattern)) {
+    mapped += transform(text.slice(lastIndex, code.index)) + code[0];
+    lastIndex = (code.index ?? 0) + code[0].length;
+  }
+
+  return mapped + transform(text.slice(lastIndex));
+};
+
+export const sanitizeMarkdown = (text: string) => mapProse(text, sanitizeProse);
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import { idSchema } from './common';
+import { mapProse } from './markdown';
+
+// A company referenced as "@Name" in a post, comment or message. The API resolves mentions when the
+// text is written and returns them alongside it, so clients can link each one to the company profile.
+export const mentionSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+});
+
+export const directoryProfilePath = (companyId: number) => `/directory?company=${companyId}`;
+
+const wordCharacter = /[\p{L}\p{N}_]/u;
+
+// Substitutes `replace(company)` for every "@Name" naming one of `companies`. Names match without
+// regard to case, the longest first, and must not run on into a word; an "@" preceded by a word
+// character (as in an email address) starts no mention.
+const replaceMentions = <T extends Mention>(prose: string, companies: T[], replace: (company: T) => string) => {
+  const candidates = [...companies].sort((a, b) => b.name.length - a.name.length);
+  let replaced = '';
+  let lastIndex = 0;
+  let at = prose.indexOf('@');
+
+  while (at !== -1) {
+    const company =
+      at > 0 && wordCharacter.test(prose[at - 1])
+        ? undefined
+        : candidates.find(({ name }) => {
+            const end = at + 1 + name.length;
+            return (
+              name.length > 0 &&
+              prose.slice(at + 1, end).toLowerCase() === name.toLowerCase() &&
+              !wordCharacter.test(prose.charAt(end))
+            );
+          });
+
+    if (company) {
+      const end = at + 1 + company.name.length;
+      replaced += prose.slice(lastIndex, at) + replace(company);
+      lastIndex = end;
+      at = prose.indexOf('@', end);
+    } else {
+      at = prose.indexOf('@', at + 1);
+    }
+  }
+
+  return replaced + prose.slice(lastIndex);
+};
+
+// Companies of `companies` mentioned in the markdown `text`, each once, in order of appearance.
+// Mentions inside code are not counted.
+export const findMentions = <T extends Mention>(text: string, companies: T[]) => {
+  const mentioned = new Map<number, T>();
+
+  mapProse(text, (prose) =>
+    replaceMentions(prose, companies, (company) => {
+      if (!mentioned.has(company.id)) mentioned.set(company.id, company);
+      return '';
+    })
+  );
+
+  return [...mentioned.values()];
+};
+
+// Rewrites the resolved `mentions` of the markdown `text` as links to the companies' profiles.
+export const linkMentions = (text: string, mentions: Mention[]) =>
+  mentions.length
+    ? mapProse(text, (prose) =>
+        replaceMentions(
+          prose,
+          mentions,
+          ({ id, name }) => `[@${name.replace(/[\\[\]*_`]/g, '\\$&')}](${directoryProfilePath(id)})`
+        )
+      )
+    : text;
+
+export type Mention = z.infer<typeof mentionSchema>;
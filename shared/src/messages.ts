@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { identityFieldsSchema, idSchema, maxLengths, optionalIdSchema, requiredText, timestampSchema } from './common';
+import { sanitizeMarkdown } from './markdown';
+import { mentionSchema } from './mentions';
+
+export const messageSchema = z.object({
+  id: idSchema,
+  senderCompanyId: idSchema,
+  receiverCompanyId: idSchema,
+  content: z.string(),
+  mentions: z.array(mentionSchema),
+  createdAt: timestampSchema,
+});
+
+export const conversationMessageSchema = messageSchema.extend({
+  senderName: z.string(),
+  receiverName: z.string(),
+});
+
+export const messagesResponseSchema = z.array(conversationMessageSchema);
+
+export const sendMessageRequestSchema = z.object({
+  receiverCompanyId: z.coerce
+    .number({ invalid_type_error: 'receiverCompanyId and content are required.' })
+    .int()
+    .positive('receiverCompanyId and content are required.'),
+  content: requiredText('receiverCompanyId and content are required.', maxLengths.message).transform(sanitizeMarkdown),
+  senderCompanyId: optionalIdSchema,
+});
+
+export const messagesQuerySchema = identityFieldsSchema.pick({ companyId: true });
+
+export type Message = z.infer<typeof messageSchema>;
+export type ConversationMessage = z.infer<typeof conversationMessageSchema>;
+export type SendMessageRequest = z.input<typeof sendMessageRequestSchema>;
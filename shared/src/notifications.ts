@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { idSchema, timestampSchema } from './common';
+
+export const notificationTypeSchema = z.enum(['commentReply', 'mention']);
+
+// An in-app notification of the acting company, pointing at the forum post it concerns. A mention in
+// a message has no post: it points at the conversation with the actor.
+export const inboxNotificationSchema = z.object({
+  id: idSchema,
+  type: notificationTypeSchema,
+  // Company whose action triggered the notification; null once that company is deleted.
+  actor: z.string().nullable(),
+  actorId: idSchema.nullable(),
+  postId: idSchema.nullable(),
+  postTitle: z.string().nullable(),
+  commentId: idSchema.nullable(),
+  createdAt: timestampSchema,
+  readAt: timestampSchema.nullable(),
+});
+
+export const inboxResponseSchema = z.array(inboxNotificationSchema);
+
+export type NotificationType = z.infer<typeof notificationTypeSchema>;
+export type InboxNotification = z.infer<typeof inboxNotificationSchema>;
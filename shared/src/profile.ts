@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import { identityFieldsSchema, idSchema, maxLengths, okResponseSchema, optionalIdSchema, optionalText, tooLong } from './common';
+import { companyFieldsSchema, companySchema } from './companies';
+
+export const profileSchema = z.object({
+  user: z.object({
+    id: idSchema,
+    email: z.string(),
+    companyId: idSchema.nullable(),
+    name: z.string().nullable(),
+    phone: z.string().nullable(),
+    avatar: z.string().nullable(),
+  }),
+  company: companySchema.nullable(),
+});
+
+export const updateProfileRequestSchema = identityFieldsSchema.extend({
+  user: z
+    .object({
+      name: optionalText,
+      email: z.string().trim().email('Invalid email address.').max(maxLengths.shortText, tooLong(maxLengths.shortText)).optional(),
+      phone: optionalText,
+      avatar: z.string().trim().max(maxLengths.url, tooLong(maxLengths.url)).nullable().optional(),
+    })
+    .optional(),
+  company: companyFieldsSchema.partial().optional(),
+});
+
+export const updateProfileResponseSchema = okResponseSchema.extend({
+  user: z.object({ id: idSchema, email: z.string(), companyId: idSchema.nullable() }).nullable().optional(),
+  company: z.object({ id: idSchema, name: z.string() }).nullable().optional(),
+});
+
+export const notificationsSchema = z.record(z.boolean());
+
+export const notificationsResponseSchema = z.object({ notifications: notificationsSchema });
+
+export const updateNotificationsRequestSchema = z.object({
+  notifications: notificationsSchema.default({}),
+  userId: optionalIdSchema,
+});
+
+export const profileQuerySchema = identityFieldsSchema;
+
+export const notificationsQuerySchema = identityFieldsSchema.pick({ userId: true });
+
+export type Profile = z.infer<typeof profileSchema>;
+export type UpdateProfileRequest = z.input<typeof updateProfileRequestSchema>;
+export type Notifications = z.infer<typeof notificationsSchema>;
+export type UpdateNotificationsRequest = z.input<typeof updateNotificationsRequestSchema>;
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { idSchema, positiveIdSchema, requiredText } from './common';
+import { companyRoleSchema } from './auth';
+
+const companyRoleField = z.enum(companyRoleSchema.options, {
+  errorMap: () => ({ message: 'Invalid company role.' }),
+});
+
+export const teamMemberSchema = z.object({
+  id: idSchema,
+  email: z.string(),
+  name: z.string().nullable(),
+  companyRole: companyRoleSchema.nullable(),
+  invitationPending: z.boolean(),
+});
+
+export const teamResponseSchema = z.object({
+  members: z.array(teamMemberSchema),
+  companyRole: companyRoleSchema,
+});
+
+export const inviteMemberRequestSchema = z.object({
+  email: requiredText('Email is required.').toLowerCase().pipe(z.string().email('Invalid email address.')),
+  companyRole: companyRoleField.default('member'),
+});
+
+export const inviteMemberResponseSchema = teamMemberSchema.extend({ invitationSent: z.boolean() });
+
+export const memberParamsSchema = z.object({ userId: positiveIdSchema });
+
+export const updateMemberRoleRequestSchema = z.object({ companyRole: companyRoleField });
+
+export const updateMemberRoleResponseSchema = teamMemberSchema.omit({ invitationPending: true });
+
+export type TeamMember = z.infer<typeof teamMemberSchema>;
+export type InviteMemberRequest = z.input<typeof inviteMemberRequestSchema>;
+export type UpdateMemberRoleRequest = z.input<typeof updateMemberRoleRequestSchema>;
+export type MemberParams = z.output<typeof memberParamsSchema>;